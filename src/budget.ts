@@ -0,0 +1,179 @@
+import type * as vscode from 'vscode';
+import { FunctionDefinition, OutputOptions, RaydocContext } from './types';
+import { getLanguageProvider } from './provider';
+
+export type Tokenizer = (text: string) => number;
+
+export type BudgetedContext = {
+    context: RaydocContext;
+    omitted: FunctionDefinition[];
+};
+
+/**
+ * Rough token budgets for the context window of common models. A budget of 0 means unlimited.
+ */
+export const MODEL_TOKEN_BUDGETS: Record<string, number> = {
+    'unlimited': 0,
+    'gpt-4o': 128000,
+    'gpt-4o-mini': 128000,
+    'o3-mini': 200000,
+    'claude-3.5-sonnet': 200000,
+    'claude-3.7-sonnet': 200000,
+    'gemini-1.5-pro': 1000000,
+    'llama-3-8b': 8192,
+};
+
+const tokenizers = new Map<string, Tokenizer>([
+    // Roughly four characters per token for code and English text
+    ['chars', (text: string) => Math.ceil(text.length / 4)],
+    // Roughly four tokens for every three words
+    ['words', (text: string) => Math.ceil(text.split(/\s+/).filter(w => w.length > 0).length * 4 / 3)],
+]);
+
+/**
+ * Register an additional token estimator that can be selected with the `output-config.tokenizer` setting.
+ */
+export function registerTokenizer(name: string, tokenizer: Tokenizer) {
+    tokenizers.set(name, tokenizer);
+}
+
+export function estimateTokens(text: string): number {
+    const config = getLanguageProvider().getConfiguration('raydoc-context.output-config');
+    const tokenizer = tokenizers.get(config.get<string>('tokenizer', 'chars')) || tokenizers.get('chars')!;
+    return tokenizer(text);
+}
+
+/**
+ * Get the token budget for the configured model preset, or 0 if the output is unlimited.
+ */
+export function getTokenBudget(): number {
+    const config = getLanguageProvider().getConfiguration('raydoc-context.output-config');
+    const preset = config.get<string>('token-budget', 'unlimited');
+    if (preset === 'custom') {
+        return Math.max(0, config.get<number>('custom-token-budget', 0));
+    }
+    return MODEL_TOKEN_BUDGETS[preset] ?? 0;
+}
+
+/**
+ * The sections of a RaydocContext that compete for the token budget.
+ */
+const BUDGETED_SECTIONS = [
+    { key: 'typeDefns', option: 'typeDefinitions' },
+    { key: 'referencedFunctions', option: 'referencedFunctions' },
+    { key: 'incomingCalls', option: 'incomingCalls' },
+    { key: 'tests', option: 'tests' },
+] as const;
+
+// Renders a context with the given definitions listed as omitted, to measure it against the budget
+export type BudgetRenderer = (context: RaydocContext, omitted: FunctionDefinition[]) => string;
+
+/**
+ * Fill the token budget with type definitions, referenced functions, callers and tests in order of relevance.
+ * Everything else is always sent and counted first, and anything that no longer fits is returned as
+ * omitted instead; since the omitted list takes room too, the least relevant definitions go until the
+ * rendered output fits. If it still doesn't, the main functions are cut down to the lines around the
+ * focused line, and then the omitted list is shortened. Sections turned off in the options are left out.
+ */
+export function fitContextToBudget(
+    context: RaydocContext,
+    render: BudgetRenderer,
+    options?: OutputOptions,
+): BudgetedContext {
+    const budget = getTokenBudget();
+    if (budget === 0) {
+        return { context, omitted: [] };
+    }
+    const fits = (budgeted: BudgetedContext) => estimateTokens(render(budgeted.context, budgeted.omitted)) <= budget;
+
+    const candidates: FunctionDefinition[] = [];
+    for (const section of BUDGETED_SECTIONS) {
+        if (!options || options[section.option]) {
+            candidates.push(...(context[section.key] || []));
+        }
+    }
+
+    // Highest relevance first, keeping the gathered order for ties
+    candidates.sort((a, b) => (b.relevance ?? 0) - (a.relevance ?? 0));
+
+    const included = new Set<FunctionDefinition>();
+    const withIncluded = (): BudgetedContext => {
+        const budgeted: RaydocContext = { ...context };
+        for (const section of BUDGETED_SECTIONS) {
+            // Keep the original order within each section
+            budgeted[section.key] = context[section.key]?.filter(defn => included.has(defn));
+        }
+        return { context: budgeted, omitted: candidates.filter(defn => !included.has(defn)) };
+    };
+
+    let remaining = budget - estimateTokens(render(withIncluded().context, []));
+    for (const defn of candidates) {
+        const cost = estimateDefinitionTokens(defn);
+        if (cost <= remaining) {
+            remaining -= cost;
+            included.add(defn);
+        }
+    }
+
+    let budgeted = withIncluded();
+    const droppable = candidates.filter(defn => included.has(defn));
+    while (!fits(budgeted) && droppable.length > 0) {
+        included.delete(droppable.pop()!);
+        budgeted = withIncluded();
+    }
+
+    if (!fits(budgeted)) {
+        budgeted = trimMainFunctions(budgeted, fits);
+    }
+    // Only the least relevant of a long omitted list are left out of it when even that doesn't fit
+    while (!fits(budgeted) && budgeted.omitted.length > 0) {
+        budgeted = { ...budgeted, omitted: budgeted.omitted.slice(0, -1) };
+    }
+    return budgeted;
+}
+
+/**
+ * Keep the first line of each main function and the lines around the focused line, halving how
+ * many until the output fits or only the first lines are left. Elided lines become `...`.
+ */
+function trimMainFunctions(budgeted: BudgetedContext, fits: (budgeted: BudgetedContext) => boolean): BudgetedContext {
+    const functionDefns = budgeted.context.functionDefns || [];
+    let radius = Math.max(0, ...functionDefns.map(defn => defn.functionText.split('\n').length));
+    let trimmed = budgeted;
+    while (radius > 0) {
+        radius = Math.floor(radius / 2);
+        const line = budgeted.context.line;
+        trimmed = { ...budgeted, context: { ...budgeted.context, functionDefns: functionDefns.map(defn => trimAroundLine(defn, line, radius)) } };
+        if (fits(trimmed)) {
+            break;
+        }
+    }
+    return trimmed;
+}
+
+function trimAroundLine(defn: FunctionDefinition, line: number, radius: number): FunctionDefinition {
+    const lines = defn.functionText.split('\n');
+    const lineNumbers = defn.lineNumbers ?? lines.map((_, i) => defn.startLine + i);
+    // Functions the focused line isn't in keep their start
+    const focus = Math.max(0, lineNumbers.indexOf(line));
+
+    const texts: string[] = [];
+    const keptLineNumbers: number[] = [];
+    lines.forEach((text, i) => {
+        if (i === 0 || Math.abs(i - focus) <= radius) {
+            texts.push(text);
+            keptLineNumbers.push(lineNumbers[i]);
+        } else if (keptLineNumbers[keptLineNumbers.length - 1] !== -1) {
+            texts.push('...');
+            keptLineNumbers.push(-1);
+        }
+    });
+    if (texts.length === lines.length) {
+        return defn;
+    }
+    return { ...defn, functionText: texts.join('\n'), lineNumbers: keptLineNumbers };
+}
+
+export function estimateDefinitionTokens(defn: FunctionDefinition): number {
+    return estimateTokens(`--- "${defn.functionName}" (${defn.filename}) ---\n${defn.functionText}\n\n`);
+}
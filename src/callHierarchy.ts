@@ -0,0 +1,93 @@
+import type * as vscode from 'vscode';
+
+import { FunctionDefinition } from './types';
+import { getFunctionDefinition } from './functions';
+import { isIgnoreLocation, isInWorkspace } from './getReferences';
+import { getLanguageProvider } from './provider';
+import { raceCancellation } from './progress';
+
+/**
+ * Find the functions that call the given function using the call hierarchy provider.
+ * Callers of callers are included up to maxDepth, and each caller records the lines
+ * of its call sites in `callSiteLines`. Once the token is cancelled, the callers found so far are returned.
+ */
+export async function getIncomingCalls(
+    document: vscode.TextDocument,
+    functionDefinition: FunctionDefinition,
+    maxDepth = 1,
+    maxCount = 10,
+    token?: vscode.CancellationToken,
+): Promise<FunctionDefinition[]> {
+    const position = functionDefinition.functionSymbol.selectionRange.start;
+    const items = await raceCancellation(getLanguageProvider().prepareCallHierarchy(document.uri, position), token, []);
+
+    const getKey = (defn: FunctionDefinition) => `${defn.functionName}-${defn.filename}-${defn.startLine}`;
+
+    const visited = new Set<string>([getKey(functionDefinition)]);
+    const callers: FunctionDefinition[] = [];
+    let frontier = items;
+
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0 && !token?.isCancellationRequested; depth++) {
+        const nextFrontier: vscode.CallHierarchyItem[] = [];
+
+        for (const item of frontier) {
+            const incomingCalls = await raceCancellation(getLanguageProvider().incomingCalls(item), token, []);
+
+            for (const call of incomingCalls) {
+                if (token?.isCancellationRequested) {
+                    return callers;
+                }
+                const caller = await getCallerDefinition(call, token);
+                if (!caller) {
+                    continue;
+                }
+
+                // Skip callers we've already seen so recursive calls don't expand forever
+                const key = getKey(caller);
+                if (visited.has(key)) {
+                    continue;
+                }
+                visited.add(key);
+
+                caller.depth = depth;
+                callers.push(caller);
+                if (callers.length >= maxCount) {
+                    return callers;
+                }
+
+                nextFrontier.push(call.from);
+            }
+        }
+
+        frontier = nextFrontier;
+    }
+
+    return callers;
+}
+
+async function getCallerDefinition(
+    call: vscode.CallHierarchyIncomingCall,
+    token?: vscode.CancellationToken
+): Promise<FunctionDefinition | undefined> {
+    const uri = call.from.uri;
+    if (!isInWorkspace(uri.fsPath) || isIgnoreLocation(uri.fsPath)) {
+        return undefined;
+    }
+
+    const doc = await getLanguageProvider().openTextDocument(uri);
+
+    // Prefer the symbol the call hierarchy points at, then whatever function encloses the first call site
+    const caller = await getFunctionDefinition(doc, call.from.range.start, false, false, false, token) ||
+        (call.fromRanges.length > 0
+            ? await getFunctionDefinition(doc, call.fromRanges[0].start, false, true, false, token)
+            : undefined);
+    if (!caller) {
+        return undefined;
+    }
+
+    caller.callSiteLines = Array.from(new Set(call.fromRanges.map(range => range.start.line)))
+        .filter(line => line >= caller.startLine && line <= caller.endLine)
+        .sort((a, b) => a - b);
+
+    return caller;
+}
@@ -0,0 +1,250 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+import { gatherContext } from './context';
+import { containsSecrets, isExcludedFile, redactionSummary } from './redaction';
+import { fitContextForLlm, renderContext } from './toString';
+import { FunctionDefinition, RaydocContext } from './types';
+
+const PARTICIPANT_ID = 'raydoc-context.raydoc';
+const TOOL_NAME = 'raydoc-context_getContext';
+
+// How many gathered contexts are kept for follow-up questions
+const MAX_CONTEXTS = 20;
+
+type ContextToolInput = {
+    file: string;
+    line: number;
+    endLine?: number;
+};
+
+type RaydocChatResult = vscode.ChatResult & {
+    metadata?: { contextId?: string };
+};
+
+// Contexts of earlier answers by id, oldest first, so follow-ups don't gather again
+const contexts = new Map<string, RaydocContext>();
+let nextContextId = 1;
+// Handed over by the Send Context command to the next @raydoc request
+let pendingContext: RaydocContext | undefined;
+
+/**
+ * Register the @raydoc chat participant and the context tool for agent mode, where the editor has them.
+ */
+export function initChat(extensionContext: vscode.ExtensionContext) {
+    if (!isChatAvailable()) {
+        return;
+    }
+
+    const participant = vscode.chat.createChatParticipant(PARTICIPANT_ID, handleChatRequest);
+    participant.iconPath = vscode.Uri.joinPath(extensionContext.extensionUri, 'icon.png');
+    extensionContext.subscriptions.push(participant);
+
+    if (typeof vscode.lm?.registerTool === 'function') {
+        extensionContext.subscriptions.push(vscode.lm.registerTool(TOOL_NAME, new RaydocContextTool()));
+    }
+}
+
+/**
+ * Chat participants need VS Code 1.90; Cursor and older versions don't have them.
+ */
+export function isChatAvailable(): boolean {
+    return typeof vscode.chat?.createChatParticipant === 'function';
+}
+
+/**
+ * Open the chat with @raydoc, which answers the user's next question with this context.
+ */
+export async function openContextInChat(context: RaydocContext) {
+    pendingContext = context;
+    await vscode.commands.executeCommand('workbench.action.chat.open', { query: '@raydoc ', isPartialQuery: true });
+}
+
+async function handleChatRequest(
+    request: vscode.ChatRequest,
+    chatContext: vscode.ChatContext,
+    stream: vscode.ChatResponseStream,
+    token: vscode.CancellationToken
+): Promise<RaydocChatResult> {
+    let context: RaydocContext | undefined;
+    try {
+        context = await getRequestContext(request, chatContext, stream);
+    } catch (err: unknown) {
+        if (err instanceof vscode.CancellationError) {
+            stream.markdown('Context gathering was cancelled.');
+            return {};
+        }
+        throw err;
+    }
+    if (!context) {
+        stream.markdown('Put the cursor in a function, select some code or reference a file with `#`, then ask again.');
+        return {};
+    }
+
+    const contextId = rememberContext(context);
+    const rendered = renderContext(context);
+
+    // Point at each definition the answer is based on; ones holding secrets stay out, like in the send flow
+    for (const defn of getDefinitions(fitContextForLlm(context).context)) {
+        if (!containsSecrets(defn.functionText)) {
+            stream.reference(new vscode.Location(defn.uri, new vscode.Range(defn.startLine, 0, defn.endLine, Number.MAX_SAFE_INTEGER)));
+        }
+    }
+
+    const question = request.prompt.trim();
+    if (!question || !request.model) {
+        const main = context.functionDefns?.map(defn => `\`${defn.functionName}\``).join(', ') || 'the selection';
+        stream.markdown(`Gathered the context of ${main} in \`${context.filepath}\`. Ask a question about it, e.g. \`@raydoc why does this fail?\``);
+        return { metadata: { contextId } };
+    }
+
+    const messages = [
+        vscode.LanguageModelChatMessage.User(rendered.text),
+        ...getHistoryMessages(chatContext),
+        vscode.LanguageModelChatMessage.User(question),
+    ];
+    const response = await request.model.sendRequest(messages, {}, token);
+    for await (const fragment of response.text) {
+        stream.markdown(fragment);
+    }
+    if (Object.keys(rendered.redactions).length > 0) {
+        stream.markdown(`\n\n*Raydoc:${redactionSummary(rendered.redactions)}*`);
+    }
+    return { metadata: { contextId } };
+}
+
+/**
+ * The context to answer with: the one sent by the Send Context command, the code referenced in the
+ * prompt, the context of the previous answer for a follow-up, or else the active editor's selection.
+ */
+async function getRequestContext(
+    request: vscode.ChatRequest,
+    chatContext: vscode.ChatContext,
+    stream: vscode.ChatResponseStream
+): Promise<RaydocContext | undefined> {
+    if (pendingContext) {
+        const context = pendingContext;
+        pendingContext = undefined;
+        return context;
+    }
+
+    for (const reference of request.references) {
+        const value = reference.value;
+        if (value instanceof vscode.Location || value instanceof vscode.Uri) {
+            const uri = value instanceof vscode.Uri ? value : value.uri;
+            const doc = await vscode.workspace.openTextDocument(uri);
+            // A whole #file is like selecting all of it, so every function in it is gathered
+            const range = value instanceof vscode.Location
+                ? value.range
+                : new vscode.Range(0, 0, doc.lineCount - 1, doc.lineAt(doc.lineCount - 1).text.length);
+            stream.progress(`Gathering the context of ${vscode.workspace.asRelativePath(uri)}…`);
+            return gatherContext(doc, new vscode.Selection(range.start, range.end));
+        }
+    }
+
+    for (const turn of [...chatContext.history].reverse()) {
+        if (turn instanceof vscode.ChatResponseTurn && turn.participant === PARTICIPANT_ID) {
+            const contextId = (turn.result as RaydocChatResult).metadata?.contextId;
+            const context = contextId ? contexts.get(contextId) : undefined;
+            if (context) {
+                return context;
+            }
+        }
+    }
+
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+        return undefined;
+    }
+    stream.progress('Gathering the context of the selection…');
+    return gatherContext(editor.document, editor.selection);
+}
+
+function rememberContext(context: RaydocContext): string {
+    const contextId = String(nextContextId++);
+    contexts.set(contextId, context);
+    if (contexts.size > MAX_CONTEXTS) {
+        contexts.delete(contexts.keys().next().value!);
+    }
+    return contextId;
+}
+
+// Earlier questions and answers to @raydoc, so follow-ups make sense to the model
+function getHistoryMessages(chatContext: vscode.ChatContext): vscode.LanguageModelChatMessage[] {
+    const messages: vscode.LanguageModelChatMessage[] = [];
+    for (const turn of chatContext.history) {
+        if (turn.participant !== PARTICIPANT_ID) {
+            continue;
+        }
+        if (turn instanceof vscode.ChatRequestTurn) {
+            messages.push(vscode.LanguageModelChatMessage.User(turn.prompt));
+        } else if (turn instanceof vscode.ChatResponseTurn) {
+            const text = turn.response
+                .map(part => part instanceof vscode.ChatResponseMarkdownPart ? part.value.value : '')
+                .join('');
+            if (text) {
+                messages.push(vscode.LanguageModelChatMessage.Assistant(text));
+            }
+        }
+    }
+    return messages;
+}
+
+function getDefinitions(context: RaydocContext): FunctionDefinition[] {
+    return [
+        ...context.functionDefns || [],
+        ...context.typeDefns || [],
+        ...context.referencedFunctions || [],
+        ...context.incomingCalls || [],
+        ...context.tests || [],
+    ];
+}
+
+/**
+ * Lets agent mode ask for the context of a file and line itself, as #raydocContext.
+ */
+class RaydocContextTool implements vscode.LanguageModelTool<ContextToolInput> {
+    prepareInvocation(options: vscode.LanguageModelToolInvocationPrepareOptions<ContextToolInput>): vscode.PreparedToolInvocation {
+        const { file, line, endLine } = options.input;
+        return { invocationMessage: `Gathering Raydoc context for ${file}:${line}${endLine && endLine !== line ? `-${endLine}` : ''}` };
+    }
+
+    async invoke(options: vscode.LanguageModelToolInvocationOptions<ContextToolInput>): Promise<vscode.LanguageModelToolResult> {
+        const { file, line, endLine = line } = options.input;
+        const doc = await openWorkspaceDocument(file);
+        if (!Number.isInteger(line) || line < 1 || endLine < line || endLine > doc.lineCount) {
+            throw new Error(`Lines must be between 1 and ${doc.lineCount}.`);
+        }
+
+        const selection = endLine === line
+            ? new vscode.Selection(line - 1, 0, line - 1, 0)
+            : new vscode.Selection(line - 1, 0, endLine - 1, doc.lineAt(endLine - 1).text.length);
+        const context = await gatherContext(doc, selection);
+        if (!context) {
+            throw new Error(`No function or type found at ${vscode.workspace.asRelativePath(doc.uri)}:${line}.`);
+        }
+        return new vscode.LanguageModelToolResult([new vscode.LanguageModelTextPart(renderContext(context).text)]);
+    }
+}
+
+// Tool input names files relative to a workspace folder, or absolute
+async function openWorkspaceDocument(file: string): Promise<vscode.TextDocument> {
+    const candidates = path.isAbsolute(file)
+        ? [vscode.Uri.file(file)]
+        : (vscode.workspace.workspaceFolders || []).map(folder => vscode.Uri.joinPath(folder.uri, file));
+
+    for (const uri of candidates) {
+        if (!vscode.workspace.getWorkspaceFolder(uri)) {
+            continue;
+        }
+        if (isExcludedFile(uri)) {
+            throw new Error(`${vscode.workspace.asRelativePath(uri)} matches raydoc-context.exclude-files, so no context is gathered from it.`);
+        }
+        try {
+            return await vscode.workspace.openTextDocument(uri);
+        } catch {
+            // Not in this folder, try the next one
+        }
+    }
+    throw new Error(`${file} is not a file in the workspace.`);
+}
@@ -0,0 +1,195 @@
+#!/usr/bin/env node
+import * as path from 'path';
+import * as fs from 'fs';
+
+import { createCliProvider, languageIdForFile, loadSettings, Selection, Uri } from './cliHost';
+import { gatherContext } from './context';
+import { startLspProvider } from './lspProvider';
+import { getLanguageProvider, LanguageFeatures, setLanguageProvider } from './provider';
+import { redactionSummary } from './redaction';
+import { renderContext } from './toString';
+import { createTypeScriptProvider } from './tsProvider';
+
+const USAGE = `Usage: raydoc-context <file>:<line>[:<column>] [options]
+       raydoc-context <file>:<start line>-<end line> [options]
+
+Prints the context Raydoc copies in VS Code for that position or range of lines.
+Lines and columns start at 1.
+
+Options:
+  --root <dir>         Workspace folder, defaults to the current directory
+  --lsp <command>      Language server to start over stdio, e.g. "pyright-langserver --stdio".
+                       Without it TypeScript and JavaScript use the TypeScript language service
+  --format <name>      text, markdown, xml or json (raydoc-context.output-config.format)
+  --set <key>=<value>  Override a raydoc-context setting, e.g. --set output-config.tests=true
+  --verbose            Report progress on stderr
+  -h, --help           Show this help
+
+Settings are read from <root>/.vscode/settings.json, like in the extension.`;
+
+const TYPESCRIPT_LANGUAGES = ['typescript', 'typescriptreact', 'javascript', 'javascriptreact'];
+
+type CliArguments = {
+    file: string;
+    startLine: number;
+    endLine: number;
+    character: number;
+    root: string;
+    lsp?: string;
+    settings: Record<string, unknown>;
+    verbose: boolean;
+};
+
+class UsageError extends Error { }
+
+function parseArguments(args: string[]): CliArguments | undefined {
+    let target: string | undefined;
+    let root = process.cwd();
+    let lsp: string | undefined;
+    let verbose = false;
+    const settings: Record<string, unknown> = {};
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        const value = () => {
+            if (i + 1 >= args.length) {
+                throw new UsageError(`${arg} needs a value`);
+            }
+            return args[++i];
+        };
+
+        if (arg === '-h' || arg === '--help') {
+            return undefined;
+        } else if (arg === '--root') {
+            root = path.resolve(value());
+        } else if (arg === '--lsp') {
+            lsp = value();
+        } else if (arg === '--format') {
+            settings['raydoc-context.output-config.format'] = value();
+        } else if (arg === '--set') {
+            const setting = value();
+            const equals = setting.indexOf('=');
+            if (equals <= 0) {
+                throw new UsageError(`--set expects <key>=<value>, got "${setting}"`);
+            }
+            const key = setting.slice(0, equals).replace(/^raydoc-context\./, '');
+            settings[`raydoc-context.${key}`] = parseSettingValue(setting.slice(equals + 1));
+        } else if (arg === '--verbose') {
+            verbose = true;
+        } else if (arg.startsWith('-')) {
+            throw new UsageError(`Unknown option ${arg}`);
+        } else if (target) {
+            throw new UsageError(`Only one <file>:<line> can be given, got "${target}" and "${arg}"`);
+        } else {
+            target = arg;
+        }
+    }
+
+    if (!target) {
+        return undefined;
+    }
+    const match = target.match(/^(.+?):(\d+)(?:-(\d+)|:(\d+))?$/);
+    if (!match) {
+        throw new UsageError(`Expected <file>:<line>, got "${target}"`);
+    }
+    const startLine = Number(match[2]);
+    const endLine = match[3] ? Number(match[3]) : startLine;
+    if (startLine < 1 || endLine < startLine) {
+        throw new UsageError(`Invalid lines in "${target}"`);
+    }
+
+    return {
+        file: path.resolve(match[1]),
+        startLine: startLine - 1,
+        endLine: endLine - 1,
+        character: match[4] ? Math.max(Number(match[4]) - 1, 0) : 0,
+        root,
+        lsp,
+        settings,
+        verbose,
+    };
+}
+
+// Settings take JSON values (true, 3, ["a"]), anything else is a string
+function parseSettingValue(value: string): unknown {
+    try {
+        return JSON.parse(value);
+    } catch {
+        return value;
+    }
+}
+
+async function main(): Promise<number> {
+    let args: CliArguments | undefined;
+    try {
+        args = parseArguments(process.argv.slice(2));
+    } catch (err) {
+        if (err instanceof UsageError) {
+            console.error(`${err.message}\n\n${USAGE}`);
+            return 2;
+        }
+        throw err;
+    }
+    if (!args) {
+        console.log(USAGE);
+        return 0;
+    }
+    if (!fs.existsSync(args.file)) {
+        console.error(`${args.file} doesn't exist`);
+        return 2;
+    }
+
+    let features: LanguageFeatures;
+    let dispose: (() => Promise<void>) | undefined;
+    if (args.lsp) {
+        const lspProvider = await startLspProvider(args.lsp, args.root);
+        features = lspProvider;
+        dispose = lspProvider.dispose;
+    } else if (TYPESCRIPT_LANGUAGES.includes(languageIdForFile(args.file))) {
+        features = createTypeScriptProvider(args.root, args.file);
+    } else {
+        console.error(`No built-in language support for ${path.basename(args.file)}, start a language server with --lsp <command>.`);
+        return 2;
+    }
+
+    setLanguageProvider(createCliProvider({
+        rootPath: args.root,
+        settings: { ...loadSettings(args.root), ...args.settings },
+        verbose: args.verbose,
+    }, features));
+
+    try {
+        const doc = await getLanguageProvider().openTextDocument(Uri.file(args.file));
+        if (args.endLine >= doc.lineCount) {
+            console.error(`${path.basename(args.file)} has ${doc.lineCount} lines`);
+            return 2;
+        }
+        const selection = args.endLine > args.startLine
+            ? new Selection(args.startLine, 0, args.endLine, doc.lineAt(args.endLine).text.length)
+            : new Selection(args.startLine, args.character, args.startLine, args.character);
+
+        const context = await gatherContext(doc, selection);
+        if (!context) {
+            console.error('No context found for that position.');
+            return 1;
+        }
+
+        const rendered = renderContext(context);
+        process.stdout.write(rendered.text.endsWith('\n') ? rendered.text : `${rendered.text}\n`);
+        const summary = redactionSummary(rendered.redactions);
+        if (summary) {
+            console.error(`raydoc-context:${summary}`);
+        }
+        return 0;
+    } finally {
+        await dispose?.();
+    }
+}
+
+main().then(
+    code => process.exit(code),
+    err => {
+        console.error(`raydoc-context: ${err instanceof Error ? err.message : String(err)}`);
+        process.exit(1);
+    }
+);
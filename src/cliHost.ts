@@ -0,0 +1,560 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type * as vscode from 'vscode';
+
+import { globToRegExp } from './globs';
+import { Configuration, LanguageFeatures, LanguageProvider } from './provider';
+
+/**
+ * The vscode classes and enums that context gathering uses, implemented on Node for the CLI.
+ * Each one implements the vscode type it stands in for, so tsc checks that nothing gathering
+ * relies on is missing; createCliProvider() hands them over as the provider's types.
+ */
+
+export enum SymbolKind {
+    File, Module, Namespace, Package, Class, Method, Property, Field, Constructor, Enum, Interface,
+    Function, Variable, Constant, String, Number, Boolean, Array, Object, Key, Null, EnumMember,
+    Struct, Event, Operator, TypeParameter,
+}
+
+export enum DiagnosticSeverity {
+    Error, Warning, Information, Hint,
+}
+
+export enum EndOfLine {
+    LF = 1, CRLF = 2,
+}
+
+export class Position implements vscode.Position {
+    constructor(readonly line: number, readonly character: number) { }
+
+    compareTo(other: vscode.Position): number {
+        return this.line - other.line || this.character - other.character;
+    }
+
+    isBefore(other: vscode.Position): boolean {
+        return this.compareTo(other) < 0;
+    }
+
+    isBeforeOrEqual(other: vscode.Position): boolean {
+        return this.compareTo(other) <= 0;
+    }
+
+    isAfter(other: vscode.Position): boolean {
+        return this.compareTo(other) > 0;
+    }
+
+    isAfterOrEqual(other: vscode.Position): boolean {
+        return this.compareTo(other) >= 0;
+    }
+
+    isEqual(other: vscode.Position): boolean {
+        return this.compareTo(other) === 0;
+    }
+
+    translate(lineDelta?: number, characterDelta?: number): Position;
+    translate(change: { lineDelta?: number, characterDelta?: number }): Position;
+    translate(lineDeltaOrChange?: number | { lineDelta?: number, characterDelta?: number }, characterDelta = 0): Position {
+        const change = typeof lineDeltaOrChange === 'object' ? lineDeltaOrChange : { lineDelta: lineDeltaOrChange, characterDelta };
+        return new Position(this.line + (change.lineDelta ?? 0), this.character + (change.characterDelta ?? 0));
+    }
+
+    with(line?: number, character?: number): Position;
+    with(change: { line?: number, character?: number }): Position;
+    with(lineOrChange?: number | { line?: number, character?: number }, character?: number): Position {
+        const change = typeof lineOrChange === 'object' ? lineOrChange : { line: lineOrChange, character };
+        return new Position(change.line ?? this.line, change.character ?? this.character);
+    }
+}
+
+export class Range implements vscode.Range {
+    readonly start: Position;
+    readonly end: Position;
+
+    constructor(start: vscode.Position, end: vscode.Position);
+    constructor(startLine: number, startCharacter: number, endLine: number, endCharacter: number);
+    constructor(start: vscode.Position | number, end: vscode.Position | number, endLine?: number, endCharacter?: number) {
+        const [a, b] = typeof start === 'number'
+            ? [new Position(start, end as number), new Position(endLine!, endCharacter!)]
+            : [toPosition(start), toPosition(end as vscode.Position)];
+        [this.start, this.end] = a.isAfter(b) ? [b, a] : [a, b];
+    }
+
+    get isEmpty(): boolean {
+        return this.start.isEqual(this.end);
+    }
+
+    get isSingleLine(): boolean {
+        return this.start.line === this.end.line;
+    }
+
+    contains(positionOrRange: vscode.Position | vscode.Range): boolean {
+        if ('start' in positionOrRange) {
+            return this.contains(positionOrRange.start) && this.contains(positionOrRange.end);
+        }
+        return this.start.isBeforeOrEqual(positionOrRange) && this.end.isAfterOrEqual(positionOrRange);
+    }
+
+    intersection(other: vscode.Range): Range | undefined {
+        const start = this.start.isAfter(other.start) ? this.start : other.start;
+        const end = this.end.isBefore(other.end) ? this.end : other.end;
+        return start.isAfter(end) ? undefined : new Range(start, end);
+    }
+
+    union(other: vscode.Range): Range {
+        return new Range(
+            this.start.isBefore(other.start) ? this.start : other.start,
+            this.end.isAfter(other.end) ? this.end : other.end
+        );
+    }
+
+    isEqual(other: vscode.Range): boolean {
+        return this.start.isEqual(other.start) && this.end.isEqual(other.end);
+    }
+
+    with(start?: vscode.Position, end?: vscode.Position): Range;
+    with(change: { start?: vscode.Position, end?: vscode.Position }): Range;
+    with(startOrChange?: vscode.Position | { start?: vscode.Position, end?: vscode.Position }, end?: vscode.Position): Range {
+        const change = startOrChange && !('line' in startOrChange) ? startOrChange : { start: startOrChange, end };
+        return new Range(change.start ?? this.start, change.end ?? this.end);
+    }
+}
+
+// Positions of another implementation, e.g. in a change passed to `with`
+function toPosition(position: vscode.Position): Position {
+    return position instanceof Position ? position : new Position(position.line, position.character);
+}
+
+export class Selection extends Range implements vscode.Selection {
+    readonly anchor: Position;
+    readonly active: Position;
+
+    constructor(anchor: vscode.Position, active: vscode.Position);
+    constructor(anchorLine: number, anchorCharacter: number, activeLine: number, activeCharacter: number);
+    constructor(anchor: vscode.Position | number, active: vscode.Position | number, activeLine?: number, activeCharacter?: number) {
+        const [a, b] = typeof anchor === 'number'
+            ? [new Position(anchor, active as number), new Position(activeLine!, activeCharacter!)]
+            : [toPosition(anchor), toPosition(active as vscode.Position)];
+        super(a, b);
+        this.anchor = a;
+        this.active = b;
+    }
+
+    get isReversed(): boolean {
+        return this.anchor.isAfter(this.active);
+    }
+}
+
+// Only file URIs: the CLI reads everything from disk
+export class Uri implements vscode.Uri {
+    readonly scheme = 'file';
+    readonly authority = '';
+    readonly query = '';
+    readonly fragment = '';
+
+    private constructor(readonly fsPath: string) { }
+
+    static file(fsPath: string): Uri {
+        return new Uri(path.resolve(fsPath));
+    }
+
+    static parse(value: string): Uri {
+        return value.startsWith('file://') ? Uri.fromPath(decodeURIComponent(value.slice('file://'.length))) : Uri.file(value);
+    }
+
+    static joinPath(base: vscode.Uri, ...pathSegments: string[]): Uri {
+        return Uri.file(path.join(base.fsPath, ...pathSegments));
+    }
+
+    static from(components: { readonly scheme: string, readonly path?: string }): Uri {
+        return Uri.fromPath(components.path || '/');
+    }
+
+    // From the path of a URI, e.g. "/c:/src" on Windows
+    private static fromPath(uriPath: string): Uri {
+        return Uri.file(process.platform === 'win32' ? uriPath.replace(/^\/([A-Za-z]:)/, '$1') : uriPath);
+    }
+
+    get path(): string {
+        return this.fsPath.split(path.sep).join('/');
+    }
+
+    with(change: { path?: string }): Uri {
+        return change.path === undefined ? this : Uri.fromPath(change.path);
+    }
+
+    toString(): string {
+        return `file://${encodeURI(this.path)}`;
+    }
+
+    toJSON() {
+        return { scheme: this.scheme, path: this.path, fsPath: this.fsPath };
+    }
+}
+
+export class Location implements vscode.Location {
+    readonly range: Range;
+
+    constructor(readonly uri: vscode.Uri, rangeOrPosition: vscode.Range | vscode.Position) {
+        this.range = 'start' in rangeOrPosition
+            ? new Range(rangeOrPosition.start, rangeOrPosition.end)
+            : new Range(rangeOrPosition, rangeOrPosition);
+    }
+}
+
+export class Diagnostic implements vscode.Diagnostic {
+    source?: string;
+    code?: string | number;
+    relatedInformation?: vscode.DiagnosticRelatedInformation[];
+
+    constructor(public range: vscode.Range, public message: string, public severity = DiagnosticSeverity.Error) { }
+}
+
+export class DiagnosticRelatedInformation implements vscode.DiagnosticRelatedInformation {
+    constructor(public location: vscode.Location, public message: string) { }
+}
+
+export class DocumentSymbol implements vscode.DocumentSymbol {
+    children: vscode.DocumentSymbol[] = [];
+
+    constructor(
+        public name: string,
+        public detail: string,
+        public kind: SymbolKind,
+        public range: vscode.Range,
+        public selectionRange: vscode.Range,
+    ) { }
+}
+
+export class CallHierarchyItem implements vscode.CallHierarchyItem {
+    detail?: string;
+
+    constructor(
+        public kind: SymbolKind,
+        public name: string,
+        detail: string,
+        public uri: vscode.Uri,
+        public range: vscode.Range,
+        public selectionRange: vscode.Range,
+    ) {
+        this.detail = detail;
+    }
+}
+
+export class CallHierarchyIncomingCall implements vscode.CallHierarchyIncomingCall {
+    constructor(public from: vscode.CallHierarchyItem, public fromRanges: vscode.Range[]) { }
+}
+
+export class CancellationError extends Error implements vscode.CancellationError {
+    constructor() {
+        super('Canceled');
+        this.name = 'Canceled';
+    }
+}
+
+export class CancellationTokenSource implements vscode.CancellationTokenSource {
+    private listeners = new Set<(e: unknown) => unknown>();
+    private cancelled = false;
+
+    readonly token: vscode.CancellationToken;
+
+    constructor() {
+        const source = this;
+        this.token = {
+            get isCancellationRequested() {
+                return source.cancelled;
+            },
+            onCancellationRequested(listener) {
+                source.listeners.add(listener);
+                return { dispose: () => source.listeners.delete(listener) };
+            },
+        };
+    }
+
+    cancel() {
+        if (this.cancelled) {
+            return;
+        }
+        this.cancelled = true;
+        for (const listener of [...this.listeners]) {
+            listener(undefined);
+        }
+    }
+
+    dispose() {
+        this.listeners.clear();
+    }
+}
+
+const LANGUAGE_IDS: Record<string, string> = {
+    '.ts': 'typescript', '.mts': 'typescript', '.cts': 'typescript', '.tsx': 'typescriptreact',
+    '.js': 'javascript', '.mjs': 'javascript', '.cjs': 'javascript', '.jsx': 'javascriptreact',
+    '.py': 'python', '.go': 'go', '.rs': 'rust', '.java': 'java', '.kt': 'kotlin', '.kts': 'kotlin',
+    '.rb': 'ruby', '.php': 'php', '.cs': 'csharp', '.c': 'c', '.h': 'cpp', '.hpp': 'cpp',
+    '.cc': 'cpp', '.cpp': 'cpp', '.cxx': 'cpp', '.json': 'json',
+};
+
+export function languageIdForFile(fsPath: string): string {
+    return LANGUAGE_IDS[path.extname(fsPath).toLowerCase()] || 'plaintext';
+}
+
+class TextDocument implements vscode.TextDocument {
+    readonly fileName: string;
+    readonly languageId: string;
+    readonly version = 1;
+    readonly isDirty = false;
+    readonly isUntitled = false;
+    readonly isClosed = false;
+    readonly eol: EndOfLine;
+    private readonly lines: string[];
+
+    constructor(readonly uri: Uri, private readonly content: string) {
+        this.fileName = uri.fsPath;
+        this.languageId = languageIdForFile(uri.fsPath);
+        this.eol = content.includes('\r\n') ? EndOfLine.CRLF : EndOfLine.LF;
+        this.lines = content.split(/\r?\n/);
+    }
+
+    get lineCount(): number {
+        return this.lines.length;
+    }
+
+    async save(): Promise<boolean> {
+        return false;
+    }
+
+    lineAt(lineOrPosition: number | vscode.Position): vscode.TextLine {
+        const lineNumber = typeof lineOrPosition === 'number' ? lineOrPosition : lineOrPosition.line;
+        if (lineNumber < 0 || lineNumber >= this.lines.length) {
+            throw new Error(`Illegal value for line: ${lineNumber}`);
+        }
+        const text = this.lines[lineNumber];
+        const firstNonWhitespace = text.search(/\S/);
+        return {
+            lineNumber,
+            text,
+            range: new Range(lineNumber, 0, lineNumber, text.length),
+            rangeIncludingLineBreak: lineNumber < this.lines.length - 1
+                ? new Range(lineNumber, 0, lineNumber + 1, 0)
+                : new Range(lineNumber, 0, lineNumber, text.length),
+            firstNonWhitespaceCharacterIndex: firstNonWhitespace === -1 ? text.length : firstNonWhitespace,
+            isEmptyOrWhitespace: firstNonWhitespace === -1,
+        };
+    }
+
+    offsetAt(position: vscode.Position): number {
+        const { line, character } = this.validatePosition(position);
+        let offset = 0;
+        for (let i = 0; i < line; i++) {
+            // Line breaks may be \r\n, so measure them in the content
+            offset += this.lines[i].length;
+            offset += this.content[offset] === '\r' ? 2 : 1;
+        }
+        return offset + character;
+    }
+
+    positionAt(offset: number): Position {
+        const before = this.content.slice(0, Math.max(offset, 0)).split(/\r?\n/);
+        return new Position(before.length - 1, before[before.length - 1].length);
+    }
+
+    getText(range?: vscode.Range): string {
+        if (!range) {
+            return this.content;
+        }
+        return this.content.slice(this.offsetAt(range.start), this.offsetAt(range.end));
+    }
+
+    getWordRangeAtPosition(position: vscode.Position, regex = /[\w$]+/g): Range | undefined {
+        const { line, character } = this.validatePosition(position);
+        const wordRegExp = new RegExp(regex.source, regex.flags.includes('g') ? regex.flags : `${regex.flags}g`);
+        for (const match of this.lines[line].matchAll(wordRegExp)) {
+            if (match.index <= character && character <= match.index + match[0].length) {
+                return new Range(line, match.index, line, match.index + match[0].length);
+            }
+        }
+        return undefined;
+    }
+
+    validateRange(range: vscode.Range): Range {
+        return new Range(this.validatePosition(range.start), this.validatePosition(range.end));
+    }
+
+    validatePosition(position: vscode.Position): Position {
+        const line = Math.min(Math.max(position.line, 0), this.lines.length - 1);
+        return new Position(line, Math.min(Math.max(position.character, 0), this.lines[line].length));
+    }
+}
+
+export type HostOptions = {
+    rootPath: string;
+    settings: Record<string, unknown>;
+    // Report progress on stderr, not just warnings and errors
+    verbose: boolean;
+};
+
+/**
+ * The defaults contributed by the extension's package.json, overridden by the workspace's
+ * .vscode/settings.json, so the CLI gathers what the extension would in that workspace.
+ */
+export function loadSettings(rootPath: string): Record<string, unknown> {
+    const settings: Record<string, unknown> = {};
+
+    const packageJson = JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'package.json'), 'utf8'));
+    const properties: Record<string, { default?: unknown }> = packageJson.contributes?.configuration?.properties || {};
+    for (const [key, property] of Object.entries(properties)) {
+        if (property.default !== undefined) {
+            settings[key] = property.default;
+        }
+    }
+
+    try {
+        const workspaceSettings = JSON.parse(stripJsonComments(fs.readFileSync(path.join(rootPath, '.vscode', 'settings.json'), 'utf8')));
+        for (const [key, value] of Object.entries(workspaceSettings)) {
+            if (key.startsWith('raydoc-context.')) {
+                settings[key] = value;
+            }
+        }
+    } catch {
+        // No workspace settings, or not parseable
+    }
+    return settings;
+}
+
+// settings.json is JSONC: drop comments and trailing commas outside of strings
+function stripJsonComments(text: string): string {
+    let result = '';
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (char === '"') {
+            const start = i;
+            for (i++; i < text.length && text[i] !== '"'; i++) {
+                if (text[i] === '\\') {
+                    i++;
+                }
+            }
+            result += text.slice(start, i + 1);
+        } else if (char === '/' && text[i + 1] === '/') {
+            while (i < text.length && text[i] !== '\n') {
+                i++;
+            }
+            result += '\n';
+        } else if (char === '/' && text[i + 1] === '*') {
+            const end = text.indexOf('*/', i + 2);
+            i = end === -1 ? text.length : end + 1;
+        } else {
+            result += char;
+        }
+    }
+    return result.replace(/,(\s*[}\]])/g, '$1');
+}
+
+// stdout only carries the context
+function log(message: string) {
+    console.error(`raydoc-context: ${message}`);
+}
+
+// Without a language service or server, e.g. in tests of settings and paths
+const NO_LANGUAGE_FEATURES: LanguageFeatures = {
+    documentSymbols: async () => undefined,
+    definitions: async () => [],
+    references: async () => [],
+    prepareCallHierarchy: async () => [],
+    incomingCalls: async () => [],
+    diagnostics: async () => [],
+    workspaceSymbols: async () => [],
+};
+
+/**
+ * The host for gathering context from the command line: the root directory is the one workspace
+ * folder, documents are read from disk, and progress goes to stderr. There are no other extensions,
+ * e.g. git or Python, so callers fall back to the command line.
+ */
+export function createCliProvider(options: HostOptions, features: LanguageFeatures = NO_LANGUAGE_FEATURES): LanguageProvider {
+    const documents = new Map<string, TextDocument>();
+    // The one workspace folder; callers compare folders by identity
+    const rootFolder: vscode.WorkspaceFolder = { uri: Uri.file(options.rootPath), name: path.basename(options.rootPath), index: 0 };
+
+    const relativeToRoot = (fsPath: string): string | undefined => {
+        const relative = path.relative(options.rootPath, fsPath);
+        return relative.startsWith('..') || path.isAbsolute(relative) ? undefined : relative.split(path.sep).join('/');
+    };
+
+    return {
+        ...features,
+        types: { Position, Range, Selection, Location, Uri, SymbolKind, DiagnosticSeverity, CancellationTokenSource, CancellationError },
+
+        workspaceFolders: () => [rootFolder],
+        workspaceName: () => rootFolder.name,
+        getWorkspaceFolder: uri => relativeToRoot(uri.fsPath) === undefined ? undefined : rootFolder,
+        asRelativePath: pathOrUri => {
+            const fsPath = typeof pathOrUri === 'string' ? pathOrUri : pathOrUri.fsPath;
+            return relativeToRoot(fsPath) ?? fsPath;
+        },
+
+        getConfiguration: (section: string): Configuration => ({
+            get: <T>(key: string, defaultValue?: T): T | undefined => {
+                const value = options.settings[`${section}.${key}`];
+                return value === undefined ? defaultValue : value as T;
+            },
+        }),
+
+        openTextDocument: async uri => {
+            let doc = documents.get(uri.fsPath);
+            if (!doc) {
+                doc = new TextDocument(Uri.file(uri.fsPath), await fs.promises.readFile(uri.fsPath, 'utf8'));
+                documents.set(uri.fsPath, doc);
+            }
+            return doc;
+        },
+
+        findFiles: async (folder, include, exclude, maxResults, token) => {
+            const base = folder.uri.fsPath;
+            const includeRegExp = globToRegExp(include);
+            // globToRegExp only takes plain alternatives in braces, so split "{**/a/**,**/b}" up front
+            const excludeRegExps = exclude.replace(/^\{(.*)\}$/, '$1').split(',').filter(glob => glob).map(globToRegExp);
+
+            const results: vscode.Uri[] = [];
+            const walk = async (dir: string) => {
+                let entries: fs.Dirent[];
+                try {
+                    entries = await fs.promises.readdir(dir, { withFileTypes: true });
+                } catch {
+                    return;
+                }
+                for (const entry of entries) {
+                    if (results.length >= maxResults || token?.isCancellationRequested) {
+                        return;
+                    }
+                    const fullPath = path.join(dir, entry.name);
+                    const relative = path.relative(base, fullPath).split(path.sep).join('/');
+                    // Like files.exclude, skip the directories VS Code hides by default
+                    if (entry.name === '.git' || excludeRegExps.some(regExp => regExp.test(relative) || regExp.test(`${relative}/`))) {
+                        continue;
+                    }
+                    if (entry.isDirectory()) {
+                        await walk(fullPath);
+                    } else if (includeRegExp.test(relative)) {
+                        results.push(Uri.file(fullPath));
+                    }
+                }
+            };
+            await walk(base);
+            return results;
+        },
+
+        withProgress: async (_title, task) => {
+            // Nothing to cancel from the terminal except the process itself
+            const source = new CancellationTokenSource();
+            try {
+                const report = (value: { message?: string }) => options.verbose && value.message && log(value.message);
+                return await task({ report }, source.token);
+            } finally {
+                source.dispose();
+            }
+        },
+        showWarningMessage: message => log(`Warning: ${message}`),
+        showErrorMessage: message => log(`Error: ${message}`),
+        getExtension: () => undefined,
+    };
+}
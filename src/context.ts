@@ -1,51 +1,123 @@
-import * as vscode from 'vscode';
+import type * as vscode from 'vscode';
 import * as path from 'path';
 import * as cp from 'child_process';
 import * as util from 'util';
 
-import { getPackageDependencies } from './packages';
+import { filterToImportedDependencies, findPackageDir, getPackageDependencies } from './packages';
 import { generateFileTree } from './fileTree';
-import { getReferencesForFunction } from './getReferences';
+import { getTransitiveReferences } from './getReferences';
+import { getIncomingCalls } from './callHierarchy';
+import { getTestsForFunction } from './tests';
+import { getGitHistory } from './git';
+import { getDiagnosticsInScope } from './diagnostics';
+import { isExcludedFile } from './redaction';
 import { getFunctionDefinition } from './functions';
-import { RaydocContext, FunctionDefinition } from './types';
+import { GatherProgress, withGatherProgress } from './progress';
+import { summarizeDefinition } from './signatures';
+import { RaydocContext, FunctionDefinition, PackageManifest, DetailLevel } from './types';
+import { getLanguageProvider } from './provider';
 
 export async function gatherContext(
     doc: vscode.TextDocument,
-    selection: vscode.Selection,
-    diag?: vscode.Diagnostic
+    selection: vscode.Selection
 ): Promise<RaydocContext | undefined> {
-    // 1) Which file are we in?
-    const filepath = getFilePath(doc);
-
-    // 2) Gather all main function definitions within this selection
-    const functionDefns = await getFunctionsInSelection(doc, selection);
-    if (functionDefns.length === 0) {
+    // Never read files the user excluded, e.g. .env files or secrets/
+    if (isExcludedFile(doc.uri)) {
+        getLanguageProvider().showWarningMessage(`Raydoc: ${getLanguageProvider().asRelativePath(doc.uri)} matches raydoc-context.exclude-files, so no context is gathered from it.`);
         return undefined;
     }
 
+    return withGatherProgress(async (progress, token) => {
+        // 1) Gather all main function definitions within this selection
+        progress.report({ message: 'Finding symbols…' });
+        const functionDefns = await getFunctionsInSelection(doc, selection, token);
+        if (functionDefns.length === 0) {
+            return undefined;
+        }
+
+        return gatherContextForFunctions(doc, selection, functionDefns, progress, token);
+    });
+}
+
+/**
+ * Build the context around the given main functions, which can come from several files
+ * (e.g. the frames of a stack trace). The document and selection are the focus of the context.
+ * Once the token is cancelled the remaining lookups are skipped, leaving what was gathered so far.
+ */
+export async function gatherContextForFunctions(
+    doc: vscode.TextDocument,
+    selection: vscode.Selection,
+    functionDefns: FunctionDefinition[],
+    progress?: GatherProgress,
+    token?: vscode.CancellationToken
+): Promise<RaydocContext> {
+    // 2) Which file are we in?
+    const filepath = getFilePath(doc);
+
     // 3) Deduplicate references across all main functions
     const typeDefnMap = new Map<string, FunctionDefinition>();
     const refFnMap = new Map<string, FunctionDefinition>();
     const usedFiles = new Set<string>();
-    usedFiles.add(filepath);
+    usedFiles.add(doc.uri.fsPath);
+
+    const config = getLanguageProvider().getConfiguration('raydoc-context');
+    const referenceDepth = Math.max(1, config.get<number>('reference-depth', 1));
+    const maxReferences = Math.max(1, config.get<number>('max-references', 50));
+    const includeIncomingCalls = config.get<boolean>('output-config.incoming-calls', false);
+    const incomingCallsDepth = Math.max(1, config.get<number>('incoming-calls-depth', 1));
+    const maxIncomingCalls = Math.max(1, config.get<number>('max-incoming-calls', 10));
+    const incomingCallMap = new Map<string, FunctionDefinition>();
+    const includeTests = config.get<boolean>('output-config.tests', false);
+    const maxTests = Math.max(1, config.get<number>('max-tests', 5));
+    const testMap = new Map<string, FunctionDefinition>();
+
+    // Keep the closest hop when the same definition is reached from several main functions
+    const addReference = (map: Map<string, FunctionDefinition>, defn: FunctionDefinition) => {
+        if (isExcludedFile(defn.uri)) {
+            return;
+        }
+        const key = `${defn.functionName}:${defn.filename}`;
+        const existing = map.get(key);
+        if (!existing || (defn.depth ?? 1) < (existing.depth ?? 1)) {
+            map.set(key, defn);
+        }
+        usedFiles.add(defn.uri.fsPath);
+    };
 
     // For each main function found, gather references & type definitions
     for (const fn of functionDefns) {
         // Mark that we use that function’s file
-        usedFiles.add(fn.filename);
+        usedFiles.add(fn.uri.fsPath);
+        if (token?.isCancellationRequested) {
+            continue;
+        }
+        const fnDoc = fn.uri.toString() === doc.uri.toString() ? doc : await getLanguageProvider().openTextDocument(fn.uri);
 
-        // “true” in getReferencesForFunction means get type defs?
-        // or you might have separate calls. Adjust to match your logic.
-        const typeDefs = await getReferencesForFunction(doc, fn, true);
-        for (const t of typeDefs) {
-            typeDefnMap.set(`${t.functionName}:${t.filename}`, t);
-            usedFiles.add(t.filename);
+        // One pass over the function finds both the types and the functions it references
+        progress?.report({ message: `Finding references of ${fn.functionName}…` });
+        const references = await getTransitiveReferences(fnDoc, fn, referenceDepth, maxReferences, token);
+        for (const t of references.typeDefns) {
+            addReference(typeDefnMap, t);
+        }
+        for (const r of references.referencedFunctions) {
+            addReference(refFnMap, r);
+        }
+
+        // Only ask the call hierarchy provider when callers will actually be shown
+        if (includeIncomingCalls && !token?.isCancellationRequested) {
+            progress?.report({ message: `Finding callers of ${fn.functionName}…` });
+            const callers = await getIncomingCalls(fnDoc, fn, incomingCallsDepth, maxIncomingCalls, token);
+            for (const c of callers) {
+                addReference(incomingCallMap, c);
+            }
         }
 
-        const refFns = await getReferencesForFunction(doc, fn, false);
-        for (const r of refFns) {
-            refFnMap.set(`${r.functionName}:${r.filename}`, r);
-            usedFiles.add(r.filename);
+        // Likewise, only look for tests when they will be shown
+        if (includeTests && !token?.isCancellationRequested) {
+            progress?.report({ message: `Finding tests of ${fn.functionName}…` });
+            for (const t of await getTestsForFunction(fnDoc, fn, maxTests, token)) {
+                addReference(testMap, t);
+            }
         }
     }
 
@@ -59,57 +131,162 @@ export async function gatherContext(
         }
     }
 
-    // 5) Build the immediate context lines from selection +/- 3 lines
+    // 5) Rank the type definitions and referenced functions so the output can fill a token budget,
+    //    and list them closest hop first
+    const byDepth = (a: FunctionDefinition, b: FunctionDefinition) => (a.depth ?? 1) - (b.depth ?? 1);
+    const rankedTypeDefns = Array.from(typeDefnMap.values()).sort(byDepth);
+    const rankedReferencedFunctions = Array.from(refFnMap.values()).sort(byDepth);
+    const rankedIncomingCalls = Array.from(incomingCallMap.values()).sort(byDepth);
+    const rankedTests = Array.from(testMap.values()).slice(0, maxTests);
+    rankByRelevance([...rankedTypeDefns, ...rankedReferencedFunctions, ...rankedIncomingCalls, ...rankedTests], functionDefns, selection);
+
+    //    Cut each section down to its detail level; the main functions always stay in full
+    const withDetailLevel = (defns: FunctionDefinition[], section: string) => {
+        const level = config.get<DetailLevel>(`detail-level.${section}`, 'full');
+        return Promise.all(defns.map(defn => summarizeDefinition(defn, level)));
+    };
+    const typeDefns = await withDetailLevel(rankedTypeDefns, 'type-definitions');
+    const referencedFunctions = await withDetailLevel(rankedReferencedFunctions, 'referenced-functions');
+    const incomingCalls = await withDetailLevel(rankedIncomingCalls, 'incoming-calls');
+    const tests = await withDetailLevel(rankedTests, 'tests');
+
+    // 6) Build the immediate context lines from selection +/- 3 lines
     const immediateContextLines = buildImmediateContextLines(doc, selection);
 
-    // 6) Build the file tree for all used files
-    const fileTree = await generateFileTree(usedFiles);
+    // 7) Build the file tree for all used files
+    progress?.report({ message: 'Building the file tree…' });
+    const fileTree = await generateFileTree(usedFiles, token);
+
+    // 8) Gather the packages the used files belong to
+    progress?.report({ message: 'Reading packages…' });
+    const packages = await getPackagesForFiles(doc, usedFiles, token);
+
+    // 9) Gather the recent history of the main functions, if it will be shown
+    const git = config.get<boolean>('output-config.git-history', false) && !token?.isCancellationRequested
+        ? await getGitHistory(doc, functionDefns, selection, Math.max(1, config.get<number>('git-history-commits', 5)), token)
+        : undefined;
+
+    // 10) Gather the diagnostics inside the main functions, and the referenced functions if enabled
+    const diagnosticScope = config.get<boolean>('referenced-function-diagnostics', false)
+        ? [...functionDefns, ...referencedFunctions]
+        : functionDefns;
+    const diagnostics = await getDiagnosticsInScope(diagnosticScope, selection, doc.uri, token);
 
-    // 7) Finally, create one RaydocContext
+    // 11) Finally, create one RaydocContext
     const context: RaydocContext = {
         filepath,
         // A single line can be the first main function’s start line (or selection.start.line)
         line: selection.start.line,
-        errorMessage: diag?.message,
+        diagnostics,
         languageId: doc.languageId,
         runtime: process.version,
-        runtimeVersion: await getLanguageVersion(doc.languageId),
+        runtimeVersion: await getLanguageVersion(doc.languageId, getLanguageProvider().getWorkspaceFolder(doc.uri)),
         runtimePath: '',
-        packages: getPackageDependencies(doc.languageId),
+        workspaceFolder: getWorkspaceFolderLabel(doc),
+        packages,
         functionDefns,
-        typeDefns: Array.from(typeDefnMap.values()),
-        referencedFunctions: Array.from(refFnMap.values()),
+        typeDefns,
+        referencedFunctions,
+        incomingCalls,
+        tests,
         immediateContextLines,
-        fileTree
+        fileTree,
+        git
     };
 
     return context;
 }
 
+/**
+ * Path of the document relative to the workspace folder that owns it. In a multi-root
+ * workspace the path is prefixed with the folder name, like the function definitions.
+ */
 function getFilePath(doc: vscode.TextDocument): string {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders || workspaceFolders.length === 0) {
+    const folder = getLanguageProvider().getWorkspaceFolder(doc.uri);
+    if (!folder) {
         return doc.uri.fsPath; // fallback
     }
-    const projectRoot = workspaceFolders[0].uri.fsPath;
-    return path.relative(projectRoot, doc.uri.fsPath);
+    const relativePath = path.relative(folder.uri.fsPath, doc.uri.fsPath);
+    if (getLanguageProvider().workspaceFolders().length > 1) {
+        return `${folder.name}/${relativePath.split(path.sep).join('/')}`;
+    }
+    return relativePath;
+}
+
+// Only name the workspace folder when there is more than one to tell apart
+function getWorkspaceFolderLabel(doc: vscode.TextDocument): string | undefined {
+    if (getLanguageProvider().workspaceFolders().length <= 1) {
+        return undefined;
+    }
+    return getLanguageProvider().getWorkspaceFolder(doc.uri)?.name;
+}
+
+/**
+ * Gather the dependencies of each package (nearest manifest) that holds one of the used files.
+ * The document's own package comes first. Once the token is cancelled, the rest are skipped.
+ */
+export async function getPackagesForFiles(
+    doc: vscode.TextDocument,
+    usedFiles: Set<string>,
+    token?: vscode.CancellationToken
+): Promise<PackageManifest[] | undefined> {
+    const config = getLanguageProvider().getConfiguration('raydoc-context');
+    const importedOnly = config.get<boolean>('packages-imported-only', false);
+
+    // Group the used files by the package they belong to
+    const filesByPackage = new Map<string, string[]>();
+    for (const fsPath of [doc.uri.fsPath, ...usedFiles]) {
+        const packageDir = findPackageDir(doc.languageId, fsPath);
+        if (packageDir) {
+            const files = filesByPackage.get(packageDir) || [];
+            if (!files.includes(fsPath)) {
+                files.push(fsPath);
+            }
+            filesByPackage.set(packageDir, files);
+        }
+    }
+
+    const packages: PackageManifest[] = [];
+    for (const [packageDir, files] of filesByPackage) {
+        if (token?.isCancellationRequested) {
+            break;
+        }
+        let manifest = getPackageDependencies(doc.languageId, packageDir);
+        if (!manifest) {
+            continue;
+        }
+
+        if (importedOnly) {
+            const sources: string[] = [];
+            for (const file of files) {
+                const fileDoc = await getLanguageProvider().openTextDocument(getLanguageProvider().types.Uri.file(file));
+                sources.push(fileDoc.getText());
+            }
+            manifest = filterToImportedDependencies(doc.languageId, manifest, sources);
+        }
+        packages.push(manifest);
+    }
+
+    return packages.length > 0 ? packages : undefined;
 }
 
 /**
  * Find all function definitions that intersect the user’s selection.
- * This naive approach tries each line in the range. You can optimize as needed.
+ * Tries each line in the range, skipping past the rest of a function once it's found.
  */
 async function getFunctionsInSelection(
     doc: vscode.TextDocument,
-    selection: vscode.Selection
+    selection: vscode.Selection,
+    token?: vscode.CancellationToken
 ): Promise<FunctionDefinition[]> {
+    const { Position } = getLanguageProvider().types;
     const found: FunctionDefinition[] = [];
     const start = selection.start.line;
     const end = selection.end.line;
-    for (let line = start; line <= end; line++) {
+    for (let line = start; line <= end && !token?.isCancellationRequested; line++) {
         // We just check a position at the start of each line
-        const position = new vscode.Position(line, 0);
-        const fnDef = await getFunctionDefinition(doc, position, false, true);
+        const position = new Position(line, 0);
+        const fnDef = await getFunctionDefinition(doc, position, false, true, false, token);
         if (fnDef) {
             const key = `${fnDef.functionName}:${fnDef.startLine}:${fnDef.endLine}:${fnDef.filename}`;
             // Deduplicate
@@ -118,11 +295,46 @@ async function getFunctionsInSelection(
             )) {
                 found.push(fnDef);
             }
+            // Every line up to its end resolves to the same function (or one nested in it)
+            line = Math.max(line, fnDef.endLine);
         }
     }
     return found;
 }
 
+/**
+ * Score each definition by how relevant it is to the main functions:
+ * how often the main functions reference it, whether it lives in the same file,
+ * how close it is to the cursor, and how many hops away it is in the reference graph.
+ */
+function rankByRelevance(
+    defns: FunctionDefinition[],
+    functionDefns: FunctionDefinition[],
+    selection: vscode.Selection
+) {
+    const mainFile = functionDefns[0].filename;
+    const mainText = functionDefns.map(fn => fn.functionText).join('\n');
+
+    for (const defn of defns) {
+        // Symbol names can carry signatures (e.g. "foo(int)"), so only match the identifier
+        const identifier = defn.functionName.match(/[A-Za-z_$][A-Za-z0-9_$]*/)?.[0];
+        const referenceCount = identifier
+            ? (mainText.match(new RegExp(`\\b${identifier.replace(/\$/g, '\\$')}\\b`, 'g')) || []).length
+            : 0;
+
+        // Callers count each of their call sites as a reference
+        let relevance = (referenceCount + (defn.callSiteLines?.length ?? 0)) * 2;
+        if (defn.filename === mainFile) {
+            const distance = Math.min(
+                Math.abs(defn.startLine - selection.start.line),
+                Math.abs(defn.endLine - selection.start.line)
+            );
+            relevance += 3 + 5 / (1 + distance / 25);
+        }
+        defn.relevance = relevance / (defn.depth ?? 1);
+    }
+}
+
 /**
  * Build context lines from selection.start.line - 3 to selection.end.line + 3,
  * marking each line within the selection with ">>>".
@@ -147,35 +359,68 @@ function buildImmediateContextLines(
     return lines.join('\n');
 }
 
+// The command printing each runtime's version, and whether it prints it to stderr
+const VERSION_COMMANDS: Record<string, { file: string, args: string[], stderr?: boolean }> = {
+    go: { file: 'go', args: ['version'] },
+    typescript: { file: 'tsc', args: ['--version'] },  // TypeScript version
+    javascript: { file: 'node', args: ['--version'] },  // Node.js version (JavaScript runtime)
+    rust: { file: 'rustc', args: ['--version'] },
+    java: { file: 'java', args: ['-version'], stderr: true },  // e.g. openjdk version "17.0.2" 2022-01-18
+    kotlin: { file: 'kotlinc', args: ['-version'], stderr: true },  // e.g. info: kotlinc-jvm 1.9.0 (JRE 17.0.2)
+    ruby: { file: 'ruby', args: ['--version'] },
+    php: { file: 'php', args: ['--version'] },
+};
+
+// A JVM start or a version manager shim can take seconds, or hang
+const VERSION_TIMEOUT_MS = 5000;
+
+// Each runtime is only asked once per workspace folder, since version managers such as nvm, rustup
+// or asdf pick the version by directory. Changed settings can pick another, so they clear it
+const versionsByFolder = new Map<string, Promise<string | undefined>>();
+
+export function forgetLanguageVersions() {
+    versionsByFolder.clear();
+}
+
 /**
- * Attempt to get an external language version (Python, Go, etc.). Otherwise return undefined.
+ * Attempt to get an external language version (Python, Go, etc.) as run in the workspace folder.
+ * Otherwise return undefined.
  */
-export async function getLanguageVersion(languageId: string): Promise<string | undefined> {
-    let cmd: string | undefined;
-    switch (languageId) {
-        case 'python':
-            return await getPythonVersion();
-            break;
-        case 'go':
-            cmd = 'go version';
-            break;
-        case 'typescript':
-            cmd = 'tsc --version';  // TypeScript version
-            break;
-        case 'javascript':
-            cmd = 'node --version';  // Node.js version (JavaScript runtime)
-            break;
-        default:
-            return undefined;
+export async function getLanguageVersion(languageId: string, folder?: vscode.WorkspaceFolder): Promise<string | undefined> {
+    if (languageId === 'python') {
+        return await getPythonVersion();
+    }
+    const command = VERSION_COMMANDS[languageId];
+    if (!command) {
+        return undefined;
+    }
+
+    const key = `${folder?.uri.toString() ?? ''} ${languageId}`;
+    let version = versionsByFolder.get(key);
+    if (!version) {
+        version = runVersionCommand(command.file, command.args, !!command.stderr, folder?.uri.fsPath);
+        versionsByFolder.set(key, version);
     }
-    if (!cmd) { return undefined; }
+    return version;
+}
+
+const execFilePromise = util.promisify(cp.execFile);
 
+async function runVersionCommand(file: string, args: string[], fromStderr: boolean, cwd?: string): Promise<string | undefined> {
     try {
-        const output = cp.execSync(cmd, { encoding: 'utf-8' }).trim();
-        // Remove any newlines or other whitespace and the word 'version'
-        const cleanedOutput = output.replace(/[\n\r]/g, '').replace(/Version/g, '').trim();
-        return cleanedOutput;
+        // Windows runs tsc and other npm or version manager shims through a .cmd file, which needs the shell
+        const { stdout, stderr } = await execFilePromise(file, args, {
+            encoding: 'utf-8',
+            cwd,
+            timeout: VERSION_TIMEOUT_MS,
+            shell: process.platform === 'win32',
+        });
+        // Java and PHP print details about the VM on further lines, so only keep the first
+        const output = (fromStderr ? stderr : stdout).trim().split(/\r?\n/)[0];
+        // Remove any whitespace and the word 'version'
+        return output.replace(/Version/g, '').replace(/^info:\s*/, '').trim() || undefined;
     } catch {
+        // Not installed, or it timed out
         return undefined;
     }
 }
@@ -184,7 +429,7 @@ const execPromise = util.promisify(cp.exec);
 
 async function getPythonVersion(): Promise<string | undefined> {
     // Get the Python extension
-    const pythonExtension = vscode.extensions.getExtension('ms-python.python');
+    const pythonExtension = getLanguageProvider().getExtension('ms-python.python');
 
     if (!pythonExtension) {
         return undefined;
@@ -216,7 +461,7 @@ async function getPythonVersion(): Promise<string | undefined> {
     } catch (error) {
         // Ensure 'error' is an instance of Error before accessing 'message'
         const errorMessage = error instanceof Error ? error.message : String(error);
-        vscode.window.showErrorMessage(`Failed to get Python version: ${errorMessage}`);
+        getLanguageProvider().showErrorMessage(`Failed to get Python version: ${errorMessage}`);
         return undefined;
     }
 }
@@ -0,0 +1,109 @@
+import type * as vscode from 'vscode';
+
+import { getLanguageProvider } from './provider';
+import { DiagnosticInfo, DiagnosticRelatedInfo, FunctionDefinition } from './types';
+
+/**
+ * Gather every diagnostic inside the given definitions, with its related information.
+ * Diagnostics covering the selection come first, then the rest by severity and position.
+ * Once the token is cancelled, only the diagnostics found so far are returned.
+ */
+export async function getDiagnosticsInScope(
+    defns: FunctionDefinition[],
+    selection?: vscode.Selection,
+    selectionUri?: vscode.Uri,
+    token?: vscode.CancellationToken,
+): Promise<DiagnosticInfo[]> {
+    const { Range } = getLanguageProvider().types;
+    const found: { diagnostic: vscode.Diagnostic, uri: vscode.Uri, atSelection: boolean }[] = [];
+    const seen = new Set<vscode.Diagnostic>();
+    // Ask once per file, so a diagnostic shared by two definitions is only listed once
+    const diagnosticsByUri = new Map<string, vscode.Diagnostic[]>();
+
+    for (const defn of defns) {
+        if (token?.isCancellationRequested) {
+            break;
+        }
+        const range = new Range(defn.startLine, 0, defn.endLine, Number.MAX_SAFE_INTEGER);
+        let fileDiagnostics = diagnosticsByUri.get(defn.uri.toString());
+        if (!fileDiagnostics) {
+            fileDiagnostics = await getLanguageProvider().diagnostics(defn.uri);
+            diagnosticsByUri.set(defn.uri.toString(), fileDiagnostics);
+        }
+        for (const diagnostic of fileDiagnostics) {
+            if (seen.has(diagnostic) || !range.intersection(diagnostic.range)) {
+                continue;
+            }
+            seen.add(diagnostic);
+
+            const atSelection = !!selection && selectionUri?.toString() === defn.uri.toString() &&
+                !!diagnostic.range.intersection(new Range(selection.start.line, 0, selection.end.line, Number.MAX_SAFE_INTEGER));
+            found.push({ diagnostic, uri: defn.uri, atSelection });
+        }
+    }
+
+    found.sort((a, b) =>
+        Number(b.atSelection) - Number(a.atSelection) ||
+        a.diagnostic.severity - b.diagnostic.severity ||
+        a.diagnostic.range.start.compareTo(b.diagnostic.range.start)
+    );
+
+    const diagnostics: DiagnosticInfo[] = [];
+    for (const { diagnostic, uri } of found) {
+        if (token?.isCancellationRequested) {
+            break;
+        }
+        diagnostics.push(await toDiagnosticInfo(diagnostic, uri));
+    }
+    return diagnostics;
+}
+
+async function toDiagnosticInfo(diagnostic: vscode.Diagnostic, uri: vscode.Uri): Promise<DiagnosticInfo> {
+    const { DiagnosticSeverity } = getLanguageProvider().types;
+    const severities: Record<vscode.DiagnosticSeverity, DiagnosticInfo['severity']> = {
+        [DiagnosticSeverity.Error]: 'error',
+        [DiagnosticSeverity.Warning]: 'warning',
+        [DiagnosticSeverity.Information]: 'information',
+        [DiagnosticSeverity.Hint]: 'hint',
+    };
+    const relatedInformation: DiagnosticRelatedInfo[] = [];
+    for (const related of diagnostic.relatedInformation || []) {
+        relatedInformation.push({
+            filename: getLanguageProvider().asRelativePath(related.location.uri),
+            line: related.location.range.start.line,
+            character: related.location.range.start.character,
+            message: related.message,
+            sourceLine: await getSourceLine(related.location.uri, related.location.range.start.line),
+        });
+    }
+
+    return {
+        filename: getLanguageProvider().asRelativePath(uri),
+        severity: severities[diagnostic.severity],
+        message: diagnostic.message,
+        source: diagnostic.source,
+        code: getDiagnosticCode(diagnostic),
+        startLine: diagnostic.range.start.line,
+        startCharacter: diagnostic.range.start.character,
+        endLine: diagnostic.range.end.line,
+        endCharacter: diagnostic.range.end.character,
+        sourceLine: await getSourceLine(uri, diagnostic.range.start.line),
+        relatedInformation,
+    };
+}
+
+function getDiagnosticCode(diagnostic: vscode.Diagnostic): string | undefined {
+    if (diagnostic.code === undefined) {
+        return undefined;
+    }
+    return typeof diagnostic.code === 'object' ? String(diagnostic.code.value) : String(diagnostic.code);
+}
+
+async function getSourceLine(uri: vscode.Uri, line: number): Promise<string | undefined> {
+    try {
+        const doc = await getLanguageProvider().openTextDocument(uri);
+        return line < doc.lineCount ? doc.lineAt(line).text : undefined;
+    } catch {
+        return undefined;
+    }
+}
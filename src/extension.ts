@@ -1,70 +1,74 @@
 import * as vscode from 'vscode';
-import { PostHog } from 'posthog-node';
-import { contextToString, contextToStringLlm } from './toString';
+import { fitContextForLlm, getLlmOutputOptions, getOutputOptions, outputSeparator, renderContext, renderContextLlm } from './toString';
+import { containsSecrets, redactionSummary } from './redaction';
 import { gatherContext } from './context';
+import { gatherStackTraceContext, parseStackTrace } from './stackTrace';
+import { showContextPreview } from './previewPanel';
+import { clearHistory, entrySelection, initHistory, recordHistory, showHistory } from './history';
 import { getFunctionDefinition } from './functions';
-import { FunctionDefinition } from './types';
-import { v4 as uuidv4 } from 'uuid';
-
-let analyticsClient: PostHog;
-let userId: string | undefined;
+import { initVscodeProvider } from './vscodeProvider';
+import { initMcpServer } from './mcpServer';
+import { initChat } from './chat';
+import { getConfiguredSendTarget, getSendTarget, getSendTargets, isAvailable, SendTarget } from './sendTargets';
+import { initTelemetry, sendErrorEvent, sendEvent, shutdownTelemetry } from './telemetry';
+import { FunctionDefinition, RaydocContext } from './types';
 
 export function activate(context: vscode.ExtensionContext) {
-    analyticsClient = new PostHog(
-        'phc_Rv9pNJA7chv1QR27K0jg2s1Bwah2PDsZroMEI1Usic7',
-        { host: 'https://us.i.posthog.com' }
-    );
-
-    const USER_ID_KEY = 'RaydocUserId';
-
-    // Retrieve the stored UUID
-    userId = context.globalState.get<string>(USER_ID_KEY);
-
-    // If UUID doesn't exist, generate and store it
-    if (!userId) {
-        userId = uuidv4();
-        context.globalState.update(USER_ID_KEY, userId);
-
-        // This is the first time the extension is being used, we can also check to see if we are using Cursor
-        // Automatically detect if we're running in Cursor
-        const isCursorDetected = isCursor();
-
-        // Get the configuration and update it based on detection
-        const config = vscode.workspace.getConfiguration('raydoc-context');
-
-        // Only update the configuration if it doesn't match what we detected
-        if (config.get<boolean>('use-cursor', false) !== isCursorDetected) {
-            // Update the configuration to match the detected editor
-            (async () => {
-                try {
-                    await config.update('use-cursor', isCursorDetected, vscode.ConfigurationTarget.Global);
-                    console.log(`Automatically set use-cursor to ${isCursorDetected} based on detection`);
-                } catch (err: unknown) {
-                    console.error('Failed to update use-cursor setting:', err);
-                }
-            })();
-        }
-    }
+    initTelemetry(context);
+    initHistory(context);
+    initVscodeProvider(context);
+    initMcpServer(context);
+    initChat(context);
 
     // Register commands with direct handler references
     const copyContextAtCursorCommand = vscode.commands.registerCommand(
         'raydoc-context.copyContextAtCursor',
-        (positionArg?: { uri: string, line: number, character: number }) => copyContextAtCursorCommandHandler(positionArg)
+        (positionArg?: { uri: string, line: number, character: number }) => ignoreCancellation(copyContextAtCursorCommandHandler(positionArg))
     );
 
     const copyFromMenu = vscode.commands.registerCommand(
         'raydoc-context.copyContextAtCursorWithoutPosition',
-        () => copyContextAtCursorCommandHandler()
+        () => ignoreCancellation(copyContextAtCursorCommandHandler())
     );
 
     const sendContextToLlmCommand = vscode.commands.registerCommand(
         'raydoc-context.sendContextToLlm',
-        (positionArg?: { uri: string, line: number, character: number }) => sendContextToLlmCommandHandler(positionArg)
+        (positionArg?: { uri: string, line: number, character: number }) => ignoreCancellation(sendContextToLlmCommandHandler(positionArg))
     );
 
     const sendFromMenu = vscode.commands.registerCommand(
         'raydoc-context.sendContextToLlmWithoutPosition',
-        () => sendContextToLlmCommandHandler()
+        () => ignoreCancellation(sendContextToLlmCommandHandler())
+    );
+
+    const sendToTargetCommand = vscode.commands.registerCommand(
+        'raydoc-context.sendContextTo',
+        (targetId?: string) => ignoreCancellation(sendContextToTargetCommandHandler(targetId))
+    );
+
+    const copyStackTraceCommand = vscode.commands.registerCommand(
+        'raydoc-context.copyStackTraceContext',
+        () => ignoreCancellation(copyStackTraceContextCommandHandler())
+    );
+
+    const previewContextCommand = vscode.commands.registerCommand(
+        'raydoc-context.previewContextAtCursor',
+        () => ignoreCancellation(previewContextAtCursorCommandHandler(context))
+    );
+
+    const showHistoryCommand = vscode.commands.registerCommand(
+        'raydoc-context.showHistory',
+        () => ignoreCancellation(showHistory({
+            send: async (entry, regenerated) => {
+                const doc = await vscode.workspace.openTextDocument(vscode.Uri.parse(entry.uri));
+                await sendContextToLlm(doc, entrySelection(entry), regenerated);
+            },
+        }))
+    );
+
+    const clearHistoryCommand = vscode.commands.registerCommand(
+        'raydoc-context.clearHistory',
+        () => clearHistory()
     );
 
     // Register the code action provider
@@ -81,6 +85,11 @@ export function activate(context: vscode.ExtensionContext) {
         copyFromMenu,
         sendContextToLlmCommand,
         sendFromMenu,
+        sendToTargetCommand,
+        copyStackTraceCommand,
+        previewContextCommand,
+        showHistoryCommand,
+        clearHistoryCommand,
         codeActionProvider,
     );
 }
@@ -122,7 +131,7 @@ class RaydocCodeActionProvider implements vscode.CodeActionProvider {
         );
         sendAction.command = {
             command: 'raydoc-context.sendContextToLlm',
-            title: 'Send Context to Cursor Composer or Copilot Chat',
+            title: 'Send Context to LLM Chat',
             arguments: args // Pass position argument
         };
 
@@ -131,7 +140,20 @@ class RaydocCodeActionProvider implements vscode.CodeActionProvider {
 }
 
 export function deactivate() {
-    analyticsClient.shutdown();
+    return shutdownTelemetry();
+}
+
+// Cancelling the progress notification aborts the command, which isn't an error
+async function ignoreCancellation(command: Promise<void>) {
+    try {
+        await command;
+    } catch (err: unknown) {
+        if (!(err instanceof vscode.CancellationError)) {
+            sendErrorEvent(err);
+            throw err;
+        }
+        vscode.window.setStatusBarMessage('Raydoc: context gathering cancelled.', 3000);
+    }
 }
 
 function isSelectionEmpty(selection: vscode.Selection): boolean {
@@ -144,7 +166,6 @@ async function copyContextAtCursorCommandHandler(positionArg?: { uri: string, li
 
     let doc: vscode.TextDocument;
     let selection: vscode.Selection;
-    let diag: vscode.Diagnostic | undefined;
 
     if (positionArg) {
         // If triggered via code action or hover, we have a position
@@ -153,9 +174,6 @@ async function copyContextAtCursorCommandHandler(positionArg?: { uri: string, li
         const pos = new vscode.Position(positionArg.line, positionArg.character);
         // Construct a single-cursor selection if we only have a position
         selection = new vscode.Selection(pos, pos);
-        // Find any diagnostic that covers this position
-        const allDiagnostics = vscode.languages.getDiagnostics(doc.uri);
-        diag = allDiagnostics.find(d => d.range.contains(pos));
     } else {
         // Use the user's current selection
         if (!editor) {
@@ -164,31 +182,95 @@ async function copyContextAtCursorCommandHandler(positionArg?: { uri: string, li
         }
         doc = editor.document;
         selection = editor.selection;
-        // If we want to pick a diagnostic for the start of the selection
-        const allDiagnostics = vscode.languages.getDiagnostics(doc.uri);
-        diag = allDiagnostics.find(d => d.range.contains(selection.start));
     }
 
-    const context = await gatherContext(doc, selection, diag);
+    // Diagnostics in scope are gathered with the rest of the context, those at the selection first
+    const context = await gatherContext(doc, selection);
     if (!context) {
         vscode.window.showErrorMessage('No context found for the current cursor position.');
-        sendPHEvent(doc, 'no-context-found-at-cursor');
+        sendEvent(doc, 'no-context-found-at-cursor');
         return;
     }
 
-    const output = contextToString(context) + '---\n\n\n';
+    const options = getOutputOptions();
+    const rendered = renderContext(context, options);
+    const output = rendered.text + outputSeparator();
     if (output) {
         await vscode.env.clipboard.writeText(output);
-        vscode.window.showInformationMessage('Raydoc: context copied to clipboard!');
-        sendPHEvent(doc, 'context-copied');
+        await recordHistory('copy', doc.uri, selection, context, rendered.text, options);
+        vscode.window.showInformationMessage(`Raydoc: context copied to clipboard!${redactionSummary(rendered.redactions)}`);
+        sendEvent(doc, 'context-copied');
     } else {
         vscode.window.showWarningMessage('No context available to copy.');
-        sendPHEvent(doc, 'no-context-available');
+        sendEvent(doc, 'no-context-available');
+    }
+}
+
+/**
+ * Gather the context at the cursor and open it in the preview panel to pick what goes in.
+ */
+async function previewContextAtCursorCommandHandler(extensionContext: vscode.ExtensionContext) {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+        vscode.window.setStatusBarMessage('No active text editor.', 3000);
+        return;
+    }
+    const doc = editor.document;
+    const selection = editor.selection;
+
+    const context = await gatherContext(doc, selection);
+    if (!context) {
+        vscode.window.showErrorMessage('No context found for the current cursor position.');
+        sendEvent(doc, 'no-context-found-at-cursor');
+        return;
+    }
+
+    showContextPreview(extensionContext, context, {
+        send: selected => sendContextToLlm(doc, selection, selected),
+        copied: (selected, output, options) => recordHistory('preview', doc.uri, selection, selected, output, options),
+    });
+    sendEvent(doc, 'context-previewed');
+}
+
+/**
+ * Build context from a stack trace in the selection, the clipboard or, failing those, an input box.
+ */
+async function copyStackTraceContextCommandHandler() {
+    const editor = vscode.window.activeTextEditor;
+    const selectedText = editor && !editor.selection.isEmpty ? editor.document.getText(editor.selection) : '';
+    const clipboardText = await vscode.env.clipboard.readText();
+
+    let trace = [selectedText, clipboardText].find(text => parseStackTrace(text).frames.length > 0);
+    if (!trace) {
+        trace = await vscode.window.showInputBox({
+            prompt: 'Paste a Node, Python, Go, C# or C++ stack trace',
+            placeHolder: 'Error: ... at handler (src/main.js:10:5)',
+            ignoreFocusOut: true,
+        });
+    }
+    if (!trace) {
+        return;
+    }
+
+    const context = await gatherStackTraceContext(trace);
+    if (!context) {
+        vscode.window.showErrorMessage('No frames of the stack trace were found in the workspace.');
+        return;
     }
+
+    const options = getOutputOptions();
+    const rendered = renderContext(context, options);
+    await vscode.env.clipboard.writeText(rendered.text + outputSeparator());
+    const doc = await vscode.workspace.openTextDocument(context.functionDefns![0].uri);
+    const focus = new vscode.Selection(context.line, 0, context.line, 0);
+    await recordHistory('stack-trace', doc.uri, focus, context, rendered.text, options, trace);
+    vscode.window.showInformationMessage(`Raydoc: stack trace context copied to clipboard!${redactionSummary(rendered.redactions)}`);
+    sendEvent(doc, 'stack-trace-context-copied');
 }
 
 async function sendContextToLlmCommandHandler(
-    positionArg?: { uri: string, line: number, character: number }
+    positionArg?: { uri: string, line: number, character: number },
+    target?: SendTarget
 ) {
     const editor = vscode.window.activeTextEditor;
 
@@ -213,74 +295,93 @@ async function sendContextToLlmCommandHandler(
     }
 
     // --- 2) Gather context for the selection (could be single or multiple functions) ---
-    const context = await gatherContext(doc, originalSelection, undefined);
+    const context = await gatherContext(doc, originalSelection);
     if (!context) {
         vscode.window.setStatusBarMessage('No function(s) found at the current selection/cursor.', 3000);
         // Optional analytics
-        sendPHEvent(doc, 'no-functions-found');
+        sendEvent(doc, 'no-functions-found');
         return;
     }
 
-    // 3) Send each main function + references/types to the LLM
-    const config = vscode.workspace.getConfiguration('raydoc-context');
-    const useCursor = config.get<boolean>('use-cursor', false);
+    await sendContextToLlm(doc, originalSelection, context, target);
+}
 
-    for (const fnDef of context.functionDefns || []) {
-        await selectAndSendToLlm(fnDef, useCursor);
-    }
-    for (const typeDefn of context.typeDefns || []) {
-        await selectAndSendToLlm(typeDefn, useCursor);
-    }
-    for (const referencedFunction of context.referencedFunctions || []) {
-        await selectAndSendToLlm(referencedFunction, useCursor);
+/**
+ * Send the context at the cursor to a target picked for this time only, or the one given by id.
+ */
+async function sendContextToTargetCommandHandler(targetId?: string) {
+    let target = targetId ? getSendTarget(targetId) : undefined;
+    if (!target) {
+        const configured = await getConfiguredSendTarget();
+        const items = await Promise.all(getSendTargets().map(async sendTarget => ({
+            label: sendTarget.label,
+            description: sendTarget === configured ? 'default' : await isAvailable(sendTarget) ? '' : 'not available',
+            target: sendTarget,
+        })));
+        const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Send the context to…' });
+        if (!picked) {
+            return;
+        }
+        target = picked.target;
     }
-
-    // 4) Re-focus the original document & restore the original selection
-    const newEditor = await vscode.window.showTextDocument(doc, vscode.ViewColumn.One);
-    newEditor.selection = originalSelection;
-
-    // 5) Copy minimal LLM context to clipboard
-    const output = contextToStringLlm(context) + '---\n\n\n';
-    await vscode.env.clipboard.writeText(output);
-
-    vscode.window.setStatusBarMessage('Raydoc: context copied to clipboard and sent to LLM!', 2000);
-
-    // --- 6) Analytics (optional) ---
-    sendPHEvent(doc, 'context-sent-to-llm');
+    await sendContextToLlmCommandHandler(undefined, target);
 }
 
-async function selectAndSendToLlm(functionDefinition: FunctionDefinition, useCursor: boolean) {
-    // Get the file URI from the function definition (relative to the workspace root)
-    const fullFilePath = vscode.workspace.workspaceFolders
-        ? vscode.Uri.joinPath(vscode.workspace.workspaceFolders[0].uri, functionDefinition.filename).fsPath
-        : functionDefinition.filename; // Fallback if workspace is not open
-
-    const fileUri = vscode.Uri.file(fullFilePath);
+/**
+ * Attach each main function + references/types to the LLM and copy the rest of the context.
+ */
+async function sendContextToLlm(
+    doc: vscode.TextDocument,
+    originalSelection: vscode.Selection,
+    context: RaydocContext,
+    target?: SendTarget
+) {
+    // 3) Send each main function + references/types to the LLM
+    target = target || await getConfiguredSendTarget();
+
+    // Only attach the definitions that fit in the token budget
+    const budgeted = fitContextForLlm(context).context;
+
+    // Attachments are the raw editor text, which can't be redacted, so definitions holding secrets stay out
+    let withheld = 0;
+    const definitions: FunctionDefinition[] = [];
+    for (const defn of [
+        ...budgeted.functionDefns || [],
+        ...budgeted.typeDefns || [],
+        ...budgeted.referencedFunctions || [],
+        ...budgeted.incomingCalls || [],
+        ...budgeted.tests || [],
+    ]) {
+        if (containsSecrets(defn.functionText)) {
+            withheld++;
+        } else {
+            definitions.push(defn);
+        }
+    }
 
-    // Open the document
-    const doc = await vscode.workspace.openTextDocument(fileUri);
-    const editor = await vscode.window.showTextDocument(doc, vscode.ViewColumn.One);
+    // 4) Copy minimal LLM context to clipboard, which is all that's left when the target isn't there
+    const options = getLlmOutputOptions();
+    const rendered = renderContextLlm(context, options);
+    await vscode.env.clipboard.writeText(rendered.text + outputSeparator());
+    await recordHistory('send', doc.uri, originalSelection, context, rendered.text, options);
 
-    // Get function range (you should implement this based on your logic)
-    let functionRange = getSelectionFromFunctionDefinition(doc, functionDefinition);
+    if (!await isAvailable(target)) {
+        vscode.window.showWarningMessage(`Raydoc: ${target.label} isn't available, so the context was only copied to the clipboard.`);
+        sendEvent(doc, 'context-send-target-unavailable');
+        return;
+    }
 
-    // Apply the selection
-    editor.selection = functionRange;
+    // 5) Targets that select the definitions in the editor put the editors back as they were themselves
+    await target.send({ context, definitions, text: rendered.text });
 
-    // Attach the selection to the LLM
-    if (!useCursor) {
-        await vscode.commands.executeCommand("github.copilot.chat.attachSelection");
-    } else {
-        await vscode.commands.executeCommand("composer.startComposerPrompt");
-        await new Promise(resolve => setTimeout(resolve, 50)); // Wait because cursor was sometimes not adding everything
+    if (withheld > 0 && target.attachesDefinitions()) {
+        vscode.window.showWarningMessage(`Raydoc: ${withheld} ${withheld === 1 ? 'definition holds' : 'definitions hold'} secrets and ${withheld === 1 ? 'was' : 'were'} not attached.`);
     }
-}
+    const sent = target.id === 'clipboard' ? '' : target.hint ? `, ${target.hint}` : ` and sent to ${target.label}`;
+    vscode.window.setStatusBarMessage(`Raydoc: context copied to clipboard${sent}!${redactionSummary(rendered.redactions)}`, 2000);
 
-function getSelectionFromFunctionDefinition(doc: vscode.TextDocument, functionDefinition: FunctionDefinition): vscode.Selection {
-    return new vscode.Selection(
-        new vscode.Position(functionDefinition.startLine, 0),
-        new vscode.Position(functionDefinition.endLine, doc.lineAt(functionDefinition.endLine).text.length)
-    );
+    // --- 6) Analytics (optional) ---
+    sendEvent(doc, 'context-sent-to-llm');
 }
 
 async function getFunctionsInSelection(
@@ -310,27 +411,3 @@ async function getFunctionsInSelection(
 
     return foundFunctions;
 }
-
-function isCursor(): boolean {
-    // Check the application name
-    const appName = vscode.env.appName;
-
-    // Cursor will have "Cursor" in its application name
-    return appName.includes('Cursor');
-}
-
-function sendPHEvent(doc: vscode.TextDocument, eventName: string) {
-    const extension = vscode.extensions.getExtension('raydoc.raydoc-ai-context');
-    const raydocVersion = extension?.packageJSON.version || 'unknown';
-    userId && analyticsClient.capture({
-        distinctId: userId,
-        event: eventName,
-        properties: {
-            languageId: doc.languageId,
-            raydocVersion: raydocVersion,
-            isCursor: isCursor(),
-            editorVersion: vscode.version,
-            isDev: process.env.VSCODE_DEBUG_MODE === 'true'
-        }
-    });
-}
@@ -1,26 +1,72 @@
-import * as vscode from 'vscode';
+import type * as vscode from 'vscode';
 import { Node } from './types';
 import * as path from 'path';
 import * as fs from 'fs';
+import { getLanguageProvider } from './provider';
 
 /**
- * Generate a file tree of the entire workspace (minus node_modules) and mark
- * any file in 'usedFiles' with an asterisk (*).
+ * Generate a file tree of each workspace folder that holds a file in 'usedFiles'
+ * (minus node_modules). With a single folder the folder itself is the root, otherwise
+ * the root holds one tree per folder. Returns undefined once the token is cancelled.
  */
-export async function generateFileTree(usedFiles: Set<string>): Promise<Node | undefined> {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders?.length) {
+export async function generateFileTree(
+    usedFiles: Set<string>,
+    token?: vscode.CancellationToken
+): Promise<Node | undefined> {
+    const provider = getLanguageProvider();
+    const workspaceFolders = provider.workspaceFolders();
+    if (!workspaceFolders.length) {
         return undefined;
     }
-    const rootPath = workspaceFolders[0].uri.fsPath;
+
+    const folders: vscode.WorkspaceFolder[] = [];
+    for (const fsPath of usedFiles) {
+        const folder = provider.getWorkspaceFolder(provider.types.Uri.file(fsPath));
+        if (folder && !folders.includes(folder)) {
+            folders.push(folder);
+        }
+    }
+    if (folders.length === 0) {
+        folders.push(workspaceFolders[0]);
+    }
+    folders.sort((a, b) => a.index - b.index);
+
+    const folderTrees: Node[] = [];
+    for (const folder of folders) {
+        folderTrees.push(await generateFolderTree(folder, token));
+        if (token?.isCancellationRequested) {
+            return undefined;
+        }
+    }
+
+    if (folderTrees.length === 1) {
+        return folderTrees[0];
+    }
+
+    return {
+        name: provider.workspaceName() || 'workspace',
+        fsPath: '',
+        isDir: true,
+        children: folderTrees,
+    };
+}
+
+async function generateFolderTree(folder: vscode.WorkspaceFolder, token?: vscode.CancellationToken): Promise<Node> {
+    const rootPath = folder.uri.fsPath;
 
     // For demo, gather all files except node_modules
-    const uris = await vscode.workspace.findFiles('**/*', '{**/node_modules/**,**/lib/**,**/bin/**,**/dist/**,**/build/**,**/pyvenv.cfg,**/isympy.1}', 200);
+    const uris = await getLanguageProvider().findFiles(
+        folder,
+        '**/*',
+        '{**/node_modules/**,**/lib/**,**/bin/**,**/dist/**,**/build/**,**/pyvenv.cfg,**/isympy.1}',
+        200,
+        token
+    );
     // Sort them so the tree is consistent
     uris.sort((a, b) => a.fsPath.localeCompare(b.fsPath));
 
     const rootNode: Node = {
-        name: path.basename(rootPath) || rootPath,
+        name: folder.name || path.basename(rootPath) || rootPath,
         fsPath: rootPath,
         isDir: true,
         children: [],
@@ -0,0 +1,693 @@
+import * as path from 'path';
+import {
+    ContextFormatter,
+    DiagnosticInfo,
+    FunctionDefinition,
+    GitBlameLine,
+    GitCommit,
+    Node,
+    OutputOptions,
+    PackageDependency,
+    PackageManifest,
+    RaydocContext,
+} from './types';
+import { estimateDefinitionTokens } from './budget';
+
+const formatters = new Map<string, ContextFormatter>();
+
+/**
+ * Register an output format that can be selected with the `output-config.format` setting.
+ */
+export function registerFormatter(name: string, formatter: ContextFormatter) {
+    formatters.set(name, formatter);
+}
+
+/**
+ * Get the formatter for the given format, falling back to plain text for unknown formats.
+ */
+export function getFormatter(name: string): ContextFormatter {
+    return formatters.get(name) || formatters.get('text')!;
+}
+
+export function getFormatterNames(): string[] {
+    return Array.from(formatters.keys());
+}
+
+const PARTIAL_NOTE = 'Gathering timed out, so some definitions may be missing.';
+
+// ========== Plain text ==========
+
+function formatText(context: RaydocContext, options: OutputOptions, omitted: FunctionDefinition[]): string {
+    let output = '';
+
+    // ========== Partial (gather timed out) ==========
+    if (context.partial) {
+        output += `=== Partial Context ===\n${PARTIAL_NOTE}\n\n`;
+    }
+
+    // ========== Diagnostics ==========
+    if (context.diagnostics && context.diagnostics.length > 0) {
+        output += "=== Diagnostics ===\n";
+        for (const diagnostic of context.diagnostics) {
+            output += `${diagnosticToString(diagnostic)}\n\n`;
+        }
+    }
+
+    // ========== Focused Lines ==========
+    if (options.focusedLines && context.immediateContextLines) {
+        output += "=== Focus Lines ===\n";
+        output += context.immediateContextLines;
+        output += "\n\n";
+    }
+
+    // ========== Basic Context (File & Line) ==========
+    if (options.location) {
+        output += "=== Context ===\n";
+        if (context.workspaceFolder) {
+            output += `Workspace Folder: ${context.workspaceFolder}\n`;
+        }
+        output += `File: ${context.filepath}\n`;
+        // Note: context.line is the first line of the user's selection in gatherContext
+        output += `Line: ${context.line + 1}\n`; // Convert to 1-based for readability
+    }
+
+    // ========== Environment (Language, Runtime) ==========
+    if (options.environment) {
+        output += "\n=== Environment ===\n";
+        if (context.languageId) {
+            output += `Language: ${context.languageId}\n`;
+        }
+        if (options.runtimeVersion && context.runtimeVersion) {
+            output += `Version: ${context.runtimeVersion}\n`;
+        }
+    }
+
+    // ========== Packages ==========
+    if (options.packages && context.packages) {
+        output += "\n=== Packages ===\n";
+        for (const manifest of context.packages) {
+            output += `--- Package: ${manifestToString(manifest)} ---\n`;
+            for (const [name, dependency] of Object.entries(manifest.dependencies)) {
+                output += `${name}: ${packageVersionToString(dependency)}\n`;
+            }
+        }
+    }
+
+    // ========== Main Function(s) in Selection ==========
+    if (options.functionDefinition && context.functionDefns && context.functionDefns.length > 0) {
+        if (context.functionDefns.length > 1) {
+            output += `\n=== Main Functions in Selection ===\n`;
+        } else {
+            output += `\n=== Enclosing Function (${context.functionDefns[0].filename}) ===\n`;
+        }
+
+        for (const mainFn of context.functionDefns) {
+            output += `--- Main Function: "${mainFn.functionName}" (${mainFn.filename}) ---\n`;
+            output += mainFn.callSiteLines ? markCallSites(mainFn) : mainFn.functionText;
+            output += '\n\n';
+        }
+    }
+
+    // ========== Type Definitions ==========
+    if (options.typeDefinitions && context.typeDefns && context.typeDefns.length > 0) {
+        output += "\n=== Type Definitions ===\n";
+        for (const typeDefn of context.typeDefns) {
+            output += `--- Custom Type: "${typeDefn.functionName}" (${typeDefn.filename})${hopsToString(typeDefn)}${detailToString(typeDefn)} ---\n`;
+            output += typeDefn.functionText;
+            output += '\n\n';
+        }
+    }
+
+    // ========== Workspace File Tree ==========
+    if (options.fileTree && context.fileTree) {
+        output += "\n=== Workspace File Tree ===\n";
+        output += fileTreeToString(context.fileTree, '');
+    }
+
+    // ========== Referenced Functions ==========
+    if (options.referencedFunctions && context.referencedFunctions && context.referencedFunctions.length > 0) {
+        output += "\n=== Referenced Functions ===\n";
+        for (const refFunc of context.referencedFunctions) {
+            output += `--- Referenced Function: "${refFunc.functionName}" (${refFunc.filename})${hopsToString(refFunc)}${detailToString(refFunc)} ---\n`;
+            output += refFunc.functionText;
+            output += '\n\n';
+        }
+    }
+
+    // ========== Incoming Calls ==========
+    if (options.incomingCalls && context.incomingCalls && context.incomingCalls.length > 0) {
+        output += "\n=== Incoming Calls ===\n";
+        for (const caller of context.incomingCalls) {
+            output += `--- Caller: "${caller.functionName}" (${caller.filename})${hopsToString(caller)}${detailToString(caller)} ---\n`;
+            output += markCallSites(caller);
+            output += '\n\n';
+        }
+    }
+
+    // ========== Tests ==========
+    if (options.tests && context.tests && context.tests.length > 0) {
+        output += "\n=== Tests ===\n";
+        for (const test of context.tests) {
+            output += `--- Test: "${test.functionName}" (${test.filename})${detailToString(test)} ---\n`;
+            output += markCallSites(test);
+            output += '\n\n';
+        }
+    }
+
+    // ========== Git History ==========
+    if (options.gitHistory && context.git) {
+        output += "\n=== Git History ===\n";
+        if (context.git.diffHunks.length > 0) {
+            output += "--- Uncommitted Changes ---\n";
+            output += context.git.diffHunks.join('\n');
+            output += '\n\n';
+        }
+        if (context.git.commits.length > 0) {
+            output += "--- Recent Commits ---\n";
+            for (const commit of context.git.commits) {
+                output += `${commitToString(commit)}\n`;
+            }
+            output += '\n';
+        }
+        if (context.git.blame.length > 0) {
+            output += "--- Blame (focused lines) ---\n";
+            for (const blameLine of context.git.blame) {
+                output += `${blameLineToString(blameLine)}\n`;
+            }
+            output += '\n';
+        }
+    }
+
+    // ========== Omitted (over the token budget) ==========
+    if (omitted.length > 0) {
+        output += "\n=== Omitted (over token budget) ===\n";
+        for (const defn of omitted) {
+            output += `- "${defn.functionName}" (${defn.filename}, ~${estimateDefinitionTokens(defn)} tokens)\n`;
+        }
+    }
+
+    // ========== System Message ==========
+    if (options.systemMessage.trim() !== '') {
+        output += "\n=== System Message ===\n";
+        output += options.systemMessage;
+        output += "\n\n";
+    }
+
+    return output;
+}
+
+// ========== Markdown ==========
+
+function formatMarkdown(context: RaydocContext, options: OutputOptions, omitted: FunctionDefinition[]): string {
+    const sections: string[] = [];
+
+    if (context.partial) {
+        sections.push(`> **Partial context:** ${PARTIAL_NOTE}`);
+    }
+
+    if (context.diagnostics && context.diagnostics.length > 0) {
+        const lines = ['## Diagnostics'];
+        for (const diagnostic of context.diagnostics) {
+            lines.push('', `- ${diagnosticHeaderToString(diagnostic)}`);
+            if (diagnostic.sourceLine !== undefined) {
+                lines.push('', fence(diagnosticSourceToString(diagnostic), ''));
+            }
+            for (const related of diagnostic.relatedInformation) {
+                lines.push(`  - Related: \`${related.filename}:${related.line + 1}:${related.character + 1}\` ${related.message}`);
+            }
+        }
+        sections.push(lines.join('\n'));
+    }
+
+    if (options.focusedLines && context.immediateContextLines) {
+        sections.push(`## Focus Lines\n\n${fence(context.immediateContextLines, languageForFile(context.filepath, context.languageId))}`);
+    }
+
+    if (options.location) {
+        const folder = context.workspaceFolder ? `- **Workspace Folder:** ${context.workspaceFolder}\n` : '';
+        sections.push(`## Context\n\n${folder}- **File:** \`${context.filepath}\`\n- **Line:** ${context.line + 1}`);
+    }
+
+    if (options.environment) {
+        const lines = ['## Environment', ''];
+        if (context.languageId) {
+            lines.push(`- **Language:** ${context.languageId}`);
+        }
+        if (options.runtimeVersion && context.runtimeVersion) {
+            lines.push(`- **Version:** ${context.runtimeVersion}`);
+        }
+        sections.push(lines.join('\n'));
+    }
+
+    if (options.packages && context.packages) {
+        const lines = ['## Packages'];
+        for (const manifest of context.packages) {
+            lines.push('', `### ${manifestToString(manifest)}`);
+            lines.push('', '| Package | Version | Resolved | Notes |', '| --- | --- | --- | --- |');
+            for (const [name, dependency] of Object.entries(manifest.dependencies)) {
+                const notes = packageDetailsToString(dependency).trim().replace(/\|/g, '\\|');
+                lines.push(`| ${name} | ${dependency.version} | ${dependency.resolved || ''} | ${notes} |`);
+            }
+        }
+        sections.push(lines.join('\n'));
+    }
+
+    const definitionsToMarkdown = (title: string, defns: FunctionDefinition[]) => {
+        const lines = [`## ${title}`];
+        for (const defn of defns) {
+            lines.push('', `### \`${defn.functionName}\` (${defn.filename}:${defn.startLine + 1})${hopsToString(defn)}${detailToString(defn)}`, '');
+            lines.push(fence(defn.callSiteLines ? markCallSites(defn) : defn.functionText, languageForFile(defn.filename, context.languageId)));
+        }
+        return lines.join('\n');
+    };
+
+    if (options.functionDefinition && context.functionDefns && context.functionDefns.length > 0) {
+        sections.push(definitionsToMarkdown(context.functionDefns.length > 1 ? 'Main Functions in Selection' : 'Enclosing Function', context.functionDefns));
+    }
+
+    if (options.typeDefinitions && context.typeDefns && context.typeDefns.length > 0) {
+        sections.push(definitionsToMarkdown('Type Definitions', context.typeDefns));
+    }
+
+    if (options.fileTree && context.fileTree) {
+        sections.push(`## Workspace File Tree\n\n${fence(fileTreeToString(context.fileTree, '').trimEnd(), '')}`);
+    }
+
+    if (options.referencedFunctions && context.referencedFunctions && context.referencedFunctions.length > 0) {
+        sections.push(definitionsToMarkdown('Referenced Functions', context.referencedFunctions));
+    }
+
+    if (options.incomingCalls && context.incomingCalls && context.incomingCalls.length > 0) {
+        sections.push(definitionsToMarkdown('Incoming Calls', context.incomingCalls));
+    }
+
+    if (options.tests && context.tests && context.tests.length > 0) {
+        sections.push(definitionsToMarkdown('Tests', context.tests));
+    }
+
+    if (options.gitHistory && context.git) {
+        const lines = ['## Git History'];
+        if (context.git.diffHunks.length > 0) {
+            lines.push('', '### Uncommitted Changes', '', fence(context.git.diffHunks.join('\n'), 'diff'));
+        }
+        if (context.git.commits.length > 0) {
+            lines.push('', '### Recent Commits', '');
+            lines.push(...context.git.commits.map(commit => `- ${commitToString(commit)}`));
+        }
+        if (context.git.blame.length > 0) {
+            lines.push('', '### Blame (focused lines)', '', fence(context.git.blame.map(blameLineToString).join('\n'), ''));
+        }
+        sections.push(lines.join('\n'));
+    }
+
+    if (omitted.length > 0) {
+        const lines = ['## Omitted (over token budget)', ''];
+        for (const defn of omitted) {
+            lines.push(`- \`${defn.functionName}\` (${defn.filename}, ~${estimateDefinitionTokens(defn)} tokens)`);
+        }
+        sections.push(lines.join('\n'));
+    }
+
+    if (options.systemMessage.trim() !== '') {
+        sections.push(`## System Message\n\n${options.systemMessage}`);
+    }
+
+    return sections.join('\n\n') + '\n\n';
+}
+
+// Use a fence longer than any backtick run in the text so code containing fences stays intact
+function fence(text: string, language: string): string {
+    const longestRun = Math.max(2, ...(text.match(/`+/g) || []).map(run => run.length));
+    const ticks = '`'.repeat(longestRun + 1);
+    return `${ticks}${language}\n${text}\n${ticks}`;
+}
+
+const FENCE_LANGUAGES: Record<string, string> = {
+    '.py': 'python',
+    '.ts': 'typescript',
+    '.tsx': 'tsx',
+    '.js': 'javascript',
+    '.jsx': 'jsx',
+    '.go': 'go',
+    '.cpp': 'cpp',
+    '.cc': 'cpp',
+    '.h': 'cpp',
+    '.hpp': 'cpp',
+    '.cs': 'csharp',
+    '.rs': 'rust',
+    '.java': 'java',
+    '.kt': 'kotlin',
+    '.kts': 'kotlin',
+    '.rb': 'ruby',
+    '.php': 'php',
+};
+
+function languageForFile(filename: string, fallback: string): string {
+    return FENCE_LANGUAGES[path.extname(filename).toLowerCase()] || fallback;
+}
+
+// ========== XML tags ==========
+
+function formatXml(context: RaydocContext, options: OutputOptions, omitted: FunctionDefinition[]): string {
+    const lines: string[] = [context.partial ? '<context partial="true">' : '<context>'];
+
+    if (context.diagnostics && context.diagnostics.length > 0) {
+        lines.push('<diagnostics>');
+        for (const diagnostic of context.diagnostics) {
+            const source = diagnostic.source ? ` source="${escapeXml(diagnostic.source)}"` : '';
+            const code = diagnostic.code ? ` code="${escapeXml(diagnostic.code)}"` : '';
+            lines.push(`<diagnostic severity="${diagnostic.severity}"${source}${code} path="${escapeXml(diagnostic.filename)}" line="${diagnostic.startLine + 1}" column="${diagnostic.startCharacter + 1}" end_line="${diagnostic.endLine + 1}" end_column="${diagnostic.endCharacter + 1}">`);
+            lines.push(`<message>${escapeXml(diagnostic.message)}</message>`);
+            if (diagnostic.sourceLine !== undefined) {
+                lines.push(`<source_line>${escapeXml(diagnostic.sourceLine)}</source_line>`);
+            }
+            for (const related of diagnostic.relatedInformation) {
+                lines.push(`<related path="${escapeXml(related.filename)}" line="${related.line + 1}" column="${related.character + 1}">${escapeXml(related.message)}</related>`);
+            }
+            lines.push('</diagnostic>');
+        }
+        lines.push('</diagnostics>');
+    }
+
+    if (options.focusedLines && context.immediateContextLines) {
+        lines.push(`<focus_lines path="${escapeXml(context.filepath)}" line="${context.line + 1}">\n${cdata(context.immediateContextLines)}\n</focus_lines>`);
+    }
+
+    if (options.location) {
+        const folder = context.workspaceFolder ? ` workspace_folder="${escapeXml(context.workspaceFolder)}"` : '';
+        lines.push(`<location path="${escapeXml(context.filepath)}" line="${context.line + 1}"${folder} />`);
+    }
+
+    if (options.environment) {
+        const version = options.runtimeVersion && context.runtimeVersion ? ` version="${escapeXml(context.runtimeVersion)}"` : '';
+        lines.push(`<environment language="${escapeXml(context.languageId)}"${version} />`);
+    }
+
+    if (options.packages && context.packages) {
+        for (const manifest of context.packages) {
+            const packageName = manifest.name ? ` name="${escapeXml(manifest.name)}"` : '';
+            lines.push(`<packages manifest="${escapeXml(manifest.manifestPath)}"${packageName}>`);
+            for (const [name, dependency] of Object.entries(manifest.dependencies)) {
+                const attributes = [
+                    `name="${escapeXml(name)}"`,
+                    `version="${escapeXml(String(dependency.version))}"`,
+                    dependency.resolved ? `resolved="${escapeXml(dependency.resolved)}"` : '',
+                    dependency.extras?.length ? `extras="${escapeXml(dependency.extras.join(','))}"` : '',
+                    dependency.marker ? `marker="${escapeXml(dependency.marker)}"` : '',
+                    dependency.replacement ? `replacement="${escapeXml(dependency.replacement)}"` : '',
+                    dependency.indirect ? 'indirect="true"' : '',
+                ].filter(attribute => attribute);
+                lines.push(`<package ${attributes.join(' ')} />`);
+            }
+            lines.push('</packages>');
+        }
+    }
+
+    const definitionsToXml = (tag: string, kind: string, defns: FunctionDefinition[]) => {
+        lines.push(`<${tag}>`);
+        for (const defn of defns) {
+            const depth = defn.depth ? ` depth="${defn.depth}"` : '';
+            const callSites = defn.callSiteLines ? ` call_site_lines="${defn.callSiteLines.map(line => line + 1).join(',')}"` : '';
+            const detail = defn.detail ? ` detail="${escapeXml(defn.detail)}"` : '';
+            lines.push(
+                `<file path="${escapeXml(defn.filename)}" name="${escapeXml(defn.functionName)}" kind="${kind}" ` +
+                `start_line="${defn.startLine + 1}" end_line="${defn.endLine + 1}"${depth}${callSites}${detail}>\n${cdata(defn.functionText)}\n</file>`
+            );
+        }
+        lines.push(`</${tag}>`);
+    };
+
+    if (options.functionDefinition && context.functionDefns && context.functionDefns.length > 0) {
+        definitionsToXml('main_functions', 'main_function', context.functionDefns);
+    }
+
+    if (options.typeDefinitions && context.typeDefns && context.typeDefns.length > 0) {
+        definitionsToXml('type_definitions', 'type_definition', context.typeDefns);
+    }
+
+    if (options.fileTree && context.fileTree) {
+        lines.push(`<file_tree>\n${cdata(fileTreeToString(context.fileTree, '').trimEnd())}\n</file_tree>`);
+    }
+
+    if (options.referencedFunctions && context.referencedFunctions && context.referencedFunctions.length > 0) {
+        definitionsToXml('referenced_functions', 'referenced_function', context.referencedFunctions);
+    }
+
+    if (options.incomingCalls && context.incomingCalls && context.incomingCalls.length > 0) {
+        definitionsToXml('incoming_calls', 'caller', context.incomingCalls);
+    }
+
+    if (options.tests && context.tests && context.tests.length > 0) {
+        definitionsToXml('tests', 'test', context.tests);
+    }
+
+    if (options.gitHistory && context.git) {
+        lines.push('<git_history>');
+        if (context.git.diffHunks.length > 0) {
+            lines.push(`<uncommitted_changes>\n${cdata(context.git.diffHunks.join('\n'))}\n</uncommitted_changes>`);
+        }
+        for (const commit of context.git.commits) {
+            lines.push(`<commit hash="${escapeXml(commit.hash)}" date="${escapeXml(commit.authorDate)}">${escapeXml(commit.subject)}</commit>`);
+        }
+        if (context.git.blame.length > 0) {
+            lines.push(`<blame>\n${cdata(context.git.blame.map(blameLineToString).join('\n'))}\n</blame>`);
+        }
+        lines.push('</git_history>');
+    }
+
+    if (omitted.length > 0) {
+        lines.push('<omitted reason="token_budget">');
+        for (const defn of omitted) {
+            lines.push(`<item path="${escapeXml(defn.filename)}" name="${escapeXml(defn.functionName)}" tokens="${estimateDefinitionTokens(defn)}" />`);
+        }
+        lines.push('</omitted>');
+    }
+
+    if (options.systemMessage.trim() !== '') {
+        lines.push(`<system_message>\n${cdata(options.systemMessage)}\n</system_message>`);
+    }
+
+    lines.push('</context>');
+    return lines.join('\n') + '\n\n';
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+// Code, diffs and other multi-line text stay readable in CDATA; a "]]>" in them is split across two sections
+function cdata(text: string): string {
+    return `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+// ========== JSON ==========
+
+function formatJson(context: RaydocContext, options: OutputOptions, omitted: FunctionDefinition[]): string {
+    const definitionToJson = (defn: FunctionDefinition) => ({
+        name: defn.functionName,
+        file: defn.filename,
+        startLine: defn.startLine + 1,
+        endLine: defn.endLine + 1,
+        depth: defn.depth,
+        relevance: defn.relevance,
+        callSiteLines: defn.callSiteLines?.map(line => line + 1),
+        detail: defn.detail,
+        text: defn.functionText,
+    });
+
+    const document: Record<string, unknown> = {
+        partial: context.partial,
+        diagnostics: context.diagnostics?.map(diagnostic => ({
+            ...diagnostic,
+            startLine: diagnostic.startLine + 1,
+            startCharacter: diagnostic.startCharacter + 1,
+            endLine: diagnostic.endLine + 1,
+            endCharacter: diagnostic.endCharacter + 1,
+            relatedInformation: diagnostic.relatedInformation.map(related => ({
+                ...related,
+                line: related.line + 1,
+                character: related.character + 1,
+            })),
+        })),
+    };
+
+    if (options.focusedLines) {
+        document.focusLines = context.immediateContextLines;
+    }
+    if (options.location) {
+        document.workspaceFolder = context.workspaceFolder;
+        document.file = context.filepath;
+        document.line = context.line + 1;
+    }
+    if (options.environment) {
+        document.environment = {
+            language: context.languageId,
+            version: options.runtimeVersion ? context.runtimeVersion : undefined,
+        };
+    }
+    if (options.packages) {
+        document.packages = context.packages;
+    }
+    if (options.functionDefinition) {
+        document.functions = context.functionDefns?.map(definitionToJson);
+    }
+    if (options.typeDefinitions) {
+        document.typeDefinitions = context.typeDefns?.map(definitionToJson);
+    }
+    if (options.fileTree && context.fileTree) {
+        document.fileTree = fileTreeToJson(context.fileTree);
+    }
+    if (options.referencedFunctions) {
+        document.referencedFunctions = context.referencedFunctions?.map(definitionToJson);
+    }
+    if (options.incomingCalls) {
+        document.incomingCalls = context.incomingCalls?.map(definitionToJson);
+    }
+    if (options.tests) {
+        document.tests = context.tests?.map(definitionToJson);
+    }
+    if (options.gitHistory) {
+        document.git = context.git;
+    }
+    if (omitted.length > 0) {
+        document.omitted = omitted.map(defn => ({
+            name: defn.functionName,
+            file: defn.filename,
+            tokens: estimateDefinitionTokens(defn),
+        }));
+    }
+    if (options.systemMessage.trim() !== '') {
+        document.systemMessage = options.systemMessage;
+    }
+
+    return JSON.stringify(document, null, 2) + '\n\n';
+}
+
+function fileTreeToJson(node: Node): unknown {
+    return node.isDir
+        ? { name: node.name, children: (node.children || []).map(fileTreeToJson) }
+        : node.name;
+}
+
+// ========== Shared helpers ==========
+
+// Helper to name the package a manifest declares, e.g. "@acme/web (packages/web/package.json)"
+function manifestToString(manifest: PackageManifest): string {
+    return manifest.name ? `${manifest.name} (${manifest.manifestPath})` : manifest.manifestPath;
+}
+
+// Helper to show the manifest range next to the installed version, e.g. "^4.7.0 (resolved 4.8.1)"
+function packageVersionToString(dependency: PackageDependency): string {
+    let output = String(dependency.version);
+    if (dependency.resolved && dependency.resolved !== dependency.version) {
+        output += ` (resolved ${dependency.resolved})`;
+    }
+    return output + packageDetailsToString(dependency);
+}
+
+// Helper to show extras, markers and Go directives, e.g. " [socks]; python_version < "3.8""
+function packageDetailsToString(dependency: PackageDependency): string {
+    let output = '';
+    if (dependency.extras && dependency.extras.length > 0) {
+        output += ` [${dependency.extras.join(', ')}]`;
+    }
+    if (dependency.marker) {
+        output += `; ${dependency.marker}`;
+    }
+    if (dependency.replacement) {
+        output += ` => ${dependency.replacement}`;
+    }
+    if (dependency.indirect) {
+        output += ' // indirect';
+    }
+    return output;
+}
+
+// Helper to show a commit as "1a2b3c4d 2024-01-31 Fix the thing"
+function commitToString(commit: GitCommit): string {
+    return `${commit.hash.slice(0, 8)} ${commit.authorDate.slice(0, 10)} ${commit.subject}`;
+}
+
+// Helper to show a blamed line as "12: 1a2b3c4d (Jane Doe 2024-01-31) line text"
+function blameLineToString(blameLine: GitBlameLine): string {
+    return `${blameLine.line}: ${blameLine.hash.slice(0, 8)} (${blameLine.author} ${blameLine.authorDate}) ${blameLine.text}`;
+}
+
+// Helper to show a diagnostic with its source line and related information, e.g.
+// "error at src/a.ts:12:7 (ts 2322): Type 'string' is not assignable to type 'number'."
+function diagnosticToString(diagnostic: DiagnosticInfo): string {
+    let output = diagnosticHeaderToString(diagnostic);
+    if (diagnostic.sourceLine !== undefined) {
+        output += `\n${diagnosticSourceToString(diagnostic)}`;
+    }
+    for (const related of diagnostic.relatedInformation) {
+        output += `\nRelated: ${related.filename}:${related.line + 1}:${related.character + 1}: ${related.message}`;
+        if (related.sourceLine !== undefined) {
+            output += `\n    ${related.line + 1} | ${related.sourceLine}`;
+        }
+    }
+    return output;
+}
+
+function diagnosticHeaderToString(diagnostic: DiagnosticInfo): string {
+    const reporter = [diagnostic.source, diagnostic.code].filter(Boolean).join(' ');
+    const location = `${diagnostic.filename}:${diagnostic.startLine + 1}:${diagnostic.startCharacter + 1}`;
+    return `${diagnostic.severity} at ${location}${reporter ? ` (${reporter})` : ''}: ${diagnostic.message}`;
+}
+
+// Helper to mark the range of a diagnostic under its source line with "^"
+function diagnosticSourceToString(diagnostic: DiagnosticInfo): string {
+    const sourceLine = diagnostic.sourceLine || '';
+    const lineNumber = `>>> ${diagnostic.startLine + 1} | `;
+    const end = diagnostic.endLine === diagnostic.startLine ? diagnostic.endCharacter : sourceLine.length;
+    // Keep tabs so the markers line up with the source
+    const padding = sourceLine.slice(0, diagnostic.startCharacter).replace(/[^\t]/g, ' ');
+    const markers = '^'.repeat(Math.max(1, end - diagnostic.startCharacter));
+    return `${lineNumber}${sourceLine}\n${' '.repeat(lineNumber.length - 2)}| ${padding}${markers}`;
+}
+
+// Helper to label definitions that were reached through other references
+function hopsToString(defn: FunctionDefinition): string {
+    return defn.depth && defn.depth > 1 ? ` [${defn.depth} hops away]` : '';
+}
+
+// Helper to mark each call site in a caller (or failing line in a stack frame) with ">>>", like the focused lines
+function markCallSites(caller: FunctionDefinition): string {
+    const callSites = new Set(caller.callSiteLines || []);
+    return caller.functionText
+        .split('\n')
+        .map((line, i) => `${callSites.has(caller.lineNumbers ? caller.lineNumbers[i] : caller.startLine + i) ? '>>>' : '   '} ${line}`)
+        .join('\n');
+}
+
+// Helper to say a definition was cut down, e.g. " [signature only]"
+function detailToString(defn: FunctionDefinition): string {
+    switch (defn.detail) {
+        case 'signature':
+            return ' [signature only]';
+        case 'outline':
+            return ' [outline]';
+        default:
+            return '';
+    }
+}
+
+// Helper to recursively print the file tree
+function fileTreeToString(node: Node, indent: string): string {
+    let output = `${indent}${node.name}${node.isDir ? '/' : ''}\n`;
+    if (node.children) {
+        for (const child of node.children) {
+            output += fileTreeToString(child, indent + '    ');
+        }
+    }
+    return output;
+}
+
+registerFormatter('text', formatText);
+registerFormatter('markdown', formatMarkdown);
+registerFormatter('xml', formatXml);
+registerFormatter('json', formatJson);
@@ -1,31 +1,33 @@
-import * as vscode from 'vscode';
-import { DocumentSymbol, SymbolKind } from 'vscode';
+import type * as vscode from 'vscode';
+import type { DocumentSymbol } from 'vscode';
 import { FunctionDefinition } from './types';
+import { getDocumentSymbols } from './symbolCache';
+import { raceCancellation } from './progress';
+import { getLanguageProvider } from './provider';
 
 export async function getFunctionDefinition(
     doc: vscode.TextDocument,
     position: vscode.Position,
     findTypes = false,
     expandToFunction = false,
+    innermost = false,
+    token?: vscode.CancellationToken,
 ): Promise<FunctionDefinition | undefined> {
-    // 1) Get all the symbols in the document
-    let symbols = await vscode.commands.executeCommand<DocumentSymbol[]>(
-        'vscode.executeDocumentSymbolProvider',
-        doc.uri
-    );
+    // 1) Get all the symbols in the document, flattened to make processing easier and more standardized
+    const symbols = await raceCancellation(getDocumentSymbols(doc), token, undefined);
 
     // If we didn't get any symbols, we can't proceed
     if (!symbols) {
         return undefined;
     }
 
-    // Flatten the symbols to make processing easier and more standardized
-    symbols = flattenDocumentSymbols(symbols);
-
     // 2) Find the symbol that contains the cursor position
     let functionSymbol: DocumentSymbol | undefined;
 
-    if (expandToFunction) {
+    if (expandToFunction && innermost) {
+        // The closest enclosing function, e.g. a test case rather than its whole suite
+        functionSymbol = getSmallestFunctionSymbolForPosition(doc, symbols, position, findTypes);
+    } else if (expandToFunction) {
         // Use the existing behavior to get the largest function symbol
         functionSymbol = getLargestFunctionSymbolForPosition(doc, symbols, position, findTypes);
     } else {
@@ -42,44 +44,55 @@ export async function getFunctionDefinition(
     return functionDefinitionByLanguage(doc, functionSymbol);
 }
 
-function flattenDocumentSymbols(symbols: DocumentSymbol[]): DocumentSymbol[] {
-    const flattenedSymbols: DocumentSymbol[] = [];
+function getLargestFunctionSymbolForPosition(
+    doc: vscode.TextDocument,
+    symbols: DocumentSymbol[],
+    position: vscode.Position,
+    findTypes: boolean,
+): DocumentSymbol | undefined {
+    let largestFunctionSymbol: DocumentSymbol | undefined;
 
     for (const symbol of symbols) {
-        flattenedSymbols.push(symbol);
-        if (symbol.children) {
-            flattenedSymbols.push(...flattenDocumentSymbols(symbol.children));
+        if (
+            isValidSymbol(doc, symbols, symbol, findTypes) &&
+            symbol.range.contains(position)
+        ) {
+            if (!largestFunctionSymbol || isLargerRange(symbol.range, largestFunctionSymbol.range)) {
+                largestFunctionSymbol = symbol;
+            }
         }
     }
 
-    return flattenedSymbols;
+    return largestFunctionSymbol;
 }
 
-function getLargestFunctionSymbolForPosition(
+function getSmallestFunctionSymbolForPosition(
     doc: vscode.TextDocument,
     symbols: DocumentSymbol[],
     position: vscode.Position,
     findTypes: boolean,
 ): DocumentSymbol | undefined {
-    let largestFunctionSymbol: DocumentSymbol | undefined;
+    let smallestFunctionSymbol: DocumentSymbol | undefined;
 
     for (const symbol of symbols) {
         if (
             isValidSymbol(doc, symbols, symbol, findTypes) &&
             symbol.range.contains(position)
         ) {
-            if (!largestFunctionSymbol || isLargerRange(symbol.range, largestFunctionSymbol.range)) {
-                largestFunctionSymbol = symbol;
+            if (!smallestFunctionSymbol || isSmallestRange(symbol.range, smallestFunctionSymbol.range)) {
+                smallestFunctionSymbol = symbol;
             }
         }
     }
 
-    return largestFunctionSymbol;
+    return smallestFunctionSymbol;
 }
 
 function isInsideEnum(symbol: DocumentSymbol, symbols: DocumentSymbol[]): boolean {
+    const { SymbolKind } = getLanguageProvider().types;
+    // The enum itself isn't inside an enum, so it can still be a type (e.g. in Rust or Java)
     return symbols.some(parentSymbol =>
-        parentSymbol.kind === SymbolKind.Enum && parentSymbol.range.contains(symbol.range)
+        parentSymbol !== symbol && parentSymbol.kind === SymbolKind.Enum && parentSymbol.range.contains(symbol.range)
     );
 }
 
@@ -169,6 +182,21 @@ function isFunctionAndType(doc: vscode.TextDocument, symbol: DocumentSymbol): {
         case 'csharp':
             ({ isFunction, isType } = isFunctionAndTypeCsharp(symbol));
             break;
+        case 'rust':
+            ({ isFunction, isType } = isFunctionAndTypeRust(symbol));
+            break;
+        case 'java':
+            ({ isFunction, isType } = isFunctionAndTypeJava(symbol));
+            break;
+        case 'kotlin':
+            ({ isFunction, isType } = isFunctionAndTypeKotlin(symbol));
+            break;
+        case 'ruby':
+            ({ isFunction, isType } = isFunctionAndTypeRuby(symbol));
+            break;
+        case 'php':
+            ({ isFunction, isType } = isFunctionAndTypePhp(symbol));
+            break;
         default:
             break;
     }
@@ -177,12 +205,14 @@ function isFunctionAndType(doc: vscode.TextDocument, symbol: DocumentSymbol): {
 }
 
 function isFunctionAndTypePython(symbol: DocumentSymbol): { isFunction: boolean, isType: boolean } {
+    const { SymbolKind } = getLanguageProvider().types;
     const isFunction = symbol.kind === SymbolKind.Function || symbol.kind === SymbolKind.Method || symbol.kind === SymbolKind.Constructor;
     const isType = symbol.kind === SymbolKind.Class || symbol.kind === SymbolKind.Interface;
     return { isFunction, isType };
 }
 
 function isArrowFunction(doc: vscode.TextDocument, symbol: DocumentSymbol): boolean {
+    const { SymbolKind } = getLanguageProvider().types;
     if (symbol.kind !== SymbolKind.Variable) {
         return false;
     }
@@ -210,6 +240,7 @@ function isArrowFunction(doc: vscode.TextDocument, symbol: DocumentSymbol): bool
 }
 
 function isTypeDefinition(doc: vscode.TextDocument, symbol: DocumentSymbol): boolean {
+    const { SymbolKind } = getLanguageProvider().types;
     if (symbol.kind !== SymbolKind.Variable) {
         return false;
     }
@@ -220,6 +251,7 @@ function isTypeDefinition(doc: vscode.TextDocument, symbol: DocumentSymbol): boo
 }
 
 function isFunctionAndTypeTypescript(symbol: DocumentSymbol, doc: vscode.TextDocument): { isFunction: boolean, isType: boolean } {
+    const { SymbolKind } = getLanguageProvider().types;
     const isFunction =
         symbol.kind === SymbolKind.Function ||
         symbol.kind === SymbolKind.Method ||
@@ -233,6 +265,7 @@ function isFunctionAndTypeTypescript(symbol: DocumentSymbol, doc: vscode.TextDoc
 }
 
 function isFunctionAndTypeJavascript(symbol: DocumentSymbol, doc: vscode.TextDocument): { isFunction: boolean, isType: boolean } {
+    const { SymbolKind } = getLanguageProvider().types;
     const isFunction =
         symbol.kind === SymbolKind.Function ||
         symbol.kind === SymbolKind.Method ||
@@ -243,23 +276,83 @@ function isFunctionAndTypeJavascript(symbol: DocumentSymbol, doc: vscode.TextDoc
 }
 
 function isFunctionAndTypeGo(symbol: DocumentSymbol): { isFunction: boolean, isType: boolean } {
+    const { SymbolKind } = getLanguageProvider().types;
     const isFunction = symbol.kind === SymbolKind.Function || symbol.kind === SymbolKind.Method || symbol.kind === SymbolKind.Constructor;
     const isType = symbol.kind === SymbolKind.Struct || symbol.kind === SymbolKind.Interface;
     return { isFunction, isType };
 }
 
 function isFunctionAndTypeCpp(symbol: DocumentSymbol): { isFunction: boolean, isType: boolean } {
+    const { SymbolKind } = getLanguageProvider().types;
     const isFunction = symbol.kind === SymbolKind.Function || symbol.kind === SymbolKind.Method || symbol.kind === SymbolKind.Constructor;
     const isType = symbol.kind === SymbolKind.Class || symbol.kind === SymbolKind.Interface || symbol.kind === SymbolKind.Struct;
     return { isFunction, isType };
 }
 
 function isFunctionAndTypeCsharp(symbol: DocumentSymbol): { isFunction: boolean, isType: boolean } {
+    const { SymbolKind } = getLanguageProvider().types;
     const isFunction = symbol.kind === SymbolKind.Function || symbol.kind === SymbolKind.Method || symbol.kind === SymbolKind.Constructor;
     const isType = symbol.kind === SymbolKind.Class || symbol.kind === SymbolKind.Interface || symbol.kind === SymbolKind.Struct;
     return { isFunction, isType };
 }
 
+function isFunctionAndTypeRust(symbol: DocumentSymbol): { isFunction: boolean, isType: boolean } {
+    const { SymbolKind } = getLanguageProvider().types;
+    const isFunction = symbol.kind === SymbolKind.Function || symbol.kind === SymbolKind.Method;
+    // rust-analyzer reports impl blocks as objects, traits as interfaces and type aliases as type parameters
+    const isType =
+        symbol.kind === SymbolKind.Struct ||
+        symbol.kind === SymbolKind.Enum ||
+        symbol.kind === SymbolKind.Interface ||
+        symbol.kind === SymbolKind.Object ||
+        symbol.kind === SymbolKind.TypeParameter;
+    return { isFunction, isType };
+}
+
+function isFunctionAndTypeJava(symbol: DocumentSymbol): { isFunction: boolean, isType: boolean } {
+    const { SymbolKind } = getLanguageProvider().types;
+    const isFunction = symbol.kind === SymbolKind.Function || symbol.kind === SymbolKind.Method || symbol.kind === SymbolKind.Constructor;
+    // Records are reported as classes or structs depending on the language server version
+    const isType =
+        symbol.kind === SymbolKind.Class ||
+        symbol.kind === SymbolKind.Interface ||
+        symbol.kind === SymbolKind.Enum ||
+        symbol.kind === SymbolKind.Struct;
+    return { isFunction, isType };
+}
+
+function isFunctionAndTypeKotlin(symbol: DocumentSymbol): { isFunction: boolean, isType: boolean } {
+    const { SymbolKind } = getLanguageProvider().types;
+    const isFunction = symbol.kind === SymbolKind.Function || symbol.kind === SymbolKind.Method || symbol.kind === SymbolKind.Constructor;
+    // `object` declarations and companion objects are types too
+    const isType =
+        symbol.kind === SymbolKind.Class ||
+        symbol.kind === SymbolKind.Interface ||
+        symbol.kind === SymbolKind.Enum ||
+        symbol.kind === SymbolKind.Struct ||
+        symbol.kind === SymbolKind.Object;
+    return { isFunction, isType };
+}
+
+function isFunctionAndTypeRuby(symbol: DocumentSymbol): { isFunction: boolean, isType: boolean } {
+    const { SymbolKind } = getLanguageProvider().types;
+    const isFunction = symbol.kind === SymbolKind.Function || symbol.kind === SymbolKind.Method || symbol.kind === SymbolKind.Constructor;
+    const isType = symbol.kind === SymbolKind.Class || symbol.kind === SymbolKind.Module;
+    return { isFunction, isType };
+}
+
+function isFunctionAndTypePhp(symbol: DocumentSymbol): { isFunction: boolean, isType: boolean } {
+    const { SymbolKind } = getLanguageProvider().types;
+    const isFunction = symbol.kind === SymbolKind.Function || symbol.kind === SymbolKind.Method || symbol.kind === SymbolKind.Constructor;
+    // Traits are reported as classes or interfaces depending on the language server
+    const isType =
+        symbol.kind === SymbolKind.Class ||
+        symbol.kind === SymbolKind.Interface ||
+        symbol.kind === SymbolKind.Enum ||
+        symbol.kind === SymbolKind.Struct;
+    return { isFunction, isType };
+}
+
 // Helper function to determine if range1 is larger than range2
 function isLargerRange(range1: vscode.Range, range2: vscode.Range): boolean {
     const size1 = getRangeSize(range1);
@@ -303,6 +396,16 @@ function functionDefinitionByLanguage(
             return getFunctionDefinitionCpp(doc, functionSymbol);
         case 'csharp':
             return getFunctionDefinitionCsharp(doc, functionSymbol);
+        case 'rust':
+            return getFunctionDefinitionRust(doc, functionSymbol);
+        case 'java':
+            return getFunctionDefinitionJava(doc, functionSymbol);
+        case 'kotlin':
+            return getFunctionDefinitionJava(doc, functionSymbol);
+        case 'ruby':
+            return getFunctionDefinitionRuby(doc, functionSymbol);
+        case 'php':
+            return getFunctionDefinitionPhp(doc, functionSymbol);
         default:
             return undefined;
     }
@@ -314,7 +417,8 @@ function getFunctionDefinitionPython(
 ): FunctionDefinition {
     return {
         functionName: symbol.name,
-        filename: vscode.workspace.asRelativePath(doc.fileName),
+        filename: getLanguageProvider().asRelativePath(doc.fileName),
+        uri: doc.uri,
         functionText: doc.getText(symbol.range),
         functionSymbol: symbol,
         startLine: symbol.range.start.line,
@@ -328,7 +432,8 @@ function getFunctionDefinitionTypescript(
 ): FunctionDefinition {
     return {
         functionName: symbol.name,
-        filename: vscode.workspace.asRelativePath(doc.fileName),
+        filename: getLanguageProvider().asRelativePath(doc.fileName),
+        uri: doc.uri,
         functionText: doc.getText(symbol.range),
         functionSymbol: symbol,
         startLine: symbol.range.start.line,
@@ -342,7 +447,8 @@ function getFunctionDefinitionJavascript(
 ): FunctionDefinition {
     return {
         functionName: symbol.name,
-        filename: vscode.workspace.asRelativePath(doc.fileName),
+        filename: getLanguageProvider().asRelativePath(doc.fileName),
+        uri: doc.uri,
         functionText: doc.getText(symbol.range),
         functionSymbol: symbol,
         startLine: symbol.range.start.line,
@@ -356,7 +462,8 @@ function getFunctionDefinitionGo(
 ): FunctionDefinition {
     return {
         functionName: symbol.name,
-        filename: vscode.workspace.asRelativePath(doc.fileName),
+        filename: getLanguageProvider().asRelativePath(doc.fileName),
+        uri: doc.uri,
         functionText: doc.getText(symbol.range),
         functionSymbol: symbol,
         startLine: symbol.range.start.line,
@@ -370,7 +477,8 @@ function getFunctionDefinitionCpp(
 ): FunctionDefinition {
     return {
         functionName: symbol.name,
-        filename: vscode.workspace.asRelativePath(doc.fileName),
+        filename: getLanguageProvider().asRelativePath(doc.fileName),
+        uri: doc.uri,
         functionText: doc.getText(symbol.range),
         functionSymbol: symbol,
         startLine: symbol.range.start.line,
@@ -384,7 +492,68 @@ function getFunctionDefinitionCsharp(
 ): FunctionDefinition {
     return {
         functionName: symbol.name,
-        filename: vscode.workspace.asRelativePath(doc.fileName),
+        filename: getLanguageProvider().asRelativePath(doc.fileName),
+        uri: doc.uri,
+        functionText: doc.getText(symbol.range),
+        functionSymbol: symbol,
+        startLine: symbol.range.start.line,
+        endLine: symbol.range.end.line,
+    };
+}
+
+function getFunctionDefinitionRust(
+    doc: vscode.TextDocument,
+    symbol: DocumentSymbol
+): FunctionDefinition {
+    return {
+        functionName: symbol.name,
+        filename: getLanguageProvider().asRelativePath(doc.fileName),
+        uri: doc.uri,
+        functionText: doc.getText(symbol.range),
+        functionSymbol: symbol,
+        startLine: symbol.range.start.line,
+        endLine: symbol.range.end.line,
+    };
+}
+
+function getFunctionDefinitionJava(
+    doc: vscode.TextDocument,
+    symbol: DocumentSymbol
+): FunctionDefinition {
+    return {
+        functionName: symbol.name,
+        filename: getLanguageProvider().asRelativePath(doc.fileName),
+        uri: doc.uri,
+        functionText: doc.getText(symbol.range),
+        functionSymbol: symbol,
+        startLine: symbol.range.start.line,
+        endLine: symbol.range.end.line,
+    };
+}
+
+function getFunctionDefinitionRuby(
+    doc: vscode.TextDocument,
+    symbol: DocumentSymbol
+): FunctionDefinition {
+    return {
+        functionName: symbol.name,
+        filename: getLanguageProvider().asRelativePath(doc.fileName),
+        uri: doc.uri,
+        functionText: doc.getText(symbol.range),
+        functionSymbol: symbol,
+        startLine: symbol.range.start.line,
+        endLine: symbol.range.end.line,
+    };
+}
+
+function getFunctionDefinitionPhp(
+    doc: vscode.TextDocument,
+    symbol: DocumentSymbol
+): FunctionDefinition {
+    return {
+        functionName: symbol.name,
+        filename: getLanguageProvider().asRelativePath(doc.fileName),
+        uri: doc.uri,
         functionText: doc.getText(symbol.range),
         functionSymbol: symbol,
         startLine: symbol.range.start.line,
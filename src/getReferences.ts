@@ -1,220 +1,163 @@
-import * as vscode from 'vscode';
+import type * as vscode from 'vscode';
 
 import { FunctionDefinition } from './types';
 import { getFunctionDefinition } from './functions';
-
+import { getDefinitionLocations } from './symbolCache';
+import { raceCancellation } from './progress';
+import { getLanguageProvider } from './provider';
+
+export type FunctionReferences = {
+    typeDefns: FunctionDefinition[];
+    referencedFunctions: FunctionDefinition[];
+};
+
+/**
+ * Find the types and functions the given function refers to, in a single pass over its words.
+ * Once the token is cancelled, only the references found so far are returned.
+ */
 export async function getReferencesForFunction(
     document: vscode.TextDocument,
     functionDefinition: FunctionDefinition,
-    returnTypes = true,
-): Promise<FunctionDefinition[]> {
-    const functionTypeDefinitions = new Map<String, FunctionDefinition>();
-
-    // Get the types for each line in the function
-    for (let i = functionDefinition.startLine; i <= functionDefinition.endLine; i++) {
-        const lineTypeDefinitions = await getTypeDefinitionsForLine(document, new vscode.Position(i, 0), functionDefinition, returnTypes);
-        for (const typeDef of lineTypeDefinitions) {
-            if (typeDef.functionName === functionDefinition.functionName && typeDef.filename === functionDefinition.filename) {
-                continue;
-            }
-
-            const key = `${typeDef.functionName}-${typeDef.filename}`;
-            if (!functionTypeDefinitions.has(key)) {
-                functionTypeDefinitions.set(key, typeDef);
+    token?: vscode.CancellationToken,
+): Promise<FunctionReferences> {
+    // Collect the definition locations of every word first, so each location is only resolved once
+    const locations = new Map<string, vscode.Location>();
+    for (let i = functionDefinition.startLine; i <= functionDefinition.endLine && !token?.isCancellationRequested; i++) {
+        for (const position of getWordPositions(document, i)) {
+            for (const location of await raceCancellation(getDefinitionLocations(document, position), token, [])) {
+                if (isLocationInsideFunction(location, document, functionDefinition)) {
+                    continue;
+                }
+                const key = `${location.uri.toString()}:${location.range.start.line}:${location.range.start.character}`;
+                locations.set(key, location);
             }
         }
     }
 
-    return Array.from(functionTypeDefinitions.values());
-}
-
-async function getTypeDefinitionsForLine(
-    document: vscode.TextDocument,
-    position: vscode.Position,
-    functionDefinition: FunctionDefinition,
-    returnTypes: boolean,
-): Promise<FunctionDefinition[]> {
-    const typeDefinitions = new Map<string, FunctionDefinition>();
-    const line = document.lineAt(position.line).text;
-
-    // Change all non-alphabet characters to spaces
-    const words = line.replace(/[^a-zA-Z]/g, ' ');
+    const typeDefns = new Map<string, FunctionDefinition>();
+    const referencedFunctions = new Map<string, FunctionDefinition>();
+    const isSelf = (defn: FunctionDefinition) =>
+        defn.functionName === functionDefinition.functionName && defn.filename === functionDefinition.filename;
 
-    // Find the position of each word in the line
-    const positions: vscode.Position[] = [];
-    let inWord = false;
-    for (let i = 0; i < words.length; i++) {
-        const character = words[i];
-        if (character === ' ') {
-            inWord = false;
-            continue;
+    for (const location of locations.values()) {
+        if (token?.isCancellationRequested) {
+            break;
         }
-
-        if (!inWord) {
-            positions.push(new vscode.Position(position.line, i));
-            inWord = true;
+        if (!isInWorkspace(location.uri.fsPath) || isIgnoreLocation(location.uri.fsPath)) {
+            continue;
         }
-    }
 
-    for (const pos of positions) {
-        const typeInfo = await getTypeDefinitionsForPosition(document, pos, functionDefinition, returnTypes);
-        if (typeInfo) {
-            for (const typeDef of typeInfo) {
-                const key = `${typeDef.functionName}-${typeDef.filename}`;
-                typeDefinitions.set(key, typeDef);
+        const doc = await getLanguageProvider().openTextDocument(location.uri);
+        for (const [map, findTypes] of [[typeDefns, true], [referencedFunctions, false]] as const) {
+            const defn = await getFunctionDefinition(doc, location.range.start, findTypes, false, false, token);
+            if (!defn || isSelf(defn)) {
+                continue;
+            }
+            const key = `${defn.functionName}-${defn.filename}`;
+            if (!map.has(key)) {
+                map.set(key, defn);
             }
         }
     }
 
-    // Return the unique type definitions
-    return Array.from(typeDefinitions.values());
+    return {
+        typeDefns: Array.from(typeDefns.values()),
+        referencedFunctions: Array.from(referencedFunctions.values()),
+    };
 }
 
-async function getTypeDefinitionsForPosition(
+/**
+ * Walk the reference graph breadth-first, starting from the given function: the references of the
+ * function are one hop away, their references are two hops away, and so on up to maxDepth.
+ * Types and functions are both followed, so a type used by a called function is found too, and
+ * maxNodes caps the two together. Each returned definition records its hop distance in `depth`.
+ */
+export async function getTransitiveReferences(
     document: vscode.TextDocument,
-    position: vscode.Position,
     functionDefinition: FunctionDefinition,
-    returnTypes: boolean,
-): Promise<FunctionDefinition[]> {
-    const typesDefinitions: FunctionDefinition[] = [];
-
-    const isLocationInsideFunction = (location: vscode.Location | undefined): boolean => {
-        if (!location || !location.range) { return false; } // Ensure location and range exist
-
-        const { startLine, endLine } = functionDefinition;
-        const locationStart = location.range.start.line;
-        const locationEnd = location.range.end.line;
-
-        return locationStart >= startLine && locationEnd <= endLine;
-    };
-
-    const getFilteredLocations = async (command: string): Promise<vscode.Location[]> => {
-        let locations = await vscode.commands.executeCommand<vscode.Location[] | undefined>(
-            command,
-            document.uri,
-            position
-        );
-
-        return (locations || []).filter(loc => loc && loc.range && !isLocationInsideFunction(loc));
-    };
-
-    // Convert mixed location array to Location[] for compatibility
-    let typeLocations = await getAllDefinitions(document, position);
-    let locationArray = typeLocations.map(loc => {
-        if ('targetUri' in loc) {
-            // This is a LocationLink
-            return new vscode.Location(loc.targetUri, loc.targetRange);
+    maxDepth = 1,
+    maxNodes = 50,
+    token?: vscode.CancellationToken,
+): Promise<FunctionReferences> {
+    // A type and a function can share a name, e.g. a class and its factory, so keep them apart
+    const getKey = (kind: keyof FunctionReferences, defn: FunctionDefinition) => `${kind}:${defn.functionName}-${defn.filename}`;
+    const visited = new Set<string>([getKey('typeDefns', functionDefinition), getKey('referencedFunctions', functionDefinition)]);
+    const found: FunctionReferences = { typeDefns: [], referencedFunctions: [] };
+    let foundCount = 0;
+    let frontier: { doc: vscode.TextDocument, defn: FunctionDefinition }[] = [{ doc: document, defn: functionDefinition }];
+
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0 && !token?.isCancellationRequested; depth++) {
+        const nextFrontier: { doc: vscode.TextDocument, defn: FunctionDefinition }[] = [];
+
+        for (const node of frontier) {
+            const references = await getReferencesForFunction(node.doc, node.defn, token);
+            for (const kind of ['typeDefns', 'referencedFunctions'] as const) {
+                for (const reference of references[kind]) {
+                    const key = getKey(kind, reference);
+                    // Skip anything we've already seen so cycles don't expand forever
+                    if (visited.has(key)) {
+                        continue;
+                    }
+                    visited.add(key);
+
+                    reference.depth = depth;
+                    found[kind].push(reference);
+                    if (++foundCount >= maxNodes) {
+                        return found;
+                    }
+
+                    if (depth < maxDepth) {
+                        const doc = await getLanguageProvider().openTextDocument(reference.uri);
+                        nextFrontier.push({ doc, defn: reference });
+                    }
+                }
+            }
         }
-        // This is already a Location
-        return loc;
-    });
 
-    typesDefinitions.push(...await getTypeDefinitionFromLocations(locationArray, returnTypes));
-    
-
-    return typesDefinitions;
-}
+        frontier = nextFrontier;
+    }
 
-async function getAllDefinitions(
-    document: vscode.TextDocument,
-    position: vscode.Position
-): Promise<(vscode.Location | vscode.LocationLink)[]> {
-    // Use the executeDefinitionProvider command to get results from all providers
-    const definitionResults = await vscode.commands.executeCommand<(vscode.Location | vscode.LocationLink)[]>(
-        'vscode.executeDefinitionProvider', 
-        document.uri, 
-        position
-    ) || [];
-    
-    // Get declaration results as fallback/additional sources
-    const declarationResults = await vscode.commands.executeCommand<(vscode.Location | vscode.LocationLink)[]>(
-        'vscode.executeDeclarationProvider', 
-        document.uri, 
-        position
-    ) || [];
-    
-    // Get type definition results
-    const typeDefinitionResults = await vscode.commands.executeCommand<(vscode.Location | vscode.LocationLink)[]>(
-        'vscode.executeTypeDefinitionProvider', 
-        document.uri, 
-        position
-    ) || [];
-    
-    // Combine all results
-    const allResults = [
-        ...definitionResults,
-        ...declarationResults,
-        ...typeDefinitionResults
-    ];
-    
-    // Remove duplicates
-    return removeDuplicateLocations(allResults);
+    return found;
 }
 
-// Helper function to remove duplicate locations
-function removeDuplicateLocations(
-    locations: (vscode.Location | vscode.LocationLink)[]
-): (vscode.Location | vscode.LocationLink)[] {
-    const uniqueLocations = new Map<string, vscode.Location | vscode.LocationLink>();
-    
-    locations.forEach(location => {
-        let uri: vscode.Uri;
-        let range: vscode.Range;
-        
-        if (location instanceof vscode.Location) {
-            uri = location.uri;
-            range = location.range;
-        } else {
-            // LocationLink case
-            uri = location.targetUri;
-            range = location.targetRange;
-        }
-        
-        const key = `${uri.toString()}:${range.start.line}:${range.start.character}:${range.end.line}:${range.end.character}`;
-        
-        if (!uniqueLocations.has(key)) {
-            uniqueLocations.set(key, location);
-        }
-    });
-    
-    return Array.from(uniqueLocations.values());
-}
+// The start of each word on the line
+function getWordPositions(document: vscode.TextDocument, line: number): vscode.Position[] {
+    // Change all non-alphabet characters to spaces
+    const words = document.lineAt(line).text.replace(/[^a-zA-Z]/g, ' ');
 
-async function getTypeDefinitionFromLocations(
-    locations: vscode.Location[],
-    returnTypes: boolean
-): Promise<FunctionDefinition[]> {
-    const typeDefinitions: FunctionDefinition[] = [];
-    for (const location of locations) {
-        if (!location.uri || !isInWorkspace(location.uri.fsPath) || isIgnoreLocation(location.uri.fsPath)) {
+    const { Position } = getLanguageProvider().types;
+    const positions: vscode.Position[] = [];
+    let inWord = false;
+    for (let i = 0; i < words.length; i++) {
+        if (words[i] === ' ') {
+            inWord = false;
             continue;
         }
 
-        const doc = await vscode.workspace.openTextDocument(location.uri);
-
-        const functionDefinition = await getFunctionDefinition(doc, location.range.start, returnTypes);
-
-        if (!functionDefinition) {
-            continue;
+        if (!inWord) {
+            positions.push(new Position(line, i));
+            inWord = true;
         }
-
-        typeDefinitions.push(functionDefinition);
     }
-
-    return typeDefinitions;
+    return positions;
 }
 
-function isInWorkspace(fsPath: string): boolean {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders) {
-        return false; // No workspace open
-    }
+function isLocationInsideFunction(
+    location: vscode.Location,
+    document: vscode.TextDocument,
+    functionDefinition: FunctionDefinition,
+): boolean {
+    return location.uri.toString() === document.uri.toString() &&
+        location.range.start.line >= functionDefinition.startLine &&
+        location.range.end.line <= functionDefinition.endLine;
+}
 
-    return workspaceFolders.some(folder => fsPath.startsWith(folder.uri.fsPath));
+export function isInWorkspace(fsPath: string): boolean {
+    return getLanguageProvider().workspaceFolders().some(folder => fsPath.startsWith(folder.uri.fsPath));
 }
 
-function isIgnoreLocation(fsPath: string): boolean {
-    const config = vscode.workspace.getConfiguration("raydoc-context");
+export function isIgnoreLocation(fsPath: string): boolean {
+    const config = getLanguageProvider().getConfiguration("raydoc-context");
     const ignoreTypePaths: string[] = config.get("ignoreTypePaths", []);
 
     return ignoreTypePaths.some(path => fsPath.includes(path));
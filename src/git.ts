@@ -0,0 +1,284 @@
+import type * as vscode from 'vscode';
+import * as cp from 'child_process';
+import * as path from 'path';
+import * as util from 'util';
+
+import { FunctionDefinition, GitBlameLine, GitCommit, GitHistory } from './types';
+import { getLanguageProvider } from './provider';
+import { raceCancellation } from './progress';
+
+// The parts of the built-in vscode.git extension API that we use
+type GitRepository = {
+    rootUri: vscode.Uri;
+    diffWithHEAD(path: string): Promise<string>;
+    blame(path: string): Promise<string>;
+    log(options?: { maxEntries?: number, path?: string }): Promise<{
+        hash: string;
+        message: string;
+        authorDate?: Date;
+    }[]>;
+};
+
+type GitAPI = {
+    getRepository(uri: vscode.Uri): GitRepository | null;
+};
+
+const execFilePromise = util.promisify(cp.execFile);
+
+/**
+ * Gather the uncommitted changes, recent commits and blame for the main functions.
+ * Returns undefined when the document isn't in a git repository or git isn't available.
+ * Cancelling the token kills the git processes that are still running.
+ */
+export async function getGitHistory(
+    doc: vscode.TextDocument,
+    functionDefns: FunctionDefinition[],
+    selection: vscode.Selection,
+    maxCommits = 5,
+    token?: vscode.CancellationToken,
+): Promise<GitHistory | undefined> {
+    if (doc.uri.scheme !== 'file' || token?.isCancellationRequested) {
+        return undefined;
+    }
+
+    const abort = new AbortController();
+    const cancelled = token?.onCancellationRequested(() => abort.abort());
+    const git: Git = {
+        run: (cwd, args) => runGit(cwd, args, abort.signal),
+        // The vscode.git extension can't be stopped, so a cancelled gather just stops waiting for it
+        ask: (promise, fallback) => raceCancellation(promise, token, fallback),
+    };
+
+    try {
+        const repository = await getRepository(doc.uri);
+        const root = repository?.rootUri.fsPath ?? await git.run(path.dirname(doc.uri.fsPath), ['rev-parse', '--show-toplevel']);
+        if (!root) {
+            return undefined;
+        }
+
+        const filePath = doc.uri.fsPath;
+        const relativePath = path.relative(root.trim(), filePath).split(path.sep).join('/');
+        const ranges = functionDefns
+            .filter(fn => fn.uri.fsPath === filePath)
+            .map(fn => ({ start: fn.startLine + 1, end: fn.endLine + 1 }));
+
+        const [diffHunks, commits, blame] = await Promise.all([
+            getDiffHunks(git, repository, root.trim(), relativePath, filePath, ranges),
+            getCommits(git, repository, root.trim(), relativePath, filePath, ranges, maxCommits),
+            getBlame(git, repository, root.trim(), relativePath, filePath, selection.start.line + 1, selection.end.line + 1),
+        ]);
+
+        if (diffHunks.length === 0 && commits.length === 0 && blame.length === 0) {
+            return undefined;
+        }
+        return { diffHunks, commits, blame };
+    } finally {
+        cancelled?.dispose();
+    }
+}
+
+async function getRepository(uri: vscode.Uri): Promise<GitRepository | undefined> {
+    try {
+        const extension = getLanguageProvider().getExtension('vscode.git');
+        if (!extension) {
+            return undefined;
+        }
+        const gitExtension = extension.isActive ? extension.exports : await extension.activate();
+        if (!gitExtension?.enabled) {
+            return undefined;
+        }
+        const api: GitAPI = gitExtension.getAPI(1);
+        return api.getRepository(uri) ?? undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+// Runs the git binary and asks the vscode.git extension, both giving up once the gather is cancelled
+type Git = {
+    run(cwd: string, args: string[]): Promise<string | undefined>;
+    ask<T>(promise: Promise<T>, fallback: T): Promise<T>;
+};
+
+async function runGit(cwd: string, args: string[], signal?: AbortSignal): Promise<string | undefined> {
+    try {
+        // Aborting kills the process, e.g. a `git log -L` that is still walking a long history
+        const { stdout } = await execFilePromise('git', args, { cwd, maxBuffer: 10 * 1024 * 1024, signal });
+        return stdout;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Keep the hunks of the uncommitted diff (working tree against HEAD) that overlap the given line ranges.
+ */
+async function getDiffHunks(
+    git: Git,
+    repository: GitRepository | undefined,
+    root: string,
+    relativePath: string,
+    filePath: string,
+    ranges: { start: number, end: number }[],
+): Promise<string[]> {
+    let diff: string | undefined;
+    try {
+        diff = repository && await git.ask(repository.diffWithHEAD(filePath), undefined);
+    } catch {
+        diff = undefined;
+    }
+    diff = diff ?? await git.run(root, ['diff', '--no-color', 'HEAD', '--', relativePath]);
+    if (!diff) {
+        return [];
+    }
+
+    const hunks: string[] = [];
+    let current: { text: string[], start: number, end: number } | undefined;
+    const flush = () => {
+        if (current && ranges.some(range => current!.start <= range.end && current!.end >= range.start)) {
+            hunks.push(current.text.join('\n'));
+        }
+        current = undefined;
+    };
+
+    for (const line of diff.split(/\r?\n/)) {
+        const header = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+        if (header) {
+            flush();
+            const start = parseInt(header[1], 10);
+            const count = header[2] === undefined ? 1 : parseInt(header[2], 10);
+            current = { text: [line], start, end: start + Math.max(count, 1) - 1 };
+        } else if (current && /^[ +\-\\]/.test(line)) {
+            current.text.push(line);
+        } else {
+            flush();
+        }
+    }
+    flush();
+
+    return hunks;
+}
+
+/**
+ * The most recent commits that touched the given line ranges, using `git log -L`.
+ * Without the git binary, fall back to the commits that touched the file.
+ */
+async function getCommits(
+    git: Git,
+    repository: GitRepository | undefined,
+    root: string,
+    relativePath: string,
+    filePath: string,
+    ranges: { start: number, end: number }[],
+    maxCommits: number,
+): Promise<GitCommit[]> {
+    if (ranges.length > 0) {
+        const args = ['log', '--no-color', `-n${maxCommits}`, '--format=%x00%H%x09%aI%x09%s'];
+        for (const range of ranges) {
+            args.push('-L', `${range.start},${range.end}:${relativePath}`);
+        }
+
+        const output = await git.run(root, args);
+        if (output !== undefined) {
+            // -L always prints the patch, so only keep our marked format lines
+            return output.split('\n')
+                .filter(line => line.startsWith('\0'))
+                .map(line => {
+                    const [hash, authorDate, ...subject] = line.slice(1).split('\t');
+                    return { hash, authorDate, subject: subject.join('\t') };
+                });
+        }
+    }
+
+    try {
+        const commits = repository ? await git.ask(repository.log({ path: filePath, maxEntries: maxCommits }), []) : [];
+        return commits.map(commit => ({
+            hash: commit.hash,
+            authorDate: commit.authorDate?.toISOString() ?? '',
+            subject: commit.message.split('\n')[0],
+        }));
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Blame for the focused lines (1-based, inclusive).
+ */
+async function getBlame(
+    git: Git,
+    repository: GitRepository | undefined,
+    root: string,
+    relativePath: string,
+    filePath: string,
+    startLine: number,
+    endLine: number,
+): Promise<GitBlameLine[]> {
+    let blame: string | undefined;
+    try {
+        blame = repository && await git.ask(repository.blame(filePath), undefined);
+    } catch {
+        blame = undefined;
+    }
+    if (blame) {
+        return parseBlame(blame, startLine, endLine);
+    }
+
+    const porcelain = await git.run(root, ['blame', '--porcelain', '-L', `${startLine},${endLine}`, '--', relativePath]);
+    return porcelain ? parsePorcelainBlame(porcelain) : [];
+}
+
+// Default `git blame` output: "^1a2b3c4d (Jane Doe 2024-01-31 12:00:00 +0100 12) line text"
+function parseBlame(blame: string, startLine: number, endLine: number): GitBlameLine[] {
+    const lines: GitBlameLine[] = [];
+    for (const rawLine of blame.split('\n')) {
+        const match = rawLine.match(/^\^?([0-9a-f]+)\s+(?:\S+\s+)?\((.*?)\s+(\d{4}-\d{2}-\d{2})[^)]*?\s(\d+)\)\s?(.*)$/);
+        if (!match) {
+            continue;
+        }
+        const line = parseInt(match[4], 10);
+        if (line >= startLine && line <= endLine) {
+            lines.push({ line, hash: match[1], author: match[2].trim(), authorDate: match[3], text: match[5] });
+        }
+    }
+    return lines;
+}
+
+function parsePorcelainBlame(porcelain: string): GitBlameLine[] {
+    const commits = new Map<string, { author: string, authorDate: string }>();
+    const lines: GitBlameLine[] = [];
+    let current: { hash: string, line: number } | undefined;
+
+    for (const rawLine of porcelain.split('\n')) {
+        const header = rawLine.match(/^([0-9a-f]{40}) \d+ (\d+)/);
+        if (header) {
+            current = { hash: header[1], line: parseInt(header[2], 10) };
+            if (!commits.has(current.hash)) {
+                commits.set(current.hash, { author: '', authorDate: '' });
+            }
+            continue;
+        }
+        if (!current) {
+            continue;
+        }
+
+        const commit = commits.get(current.hash)!;
+        if (rawLine.startsWith('author ')) {
+            commit.author = rawLine.slice('author '.length);
+        } else if (rawLine.startsWith('author-time ')) {
+            const seconds = parseInt(rawLine.slice('author-time '.length), 10);
+            commit.authorDate = new Date(seconds * 1000).toISOString().slice(0, 10);
+        } else if (rawLine.startsWith('\t')) {
+            lines.push({
+                line: current.line,
+                hash: current.hash,
+                author: commit.author,
+                authorDate: commit.authorDate,
+                text: rawLine.slice(1),
+            });
+            current = undefined;
+        }
+    }
+
+    return lines;
+}
@@ -0,0 +1,57 @@
+import type * as vscode from 'vscode';
+import * as path from 'path';
+import { getLanguageProvider } from './provider';
+
+/**
+ * Whether a file matches any of the globs. Patterns without a slash match the file name
+ * anywhere, like .gitignore; others match the path relative to the workspace folder.
+ */
+export function matchesAnyGlob(uri: vscode.Uri, patterns: string[]): boolean {
+    if (patterns.length === 0) {
+        return false;
+    }
+
+    const folder = getLanguageProvider().getWorkspaceFolder(uri);
+    const relativePath = (folder ? path.relative(folder.uri.fsPath, uri.fsPath) : uri.fsPath).split(path.sep).join('/');
+    const fileName = path.basename(uri.fsPath);
+
+    return patterns.some(pattern => {
+        const normalized = pattern.replace(/^\.\//, '').replace(/^\//, '');
+        return normalized.includes('/')
+            ? globToRegExp(normalized).test(relativePath)
+            : globToRegExp(normalized).test(fileName);
+    });
+}
+
+export function globToRegExp(glob: string): RegExp {
+    let regex = '';
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*' && glob[i + 1] === '*') {
+            // "**/" matches any number of directories, including none
+            if (glob[i + 2] === '/') {
+                regex += '(?:.*/)?';
+                i += 2;
+            } else {
+                regex += '.*';
+                i += 1;
+            }
+        } else if (char === '*') {
+            regex += '[^/]*';
+        } else if (char === '?') {
+            regex += '[^/]';
+        } else if (char === '{') {
+            const end = glob.indexOf('}', i);
+            if (end > i) {
+                const options = glob.slice(i + 1, end).split(',').map(option => option.replace(/[.+^${}()|[\]\\]/g, '\\$&'));
+                regex += `(?:${options.join('|')})`;
+                i = end;
+            } else {
+                regex += '\\{';
+            }
+        } else {
+            regex += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${regex}$`);
+}
@@ -0,0 +1,227 @@
+import * as vscode from 'vscode';
+
+import { gatherContext } from './context';
+import { gatherStackTraceContext } from './stackTrace';
+import { getLlmOutputOptions, getOutputFormat, getOutputOptions, outputSeparator, renderContext, renderContextLlm } from './toString';
+import { redactionSummary } from './redaction';
+import { FunctionDefinition, OutputOptions, RaydocContext } from './types';
+
+export type HistoryKind = 'copy' | 'send' | 'stack-trace' | 'preview';
+
+export type HistoryEntry = {
+    id: string;
+    // ISO timestamp of when the context was generated
+    timestamp: string;
+    kind: HistoryKind;
+    uri: string;
+    filepath: string;
+    // 0-based selection the context was gathered for
+    startLine: number;
+    startCharacter: number;
+    endLine: number;
+    endCharacter: number;
+    format: string;
+    // What the output included; entries recorded before these were kept use the current settings
+    options?: OutputOptions;
+    // The rendered context, without the separator added when copying
+    output: string;
+    // One line per definition, package or file tree that went in
+    items: string[];
+    // The pasted trace, for stack trace contexts
+    stackTrace?: string;
+};
+
+export type HistoryActions = {
+    send: (entry: HistoryEntry, context: RaydocContext) => Promise<void>;
+};
+
+const HISTORY_KEY = 'raydoc-context.history';
+const HISTORY_SCHEME = 'raydoc-history';
+
+let storage: vscode.Memento | undefined;
+// Contents of the documents shown in history diffs, by URI
+const diffDocuments = new Map<string, string>();
+
+/**
+ * Keep the history in the workspace storage and serve the documents history diffs compare.
+ */
+export function initHistory(extensionContext: vscode.ExtensionContext) {
+    storage = extensionContext.workspaceState;
+    extensionContext.subscriptions.push(
+        vscode.workspace.registerTextDocumentContentProvider(HISTORY_SCHEME, {
+            provideTextDocumentContent: uri => diffDocuments.get(uri.toString()),
+        }),
+        vscode.window.tabGroups.onDidChangeTabs(event => {
+            if (event.closed.length > 0) {
+                forgetClosedDiffDocuments();
+            }
+        })
+    );
+}
+
+// Drop the contents of history documents no tab shows anymore
+function forgetClosedDiffDocuments() {
+    const open = new Set<string>();
+    for (const tab of vscode.window.tabGroups.all.flatMap(group => group.tabs)) {
+        if (tab.input instanceof vscode.TabInputTextDiff) {
+            open.add(tab.input.original.toString());
+            open.add(tab.input.modified.toString());
+        } else if (tab.input instanceof vscode.TabInputText) {
+            open.add(tab.input.uri.toString());
+        }
+    }
+    for (const uri of [...diffDocuments.keys()]) {
+        if (!open.has(uri)) {
+            diffDocuments.delete(uri);
+        }
+    }
+}
+
+export function getHistory(): HistoryEntry[] {
+    return storage?.get<HistoryEntry[]>(HISTORY_KEY, []) ?? [];
+}
+
+/**
+ * Record a generated context, newest first, keeping at most `history-size` entries.
+ */
+export async function recordHistory(
+    kind: HistoryKind,
+    uri: vscode.Uri,
+    selection: vscode.Selection,
+    context: RaydocContext,
+    output: string,
+    options: OutputOptions,
+    stackTrace?: string,
+) {
+    const historySize = vscode.workspace.getConfiguration('raydoc-context').get<number>('history-size', 50);
+    if (!storage || historySize <= 0) {
+        return;
+    }
+
+    const entry: HistoryEntry = {
+        id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        timestamp: new Date().toISOString(),
+        kind,
+        uri: uri.toString(),
+        filepath: context.filepath,
+        startLine: selection.start.line,
+        startCharacter: selection.start.character,
+        endLine: selection.end.line,
+        endCharacter: selection.end.character,
+        format: getOutputFormat(),
+        options,
+        output,
+        items: getIncludedItems(context),
+        stackTrace,
+    };
+    await storage.update(HISTORY_KEY, [entry, ...getHistory()].slice(0, historySize));
+}
+
+export async function clearHistory() {
+    await storage?.update(HISTORY_KEY, undefined);
+}
+
+function getIncludedItems(context: RaydocContext): string[] {
+    const definitions = (label: string, defns?: FunctionDefinition[]) =>
+        (defns || []).map(defn => `${label}: ${defn.functionName} (${defn.filename}:${defn.startLine + 1})`);
+
+    return [
+        ...definitions('Main Function', context.functionDefns),
+        ...definitions('Type Definition', context.typeDefns),
+        ...definitions('Referenced Function', context.referencedFunctions),
+        ...definitions('Incoming Call', context.incomingCalls),
+        ...definitions('Test', context.tests),
+        ...(context.packages || []).map(manifest => `Packages: ${manifest.manifestPath}`),
+        ...(context.fileTree ? ['File Tree'] : []),
+    ];
+}
+
+/**
+ * Gather the context for a history entry again, against the current code.
+ */
+async function regenerate(entry: HistoryEntry): Promise<RaydocContext | undefined> {
+    if (entry.stackTrace) {
+        return gatherStackTraceContext(entry.stackTrace);
+    }
+    const doc = await vscode.workspace.openTextDocument(vscode.Uri.parse(entry.uri));
+    return gatherContext(doc, entrySelection(entry));
+}
+
+/**
+ * Pick a history entry, then copy it again, send it again or compare it with a fresh regeneration.
+ */
+export async function showHistory(actions: HistoryActions) {
+    const history = getHistory();
+    if (history.length === 0) {
+        vscode.window.showInformationMessage('Raydoc: no context has been generated in this workspace yet.');
+        return;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        history.map(entry => ({
+            label: `${entry.filepath}:${entry.startLine + 1}`,
+            description: `${entry.kind} · ${new Date(entry.timestamp).toLocaleString()}`,
+            detail: entry.items.join(', '),
+            entry,
+        })),
+        { placeHolder: 'Raydoc History', matchOnDetail: true }
+    );
+    if (!picked) {
+        return;
+    }
+
+    const action = await vscode.window.showQuickPick(
+        ['Copy again', 'Send again', 'Regenerate and copy', 'Compare with the current code'],
+        { placeHolder: `${picked.label} (${picked.description})` }
+    );
+    const entry = picked.entry;
+    if (!action) {
+        return;
+    }
+
+    if (action === 'Copy again') {
+        await vscode.env.clipboard.writeText(entry.output + outputSeparator(entry.format));
+        vscode.window.showInformationMessage('Raydoc: context copied to clipboard!');
+        return;
+    }
+
+    const context = await regenerate(entry);
+    if (!context) {
+        vscode.window.showErrorMessage(`No context found at ${entry.filepath}:${entry.startLine + 1} anymore.`);
+        return;
+    }
+
+    if (action === 'Send again') {
+        await actions.send(entry, context);
+    } else if (action === 'Regenerate and copy') {
+        const options = getOutputOptions();
+        const output = renderContext(context, options);
+        await vscode.env.clipboard.writeText(output.text + outputSeparator());
+        await recordHistory(entry.stackTrace ? 'stack-trace' : 'copy', vscode.Uri.parse(entry.uri), entrySelection(entry), context, output.text, options, entry.stackTrace);
+        vscode.window.showInformationMessage(`Raydoc: context copied to clipboard!${redactionSummary(output.redactions)}`);
+    } else {
+        await showDiff(entry, context);
+    }
+}
+
+export function entrySelection(entry: HistoryEntry): vscode.Selection {
+    return new vscode.Selection(entry.startLine, entry.startCharacter, entry.endLine, entry.endCharacter);
+}
+
+const FILE_EXTENSIONS: Record<string, string> = { markdown: '.md', xml: '.xml', json: '.json' };
+
+async function showDiff(entry: HistoryEntry, context: RaydocContext) {
+    // Render the same way the entry was, so only changes in the code show up
+    const current = entry.kind === 'send'
+        ? renderContextLlm(context, entry.options ?? getLlmOutputOptions(), entry.format).text
+        : renderContext(context, entry.options ?? getOutputOptions(), entry.format).text;
+    const extension = FILE_EXTENSIONS[entry.format] ?? '.txt';
+
+    const storedUri = vscode.Uri.parse(`${HISTORY_SCHEME}:/${entry.id}/stored${extension}`);
+    const currentUri = vscode.Uri.parse(`${HISTORY_SCHEME}:/${entry.id}/current${extension}`);
+    diffDocuments.set(storedUri.toString(), entry.output);
+    diffDocuments.set(currentUri.toString(), current);
+
+    const title = `${entry.filepath}:${entry.startLine + 1} (${new Date(entry.timestamp).toLocaleString()} ↔ now)`;
+    await vscode.commands.executeCommand('vscode.diff', storedUri, currentUri, title);
+}
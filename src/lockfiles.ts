@@ -0,0 +1,392 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { findUp, isJsonObject } from './workspaces';
+
+/**
+ * Read the installed versions of JS packages from package-lock.json, yarn.lock or pnpm-lock.yaml.
+ * In a workspace the lockfile sits at the workspace root, so look for it from the package
+ * directory up to stopDir. yarn.lock can hold several versions of a package, so the ranges the
+ * manifest requires pick the one it resolved to.
+ */
+export function getResolvedVersionsJS(
+    packageDir: string,
+    stopDir: string,
+    requiredRanges: Record<string, string> = {}
+): Record<string, string> | undefined {
+    const lockfiles = ['package-lock.json', 'pnpm-lock.yaml', 'yarn.lock'];
+    const lockDir = findLockfileDir(packageDir, stopDir, lockfiles);
+    if (!lockDir) {
+        return undefined;
+    }
+
+    // Workspace packages are keyed by their path from the lockfile, e.g. "packages/web"
+    const importer = path.relative(lockDir, packageDir).split(path.sep).join('/') || '.';
+    return readLockfile(path.join(lockDir, 'package-lock.json'), content => parsePackageLock(content, importer)) ||
+        readLockfile(path.join(lockDir, 'pnpm-lock.yaml'), content => parsePnpmLock(content, importer)) ||
+        readLockfile(path.join(lockDir, 'yarn.lock'), content => parseYarnLock(content, requiredRanges));
+}
+
+/**
+ * Read the installed versions of Python packages from poetry.lock or Pipfile.lock.
+ * Package names are normalized, so look them up with normalizePythonName.
+ */
+export function getResolvedVersionsPython(packageDir: string, stopDir: string): Record<string, string> | undefined {
+    const lockDir = findLockfileDir(packageDir, stopDir, ['poetry.lock', 'Pipfile.lock']);
+    if (!lockDir) {
+        return undefined;
+    }
+
+    const versions = readLockfile(path.join(lockDir, 'poetry.lock'), parseTomlPackageList) ||
+        readLockfile(path.join(lockDir, 'Pipfile.lock'), parsePipfileLock);
+    if (!versions) {
+        return undefined;
+    }
+
+    const normalized: Record<string, string> = {};
+    for (const [name, version] of Object.entries(versions)) {
+        normalized[normalizePythonName(name)] = version;
+    }
+    return normalized;
+}
+
+/**
+ * Read the downloaded versions of Go modules from go.sum. It holds every version the build ever
+ * downloaded, so the ones go.mod requires win over the rest.
+ */
+export function getResolvedVersionsGo(
+    packageDir: string,
+    stopDir: string,
+    requiredVersions: Record<string, string> = {}
+): Record<string, string> | undefined {
+    // Each module has its own go.sum; a go.work workspace keeps the rest in go.work.sum
+    const lockDir = findLockfileDir(packageDir, stopDir, ['go.sum', 'go.work.sum']);
+    if (!lockDir) {
+        return undefined;
+    }
+    return readLockfile(path.join(lockDir, 'go.sum'), content => parseGoSum(content, requiredVersions)) ||
+        readLockfile(path.join(lockDir, 'go.work.sum'), content => parseGoSum(content, requiredVersions));
+}
+
+export function getResolvedVersionsRust(packageDir: string, stopDir: string): Record<string, string> | undefined {
+    // Every crate in a Cargo workspace shares the Cargo.lock at the workspace root
+    const lockDir = findLockfileDir(packageDir, stopDir, ['Cargo.lock']);
+    return lockDir ? readLockfile(path.join(lockDir, 'Cargo.lock'), parseTomlPackageList) : undefined;
+}
+
+// Only Gradle builds with dependency locking turned on have a lockfile
+export function getResolvedVersionsJvm(packageDir: string, stopDir: string): Record<string, string> | undefined {
+    const lockDir = findLockfileDir(packageDir, stopDir, ['gradle.lockfile']);
+    return lockDir ? readLockfile(path.join(lockDir, 'gradle.lockfile'), parseGradleLockfile) : undefined;
+}
+
+export function getResolvedVersionsRuby(packageDir: string, stopDir: string): Record<string, string> | undefined {
+    const lockDir = findLockfileDir(packageDir, stopDir, ['Gemfile.lock']);
+    return lockDir ? readLockfile(path.join(lockDir, 'Gemfile.lock'), parseGemfileLock) : undefined;
+}
+
+export function getResolvedVersionsPhp(packageDir: string, stopDir: string): Record<string, string> | undefined {
+    const lockDir = findLockfileDir(packageDir, stopDir, ['composer.lock']);
+    return lockDir ? readLockfile(path.join(lockDir, 'composer.lock'), parseComposerLock) : undefined;
+}
+
+function findLockfileDir(packageDir: string, stopDir: string, lockfiles: string[]): string | undefined {
+    return findUp(packageDir, stopDir, dir => lockfiles.some(lockfile => fs.existsSync(path.join(dir, lockfile))));
+}
+
+// PEP 503: names are case-insensitive and runs of "-", "_" and "." are equivalent
+export function normalizePythonName(name: string): string {
+    return name.toLowerCase().replace(/[-_.]+/g, '-');
+}
+
+function readLockfile(
+    lockPath: string,
+    parse: (content: string) => Record<string, string>
+): Record<string, string> | undefined {
+    if (!fs.existsSync(lockPath)) {
+        return undefined;
+    }
+
+    try {
+        const versions = parse(fs.readFileSync(lockPath, 'utf-8'));
+        return Object.keys(versions).length > 0 ? versions : undefined;
+    } catch (err) {
+        return undefined;
+    }
+}
+
+function parsePackageLock(content: string, importer: string): Record<string, string> {
+    const lock: unknown = JSON.parse(content);
+    if (!isJsonObject(lock)) {
+        return {};
+    }
+    const versions: Record<string, string> = {};
+    const nestedPrefix = importer === '.' ? undefined : `${importer}/`;
+
+    // lockfileVersion 2 and 3 list every installed package by path. Packages hoisted to the
+    // root come first, then the ones nested under the workspace package win over them.
+    const nested: Record<string, string> = {};
+    for (const [pkgPath, pkg] of jsonEntries(lock.packages)) {
+        const version = versionOf(pkg);
+        if (!version) {
+            continue;
+        }
+        const relativePath = nestedPrefix && pkgPath.startsWith(nestedPrefix) ? pkgPath.slice(nestedPrefix.length) : pkgPath;
+        const match = relativePath.match(/^node_modules\/((?:@[^/]+\/)?[^/]+)$/);
+        if (!match) {
+            continue;
+        }
+        if (relativePath === pkgPath) {
+            versions[match[1]] = version;
+        } else {
+            nested[match[1]] = version;
+        }
+    }
+    Object.assign(versions, nested);
+
+    // lockfileVersion 1 only has the nested dependency tree
+    for (const [name, pkg] of jsonEntries(lock.dependencies)) {
+        const version = versionOf(pkg);
+        if (!versions[name] && version) {
+            versions[name] = version;
+        }
+    }
+
+    return versions;
+}
+
+/**
+ * Handles both the classic (v1) and the Berry format:
+ *
+ *   "lodash@^4.17.0", lodash@^4.17.21:      "lodash@npm:^4.17.21":
+ *     version "4.17.21"                       version: 4.17.21
+ *
+ * Blocks are keyed by their descriptors (name@range), so a package the manifest requires gets the
+ * version of its range; any other package gets the version of its last block.
+ */
+function parseYarnLock(content: string, requiredRanges: Record<string, string>): Record<string, string> {
+    const versions: Record<string, string> = {};
+    const versionsByDescriptor = new Map<string, string>();
+    let descriptors: string[] = [];
+
+    for (const line of content.split(/\r?\n/)) {
+        if (line.startsWith('#') || line.trim() === '') {
+            continue;
+        }
+
+        if (!line.startsWith(' ')) {
+            // Berry's __metadata block holds the lockfile's own version, not a package's
+            descriptors = line.startsWith('__metadata:')
+                ? []
+                : line.replace(/:$/, '').split(',').map(descriptor => descriptor.trim().replace(/^"|"$/g, ''));
+            continue;
+        }
+
+        const match = line.match(/^\s+version:?\s+"?([^"\s]+)"?/);
+        if (match) {
+            for (const descriptor of descriptors) {
+                versionsByDescriptor.set(descriptor, match[1]);
+                // Skip the leading "@" of scoped packages when looking for the range separator
+                const at = descriptor.indexOf('@', 1);
+                versions[at > 0 ? descriptor.slice(0, at) : descriptor] = match[1];
+            }
+            descriptors = [];
+        }
+    }
+
+    for (const [name, range] of Object.entries(requiredRanges)) {
+        // Berry adds the protocol to ranges that don't have one
+        const version = versionsByDescriptor.get(`${name}@${range}`) ?? versionsByDescriptor.get(`${name}@npm:${range}`);
+        if (version) {
+            versions[name] = version;
+        }
+    }
+
+    return versions;
+}
+
+/**
+ * Reads the direct dependencies of one project (importer) from pnpm-lock.yaml, both the older format
+ * where versions sit next to the name and the v6+ format with nested specifier/version keys.
+ */
+function parsePnpmLock(content: string, importer: string): Record<string, string> {
+    const versions: Record<string, string> = {};
+    const lines = content.split(/\r?\n/);
+
+    let inImporters = false;
+    let inImporter = false;
+    let sectionIndent = -1;
+    let pendingName: string | undefined;
+
+    for (const line of lines) {
+        if (line.trim() === '' || line.trim().startsWith('#')) {
+            continue;
+        }
+        const indent = line.length - line.trimStart().length;
+        const trimmed = line.trim();
+
+        if (indent === 0) {
+            inImporters = trimmed === 'importers:';
+            inImporter = false;
+            sectionIndent = /^(dependencies|devDependencies|optionalDependencies):$/.test(trimmed) ? 0 : -1;
+            continue;
+        }
+
+        if (inImporters && indent === 2) {
+            inImporter = trimmed.replace(/^['"]|['"]?:$/g, '') === importer;
+            sectionIndent = -1;
+            continue;
+        }
+
+        if (/^(dependencies|devDependencies|optionalDependencies):$/.test(trimmed) && (!inImporters || inImporter)) {
+            sectionIndent = indent;
+            continue;
+        }
+
+        if (sectionIndent < 0) {
+            continue;
+        }
+        if (indent <= sectionIndent) {
+            // Anything back at the section's level ends it
+            sectionIndent = -1;
+            continue;
+        }
+
+        const entry = trimmed.match(/^'?([^':]+)'?:\s*(.*)$/);
+        if (!entry) {
+            continue;
+        }
+
+        if (indent === sectionIndent + 2) {
+            if (entry[2]) {
+                versions[entry[1]] = cleanPnpmVersion(entry[2]);
+                pendingName = undefined;
+            } else {
+                pendingName = entry[1];
+            }
+        } else if (pendingName && entry[1] === 'version') {
+            versions[pendingName] = cleanPnpmVersion(entry[2]);
+            pendingName = undefined;
+        }
+    }
+
+    return versions;
+}
+
+// Strip quotes and peer dependency suffixes like "1.2.3(react@18.2.0)", or "1.2.3_react@18.2.0" before v6
+function cleanPnpmVersion(version: string): string {
+    return version.replace(/^['"]|['"]$/g, '').replace(/\(.*$/, '').replace(/^(\d[^_]*)_.*$/, '$1');
+}
+
+// poetry.lock and Cargo.lock both list packages as [[package]] tables with name and version keys
+function parseTomlPackageList(content: string): Record<string, string> {
+    const versions: Record<string, string> = {};
+    let name: string | undefined;
+    let inPackage = false;
+
+    for (const line of content.split(/\r?\n/)) {
+        const trimmed = line.trim();
+        if (trimmed.startsWith('[')) {
+            inPackage = trimmed === '[[package]]';
+            name = undefined;
+            continue;
+        }
+        if (!inPackage) {
+            continue;
+        }
+
+        const match = trimmed.match(/^(name|version)\s*=\s*"([^"]*)"/);
+        if (!match) {
+            continue;
+        }
+        if (match[1] === 'name') {
+            name = match[2];
+        } else if (name) {
+            versions[name] = match[2];
+        }
+    }
+
+    return versions;
+}
+
+function parsePipfileLock(content: string): Record<string, string> {
+    const lock: unknown = JSON.parse(content);
+    const versions: Record<string, string> = {};
+    for (const section of ['develop', 'default']) {
+        for (const [name, pkg] of jsonEntries(isJsonObject(lock) ? lock[section] : undefined)) {
+            const version = versionOf(pkg);
+            if (version) {
+                versions[name] = version.replace(/^==/, '');
+            }
+        }
+    }
+    return versions;
+}
+
+// go.sum holds a hash for every module version that was downloaded. Of a module go.mod doesn't
+// require, or requires in a version that isn't listed, the last one listed wins
+function parseGoSum(content: string, requiredVersions: Record<string, string>): Record<string, string> {
+    const versions: Record<string, string> = {};
+    for (const line of content.split(/\r?\n/)) {
+        const [modulePath, version] = line.trim().split(/\s+/);
+        if (!modulePath || !version || version.endsWith('/go.mod')) {
+            continue;
+        }
+        // Once the required version is found, later ones don't replace it
+        if (versions[modulePath] === undefined || versions[modulePath] !== requiredVersions[modulePath]) {
+            versions[modulePath] = version;
+        }
+    }
+    return versions;
+}
+
+// e.g. com.google.guava:guava:32.1.2-jre=compileClasspath,runtimeClasspath
+function parseGradleLockfile(content: string): Record<string, string> {
+    const versions: Record<string, string> = {};
+    for (const line of content.split(/\r?\n/)) {
+        const match = line.trim().match(/^([^#:\s]+):([^:\s]+):([^=\s]+)=/);
+        if (match) {
+            versions[`${match[1]}:${match[2]}`] = match[3];
+        }
+    }
+    return versions;
+}
+
+// The gems of every source (GEM, GIT, PATH) are listed under "specs:" as "    name (version)"
+function parseGemfileLock(content: string): Record<string, string> {
+    const versions: Record<string, string> = {};
+    for (const line of content.split(/\r?\n/)) {
+        const match = line.match(/^ {4}([^\s(]+) \(([^)]+)\)$/);
+        if (match) {
+            versions[match[1]] = match[2];
+        }
+    }
+    return versions;
+}
+
+function parseComposerLock(content: string): Record<string, string> {
+    const lock: unknown = JSON.parse(content);
+    const versions: Record<string, string> = {};
+    if (!isJsonObject(lock)) {
+        return versions;
+    }
+    for (const section of ['packages', 'packages-dev']) {
+        const packages = lock[section];
+        for (const pkg of Array.isArray(packages) ? packages : []) {
+            const version = versionOf(pkg);
+            if (isJsonObject(pkg) && typeof pkg.name === 'string' && version) {
+                versions[pkg.name] = version;
+            }
+        }
+    }
+    return versions;
+}
+
+// The entries of a JSON object, e.g. the packages of a lockfile; none for anything else
+function jsonEntries(value: unknown): [string, unknown][] {
+    return isJsonObject(value) ? Object.entries(value) : [];
+}
+
+function versionOf(pkg: unknown): string | undefined {
+    return isJsonObject(pkg) && typeof pkg.version === 'string' ? pkg.version : undefined;
+}
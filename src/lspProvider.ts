@@ -0,0 +1,340 @@
+import type * as vscode from 'vscode';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+
+import {
+    CallHierarchyIncomingCall,
+    CallHierarchyItem,
+    Diagnostic,
+    DiagnosticRelatedInformation,
+    DocumentSymbol,
+    languageIdForFile,
+    Location,
+    Range,
+    Uri,
+} from './cliHost';
+import { LanguageFeatures } from './provider';
+
+// The parts of the LSP types that are read here
+type LspPosition = { line: number, character: number };
+type LspRange = { start: LspPosition, end: LspPosition };
+type LspLocation = { uri: string, range: LspRange };
+type LspLocationLink = { targetUri: string, targetRange: LspRange, targetSelectionRange: LspRange };
+type LspDocumentSymbol = { name: string, detail?: string, kind: number, range: LspRange, selectionRange: LspRange, children?: LspDocumentSymbol[] };
+type LspSymbolInformation = { name: string, kind: number, location: LspLocation, containerName?: string };
+type LspCallHierarchyItem = { name: string, kind: number, detail?: string, uri: string, range: LspRange, selectionRange: LspRange };
+type LspDiagnostic = {
+    range: LspRange;
+    severity?: number;
+    code?: string | number;
+    source?: string;
+    message: string;
+    relatedInformation?: { location: LspLocation, message: string }[];
+};
+
+type Message = {
+    id?: number | string;
+    method?: string;
+    params?: unknown;
+    result?: unknown;
+    error?: { message: string };
+};
+
+export type LspProvider = LanguageFeatures & {
+    dispose(): Promise<void>;
+};
+
+// How long to wait for a server to publish the diagnostics of a file it just opened
+const DIAGNOSTICS_TIMEOUT_MS = 3000;
+
+/**
+ * Answer the language feature requests with a language server speaking LSP over stdio,
+ * e.g. `pyright-langserver --stdio` or `rust-analyzer`. Files are opened on the server as
+ * they are first needed. Dispose the provider to shut the server down.
+ */
+export async function startLspProvider(command: string, rootPath: string): Promise<LspProvider> {
+    const server = cp.spawn(command, { cwd: rootPath, shell: true, stdio: ['pipe', 'pipe', 'ignore'] });
+
+    let nextId = 1;
+    const pending = new Map<number, { resolve: (result: unknown) => void, reject: (err: Error) => void }>();
+    const diagnostics = new Map<string, LspDiagnostic[]>();
+    const diagnosticsListeners = new Map<string, () => void>();
+    const openedFiles = new Set<string>();
+    const callHierarchyItems = new WeakMap<vscode.CallHierarchyItem, LspCallHierarchyItem>();
+
+    const send = (message: Message) => {
+        const body = JSON.stringify({ jsonrpc: '2.0', ...message });
+        server.stdin.write(`Content-Length: ${Buffer.byteLength(body, 'utf8')}\r\n\r\n${body}`);
+    };
+
+    const request = <T>(method: string, params: unknown): Promise<T> => {
+        const id = nextId++;
+        return new Promise<T>((resolve, reject) => {
+            // The result has the type the LSP specification gives the method
+            pending.set(id, { resolve: result => resolve(result as T), reject });
+            send({ id, method, params });
+        });
+    };
+
+    const handleMessage = (message: Message) => {
+        const params = typeof message.params === 'object' && message.params !== null
+            ? message.params as Record<string, unknown>
+            : {};
+        if (message.method && message.id !== undefined) {
+            // Requests from the server: answer configuration requests with defaults, the rest with nothing
+            const items = message.method === 'workspace/configuration' && Array.isArray(params.items) ? params.items : undefined;
+            send({ id: message.id, result: items ? items.map(() => null) : null });
+        } else if (message.method === 'textDocument/publishDiagnostics') {
+            if (typeof params.uri === 'string') {
+                diagnostics.set(params.uri, Array.isArray(params.diagnostics) ? params.diagnostics as LspDiagnostic[] : []);
+                diagnosticsListeners.get(params.uri)?.();
+            }
+        } else if (typeof message.id === 'number' && pending.has(message.id)) {
+            const { resolve, reject } = pending.get(message.id)!;
+            pending.delete(message.id);
+            if (message.error) {
+                reject(new Error(message.error.message));
+            } else {
+                resolve(message.result);
+            }
+        }
+    };
+
+    // Messages are framed by a Content-Length header
+    let buffer = Buffer.alloc(0);
+    server.stdout.on('data', (chunk: Buffer) => {
+        buffer = Buffer.concat([buffer, chunk]);
+        while (true) {
+            const headerEnd = buffer.indexOf('\r\n\r\n');
+            if (headerEnd === -1) {
+                return;
+            }
+            const length = Number(buffer.subarray(0, headerEnd).toString('ascii').match(/Content-Length: *(\d+)/i)?.[1]);
+            if (buffer.length < headerEnd + 4 + length) {
+                return;
+            }
+            const body = buffer.subarray(headerEnd + 4, headerEnd + 4 + length).toString('utf8');
+            buffer = buffer.subarray(headerEnd + 4 + length);
+            try {
+                handleMessage(JSON.parse(body));
+            } catch {
+                // Not JSON, skip the message
+            }
+        }
+    });
+
+    const exited = new Promise<void>(resolve => server.on('exit', () => {
+        for (const { reject } of pending.values()) {
+            reject(new Error(`Language server "${command}" exited`));
+        }
+        pending.clear();
+        resolve();
+    }));
+    const failed = new Promise<never>((_, reject) => server.on('error', reject));
+    const exitedEarly = exited.then((): never => {
+        throw new Error(`Language server "${command}" exited`);
+    });
+    // Only awaited while initializing; a server dying later fails the pending requests instead
+    failed.catch(() => undefined);
+    exitedEarly.catch(() => undefined);
+    server.stdin.on('error', () => undefined);
+
+    await Promise.race([
+        request('initialize', {
+            processId: process.pid,
+            rootUri: toLspUri(Uri.file(rootPath)),
+            workspaceFolders: [{ uri: toLspUri(Uri.file(rootPath)), name: path.basename(rootPath) }],
+            capabilities: {
+                textDocument: {
+                    documentSymbol: { hierarchicalDocumentSymbolSupport: true },
+                    definition: { linkSupport: true },
+                    declaration: { linkSupport: true },
+                    typeDefinition: { linkSupport: true },
+                    references: {},
+                    callHierarchy: {},
+                    publishDiagnostics: { relatedInformation: true },
+                },
+                workspace: { workspaceFolders: true, configuration: true, symbol: {} },
+            },
+        }),
+        failed,
+        exitedEarly,
+    ]);
+    send({ method: 'initialized', params: {} });
+
+    const open = async (uri: vscode.Uri): Promise<string> => {
+        const lspUri = toLspUri(uri);
+        if (!openedFiles.has(lspUri)) {
+            openedFiles.add(lspUri);
+            const text = await fs.promises.readFile(uri.fsPath, 'utf8');
+            send({
+                method: 'textDocument/didOpen',
+                params: { textDocument: { uri: lspUri, languageId: languageIdForFile(uri.fsPath), version: 1, text } },
+            });
+        }
+        return lspUri;
+    };
+
+    // Unsupported requests and server errors leave that part of the context out
+    const positionRequest = async <T>(method: string, uri: vscode.Uri, position: vscode.Position, params?: object): Promise<T | undefined> => {
+        try {
+            const textDocument = { uri: await open(uri) };
+            return await request<T>(method, { textDocument, position: { line: position.line, character: position.character }, ...params });
+        } catch {
+            return undefined;
+        }
+    };
+
+    const toCallHierarchyItem = (item: LspCallHierarchyItem): vscode.CallHierarchyItem => {
+        const converted = new CallHierarchyItem(
+            toSymbolKind(item.kind), item.name, item.detail || '', fromLspUri(item.uri), toRange(item.range), toRange(item.selectionRange)
+        );
+        callHierarchyItems.set(converted, item);
+        return converted;
+    };
+
+    return {
+        documentSymbols: async uri => {
+            try {
+                const symbols = await request<(LspDocumentSymbol | LspSymbolInformation)[] | null>(
+                    'textDocument/documentSymbol', { textDocument: { uri: await open(uri) } }
+                );
+                return symbols ? symbols.map(toDocumentSymbol) : undefined;
+            } catch {
+                return undefined;
+            }
+        },
+
+        definitions: async (uri, position) => {
+            const results: (vscode.Location | vscode.LocationLink)[] = [];
+            for (const method of ['textDocument/definition', 'textDocument/declaration', 'textDocument/typeDefinition']) {
+                const locations = await positionRequest<LspLocation | (LspLocation | LspLocationLink)[] | null>(method, uri, position);
+                for (const location of Array.isArray(locations) ? locations : locations ? [locations] : []) {
+                    results.push('targetUri' in location
+                        ? {
+                            targetUri: fromLspUri(location.targetUri),
+                            targetRange: toRange(location.targetRange),
+                            targetSelectionRange: toRange(location.targetSelectionRange),
+                        }
+                        : toLocation(location));
+                }
+            }
+            return results;
+        },
+
+        references: async (uri, position) =>
+            (await positionRequest<LspLocation[] | null>('textDocument/references', uri, position, { context: { includeDeclaration: true } }) || [])
+                .map(toLocation),
+
+        prepareCallHierarchy: async (uri, position) =>
+            (await positionRequest<LspCallHierarchyItem[] | null>('textDocument/prepareCallHierarchy', uri, position) || [])
+                .map(toCallHierarchyItem),
+
+        incomingCalls: async item => {
+            const lspItem = callHierarchyItems.get(item);
+            if (!lspItem) {
+                return [];
+            }
+            try {
+                const calls = await request<{ from: LspCallHierarchyItem, fromRanges: LspRange[] }[] | null>(
+                    'callHierarchy/incomingCalls', { item: lspItem }
+                );
+                return (calls || []).map(call => new CallHierarchyIncomingCall(toCallHierarchyItem(call.from), call.fromRanges.map(toRange)));
+            } catch {
+                return [];
+            }
+        },
+
+        diagnostics: async uri => {
+            const lspUri = await open(uri);
+            if (!diagnostics.has(lspUri)) {
+                // Servers publish diagnostics when they get to it, if at all
+                await new Promise<void>(resolve => {
+                    const timer = setTimeout(resolve, DIAGNOSTICS_TIMEOUT_MS);
+                    diagnosticsListeners.set(lspUri, () => {
+                        clearTimeout(timer);
+                        resolve();
+                    });
+                });
+                diagnosticsListeners.delete(lspUri);
+            }
+            return (diagnostics.get(lspUri) || []).map(toDiagnostic);
+        },
+
+        workspaceSymbols: async query => {
+            try {
+                const symbols = await request<LspSymbolInformation[] | null>('workspace/symbol', { query });
+                return (symbols || []).filter(symbol => symbol.location.range).map(symbol => ({
+                    name: symbol.name,
+                    kind: toSymbolKind(symbol.kind),
+                    containerName: symbol.containerName || '',
+                    tags: [],
+                    location: toLocation(symbol.location),
+                }));
+            } catch {
+                return [];
+            }
+        },
+
+        dispose: async () => {
+            if (server.exitCode !== null) {
+                return;
+            }
+            try {
+                await Promise.race([request('shutdown', null), new Promise(resolve => setTimeout(resolve, 2000))]);
+                send({ method: 'exit' });
+            } catch {
+                // Already exiting
+            }
+            const timer = setTimeout(() => server.kill(), 2000);
+            await exited;
+            clearTimeout(timer);
+        },
+    };
+}
+
+function toLspUri(uri: vscode.Uri): string {
+    return pathToFileURL(uri.fsPath).href;
+}
+
+function fromLspUri(uri: string): vscode.Uri {
+    return Uri.file(fileURLToPath(uri));
+}
+
+function toRange(range: LspRange): vscode.Range {
+    return new Range(range.start.line, range.start.character, range.end.line, range.end.character);
+}
+
+function toLocation(location: LspLocation): vscode.Location {
+    return new Location(fromLspUri(location.uri), toRange(location.range));
+}
+
+// LSP numbers symbol kinds and severities from 1, vscode from 0
+function toSymbolKind(kind: number): vscode.SymbolKind {
+    return kind - 1;
+}
+
+function toDocumentSymbol(symbol: LspDocumentSymbol | LspSymbolInformation): vscode.DocumentSymbol {
+    if ('location' in symbol) {
+        // Flat SymbolInformation: the whole range has to serve as the selection range too
+        const range = toRange(symbol.location.range);
+        return new DocumentSymbol(symbol.name, symbol.containerName || '', toSymbolKind(symbol.kind), range, range);
+    }
+    const documentSymbol = new DocumentSymbol(
+        symbol.name, symbol.detail || '', toSymbolKind(symbol.kind), toRange(symbol.range), toRange(symbol.selectionRange)
+    );
+    documentSymbol.children = (symbol.children || []).map(toDocumentSymbol);
+    return documentSymbol;
+}
+
+function toDiagnostic(lspDiagnostic: LspDiagnostic): vscode.Diagnostic {
+    const diagnostic = new Diagnostic(toRange(lspDiagnostic.range), lspDiagnostic.message, (lspDiagnostic.severity || 1) - 1);
+    diagnostic.source = lspDiagnostic.source;
+    diagnostic.code = lspDiagnostic.code;
+    diagnostic.relatedInformation = (lspDiagnostic.relatedInformation || []).map(related =>
+        new DiagnosticRelatedInformation(toLocation(related.location), related.message)
+    );
+    return diagnostic;
+}
@@ -0,0 +1,532 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as http from 'http';
+import * as path from 'path';
+
+import { gatherContext, getPackagesForFiles } from './context';
+import { getFunctionDefinition } from './functions';
+import { createMcpToken, deleteMcpToken, getMcpTokenPath } from './mcpToken';
+import { getLanguageProvider } from './provider';
+import { isExcludedFile } from './redaction';
+import { getOutputOptions, renderContext } from './toString';
+import { OutputOptions, RaydocContext } from './types';
+
+// The newest revision of the Model Context Protocol this server speaks
+const PROTOCOL_VERSION = '2025-03-26';
+const SUPPORTED_PROTOCOL_VERSIONS = ['2024-11-05', '2025-03-26'];
+
+// Tool arguments are a file and a few lines, so anything bigger isn't a request of ours
+const MAX_BODY_BYTES = 1024 * 1024;
+
+type JsonRpcRequest = {
+    jsonrpc: '2.0';
+    id?: number | string;
+    method: string;
+    params?: unknown;
+};
+
+type ToolResult = {
+    content: { type: 'text', text: string }[];
+    isError?: boolean;
+};
+
+type Tool = {
+    name: string;
+    description: string;
+    inputSchema: object;
+    call(args: Record<string, unknown>): Promise<ToolResult>;
+};
+
+// A tool argument or workspace that can't be served; reported to the client as a tool error
+class ToolError extends Error { }
+
+let server: http.Server | undefined;
+// Generated each time the server starts; requests must send it as a bearer token
+let sessionToken: string | undefined;
+let statusBarItem: vscode.StatusBarItem | undefined;
+let extensionVersion = '';
+
+/**
+ * Register the MCP server commands and start the server if `mcp.enabled` is set.
+ * The server follows the setting, and is stopped with the extension.
+ */
+export function initMcpServer(extensionContext: vscode.ExtensionContext) {
+    extensionVersion = extensionContext.extension.packageJSON.version;
+
+    statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+    statusBarItem.command = 'raydoc-context.stopMcpServer';
+
+    extensionContext.subscriptions.push(
+        statusBarItem,
+        vscode.commands.registerCommand('raydoc-context.startMcpServer', () => startMcpServer()),
+        vscode.commands.registerCommand('raydoc-context.stopMcpServer', () => stopMcpServer()),
+        vscode.workspace.onDidChangeConfiguration(async event => {
+            if (event.affectsConfiguration('raydoc-context.mcp.enabled') || event.affectsConfiguration('raydoc-context.mcp.port')) {
+                await stopMcpServer();
+                if (isMcpEnabled()) {
+                    await startMcpServer();
+                }
+            }
+        }),
+        { dispose: () => stopMcpServer() },
+    );
+
+    if (isMcpEnabled()) {
+        startMcpServer();
+    }
+}
+
+function isMcpEnabled(): boolean {
+    return vscode.workspace.getConfiguration('raydoc-context').get<boolean>('mcp.enabled', false);
+}
+
+async function startMcpServer() {
+    if (server) {
+        vscode.window.showInformationMessage(`Raydoc: the MCP server is already running on ${serverUrl()}.`);
+        return;
+    }
+    if (!await ensureWorkspaceAllowed()) {
+        return;
+    }
+
+    const port = vscode.workspace.getConfiguration('raydoc-context').get<number>('mcp.port', 7333);
+    const httpServer = http.createServer((req, res) => {
+        handleHttpRequest(req, res).catch(err => {
+            console.error('Raydoc MCP request failed:', err);
+            if (!res.headersSent) {
+                res.writeHead(500).end();
+            }
+        });
+    });
+
+    try {
+        await new Promise<void>((resolve, reject) => {
+            httpServer.once('error', reject);
+            // Only this machine can connect
+            httpServer.listen(port, '127.0.0.1', () => resolve());
+        });
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        vscode.window.showErrorMessage(`Raydoc: could not start the MCP server on port ${port}: ${message}`);
+        return;
+    }
+
+    server = httpServer;
+    try {
+        sessionToken = createMcpToken(port);
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        vscode.window.showErrorMessage(`Raydoc: could not write the MCP server's token to ${getMcpTokenPath(port)}: ${message}`);
+        await stopMcpServer();
+        return;
+    }
+    if (statusBarItem) {
+        statusBarItem.text = '$(radio-tower) Raydoc MCP';
+        statusBarItem.tooltip = `Raydoc MCP server running on ${serverUrl()}, with its token in ${getMcpTokenPath(port)}. Click to stop it.`;
+        statusBarItem.show();
+    }
+}
+
+async function stopMcpServer() {
+    statusBarItem?.hide();
+    const running = server;
+    const address = running?.address();
+    server = undefined;
+    if (sessionToken && address && typeof address === 'object') {
+        deleteMcpToken(address.port);
+    }
+    sessionToken = undefined;
+    if (running) {
+        // Not in the Node of older VS Code versions
+        running.closeAllConnections?.();
+        await new Promise<void>(resolve => running.close(() => resolve()));
+    }
+}
+
+function serverUrl(): string {
+    const address = server?.address();
+    const port = address && typeof address === 'object' ? address.port : undefined;
+    return `http://127.0.0.1:${port}/mcp`;
+}
+
+/**
+ * Tools only read files in the workspace folders listed in `mcp.allowed-workspaces`. Context
+ * follows references, callers and tests into every open folder, so all of them must be allowed.
+ * Offer to add the open folders the first time the server is started in them.
+ */
+async function ensureWorkspaceAllowed(): Promise<boolean> {
+    const folders = vscode.workspace.workspaceFolders || [];
+    if (folders.length === 0) {
+        vscode.window.showWarningMessage('Raydoc: open a folder before starting the MCP server.');
+        return false;
+    }
+
+    const notAllowed = folders.filter(folder => !isAllowedFolder(folder));
+    if (notAllowed.length === 0) {
+        return true;
+    }
+
+    const names = notAllowed.map(folder => folder.name).join(', ');
+    const answer = await vscode.window.showWarningMessage(
+        `Raydoc: allow MCP clients on this machine to read code from ${names}?`,
+        { modal: true },
+        'Allow'
+    );
+    if (answer !== 'Allow') {
+        vscode.window.showWarningMessage('Raydoc: the MCP server only runs when every open folder is allowed, as context follows references across folders.');
+        return false;
+    }
+
+    const config = vscode.workspace.getConfiguration('raydoc-context');
+    const allowed = config.get<string[]>('mcp.allowed-workspaces', []);
+    await config.update(
+        'mcp.allowed-workspaces',
+        [...allowed, ...notAllowed.map(folder => folder.uri.fsPath)],
+        vscode.ConfigurationTarget.Global
+    );
+    return true;
+}
+
+// Folders can be opened, or removed from the allow-list, while the server runs
+function assertAllFoldersAllowed() {
+    const notAllowed = (vscode.workspace.workspaceFolders || []).filter(folder => !isAllowedFolder(folder));
+    if (notAllowed.length > 0) {
+        const names = notAllowed.map(folder => folder.name).join(', ');
+        throw new ToolError(`${names} ${notAllowed.length === 1 ? 'is' : 'are'} open in VS Code but not in raydoc-context.mcp.allowed-workspaces, ` +
+            'and context can reach into any open folder. Restart the MCP server to allow them.');
+    }
+}
+
+function isAllowedFolder(folder: vscode.WorkspaceFolder): boolean {
+    const allowed = vscode.workspace.getConfiguration('raydoc-context').get<string[]>('mcp.allowed-workspaces', []);
+    return allowed.some(allowedPath => path.resolve(allowedPath) === path.resolve(folder.uri.fsPath));
+}
+
+// ---- Streamable HTTP transport: one JSON-RPC message (or batch) per POST, answered with JSON ----
+
+async function handleHttpRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+    // Refuse browsers on other sites, which could otherwise reach localhost (DNS rebinding)
+    const origin = req.headers.origin;
+    if (origin && !/^https?:\/\/(localhost|127\.0\.0\.1)(:\d+)?$/.test(origin)) {
+        res.writeHead(403).end();
+        return;
+    }
+    if (req.url?.split('?')[0] !== '/mcp') {
+        res.writeHead(404).end();
+        return;
+    }
+    if (req.method !== 'POST') {
+        // No server-initiated messages, so no event stream to open
+        res.writeHead(405, { 'Allow': 'POST' }).end();
+        return;
+    }
+    if (!isAuthorized(req)) {
+        res.writeHead(401, { 'WWW-Authenticate': 'Bearer' }).end();
+        return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            res.writeHead(413, { 'Connection': 'close' }).end();
+            req.destroy();
+            return;
+        }
+        chunks.push(chunk);
+    }
+
+    let message: unknown;
+    try {
+        message = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+        sendJson(res, { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+        return;
+    }
+    if (Array.isArray(message) && message.length === 0) {
+        sendJson(res, invalidRequest(undefined));
+        return;
+    }
+
+    const requests: unknown[] = Array.isArray(message) ? message : [message];
+    const responses: object[] = [];
+    for (const request of requests) {
+        const response = isJsonRpcRequest(request) ? await handleJsonRpc(request) : invalidRequest(request);
+        if (response) {
+            responses.push(response);
+        }
+    }
+
+    if (responses.length === 0) {
+        // Only notifications
+        res.writeHead(202).end();
+    } else {
+        sendJson(res, Array.isArray(message) ? responses : responses[0]);
+    }
+}
+
+function isAuthorized(req: http.IncomingMessage): boolean {
+    const match = req.headers.authorization?.match(/^Bearer\s+(\S+)$/i);
+    if (!sessionToken || !match) {
+        return false;
+    }
+    const expected = Buffer.from(sessionToken);
+    const actual = Buffer.from(match[1]);
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+function isJsonRpcRequest(value: unknown): value is JsonRpcRequest {
+    return isObject(value) && value.jsonrpc === '2.0' && typeof value.method === 'string' &&
+        (value.id === undefined || typeof value.id === 'string' || typeof value.id === 'number');
+}
+
+// Echo the id when the entry has a usable one, as the client may be waiting on it
+function invalidRequest(entry: unknown): object {
+    const id = isObject(entry) && (typeof entry.id === 'string' || typeof entry.id === 'number') ? entry.id : null;
+    return { jsonrpc: '2.0', id, error: { code: -32600, message: 'Invalid Request' } };
+}
+
+function sendJson(res: http.ServerResponse, body: unknown) {
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+}
+
+async function handleJsonRpc(request: JsonRpcRequest): Promise<object | undefined> {
+    if (request.id === undefined) {
+        // Notifications, e.g. notifications/initialized, need no answer
+        return undefined;
+    }
+
+    const result = (value: unknown) => ({ jsonrpc: '2.0', id: request.id, result: value });
+    const error = (code: number, message: string) => ({ jsonrpc: '2.0', id: request.id, error: { code, message } });
+    const params = isObject(request.params) ? request.params : {};
+
+    switch (request.method) {
+        case 'initialize': {
+            const requested = params.protocolVersion;
+            return result({
+                protocolVersion: typeof requested === 'string' && SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : PROTOCOL_VERSION,
+                capabilities: { tools: {} },
+                serverInfo: { name: 'raydoc-context', version: extensionVersion },
+            });
+        }
+        case 'ping':
+            return result({});
+        case 'tools/list':
+            return result({
+                tools: TOOLS.map(tool => ({ name: tool.name, description: tool.description, inputSchema: tool.inputSchema })),
+            });
+        case 'tools/call': {
+            const tool = TOOLS.find(t => t.name === params.name);
+            if (!tool) {
+                return error(-32602, `Unknown tool: ${params.name}`);
+            }
+            return result(await callTool(tool, isObject(params.arguments) ? params.arguments : {}));
+        }
+        default:
+            return error(-32601, `Method not found: ${request.method}`);
+    }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+async function callTool(tool: Tool, args: Record<string, unknown>): Promise<ToolResult> {
+    try {
+        assertAllFoldersAllowed();
+        return await tool.call(args);
+    } catch (err: unknown) {
+        const message = err instanceof vscode.CancellationError
+            ? 'Cancelled by the user in VS Code.'
+            : err instanceof Error ? err.message : String(err);
+        if (!(err instanceof ToolError) && !(err instanceof vscode.CancellationError)) {
+            console.error(`Raydoc MCP tool ${tool.name} failed:`, err);
+        }
+        return { content: [{ type: 'text', text: message }], isError: true };
+    }
+}
+
+// ---- Tools ----
+
+const FILE_ARGUMENTS = {
+    file: { type: 'string', description: 'Path of the file, absolute or relative to a workspace folder' },
+    line: { type: 'integer', minimum: 1, description: 'Line number, starting at 1' },
+};
+
+const TOOLS: Tool[] = [
+    {
+        name: 'get_context_at',
+        description: 'The context Raydoc copies for a line of code: the enclosing function, the types and functions it uses, ' +
+            'the packages, diagnostics and focused lines, formatted like the Copy Context at Cursor command.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                ...FILE_ARGUMENTS,
+                endLine: { type: 'integer', minimum: 1, description: 'Last line of a range starting at line, to get the context of several functions' },
+            },
+            required: ['file', 'line'],
+        },
+        call: async args => {
+            const doc = await openAllowedDocument(args.file);
+            const context = await gatherContext(doc, getSelection(doc, args.line, args.endLine));
+            if (!context) {
+                throw new ToolError(`No function or type found at ${vscode.workspace.asRelativePath(doc.uri)}:${args.line}.`);
+            }
+            return textResult(renderContext(context).text);
+        },
+    },
+    {
+        name: 'get_function',
+        description: 'The definitions of the functions, methods or types with the given name anywhere in the workspace.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                name: { type: 'string', description: 'Name of the function, method or type' },
+            },
+            required: ['name'],
+        },
+        call: async args => {
+            if (typeof args.name !== 'string' || !args.name) {
+                throw new ToolError('name must be a non-empty string.');
+            }
+
+            const contexts: RaydocContext[] = [];
+            for (const symbol of await getLanguageProvider().workspaceSymbols(args.name)) {
+                const folder = vscode.workspace.getWorkspaceFolder(symbol.location.uri);
+                if (symbol.name !== args.name || !folder || !isAllowedFolder(folder) || isExcludedFile(symbol.location.uri)) {
+                    continue;
+                }
+                const doc = await vscode.workspace.openTextDocument(symbol.location.uri);
+                const isType = TYPE_KINDS.includes(symbol.kind);
+                const defn = await getFunctionDefinition(doc, symbol.location.range.start, isType);
+                if (defn && !contexts.some(c => c.functionDefns?.[0].filename === defn.filename && c.functionDefns?.[0].startLine === defn.startLine)) {
+                    contexts.push({ filepath: defn.filename, line: defn.startLine, languageId: doc.languageId, functionDefns: [defn] });
+                }
+                if (contexts.length >= 5) {
+                    break;
+                }
+            }
+            if (contexts.length === 0) {
+                throw new ToolError(`No function or type named ${args.name} found in the allowed workspaces.`);
+            }
+            return textResult(contexts.map(context => renderSections(context, { functionDefinition: true })).join('\n'));
+        },
+    },
+    {
+        name: 'get_type_definitions',
+        description: 'The definitions of the types used by the function at a line of code.',
+        inputSchema: {
+            type: 'object',
+            properties: FILE_ARGUMENTS,
+            required: ['file', 'line'],
+        },
+        call: async args => {
+            const doc = await openAllowedDocument(args.file);
+            const context = await gatherContext(doc, getSelection(doc, args.line));
+            if (!context?.typeDefns?.length) {
+                throw new ToolError(`No type definitions found for ${vscode.workspace.asRelativePath(doc.uri)}:${args.line}.`);
+            }
+            const { filepath, line, languageId, typeDefns, partial } = context;
+            return textResult(renderSections({ filepath, line, languageId, typeDefns, partial }, { typeDefinitions: true }));
+        },
+    },
+    {
+        name: 'get_packages',
+        description: 'The dependencies, with their resolved versions, of the package a file belongs to.',
+        inputSchema: {
+            type: 'object',
+            properties: { file: FILE_ARGUMENTS.file },
+            required: ['file'],
+        },
+        call: async args => {
+            const doc = await openAllowedDocument(args.file);
+            const packages = await getPackagesForFiles(doc, new Set([doc.uri.fsPath]));
+            if (!packages) {
+                throw new ToolError(`No package manifest found for ${vscode.workspace.asRelativePath(doc.uri)}.`);
+            }
+            return textResult(renderSections({ filepath: vscode.workspace.asRelativePath(doc.uri), line: 0, languageId: doc.languageId, packages }, { packages: true }));
+        },
+    },
+];
+
+const TYPE_KINDS = [
+    vscode.SymbolKind.Class,
+    vscode.SymbolKind.Interface,
+    vscode.SymbolKind.Struct,
+    vscode.SymbolKind.Enum,
+    vscode.SymbolKind.TypeParameter,
+];
+
+function textResult(text: string): ToolResult {
+    return { content: [{ type: 'text', text }] };
+}
+
+// Render only the given sections, in the configured format and with secrets redacted
+function renderSections(context: RaydocContext, sections: Partial<OutputOptions>): string {
+    const none: OutputOptions = {
+        location: false,
+        environment: false,
+        runtimeVersion: false,
+        focusedLines: false,
+        packages: false,
+        fileTree: false,
+        functionDefinition: false,
+        typeDefinitions: false,
+        referencedFunctions: false,
+        incomingCalls: false,
+        tests: false,
+        gitHistory: false,
+        systemMessage: '',
+    };
+    return renderContext(context, { ...none, ...sections, systemMessage: getOutputOptions().systemMessage }).text;
+}
+
+/**
+ * Open a file named by a client, which must be in an allowed workspace folder and not excluded.
+ */
+async function openAllowedDocument(file: unknown): Promise<vscode.TextDocument> {
+    if (typeof file !== 'string' || !file) {
+        throw new ToolError('file must be a non-empty string.');
+    }
+
+    const folders = (vscode.workspace.workspaceFolders || []).filter(isAllowedFolder);
+    const candidates = path.isAbsolute(file)
+        ? [vscode.Uri.file(file)]
+        : folders.map(folder => vscode.Uri.joinPath(folder.uri, file));
+
+    for (const uri of candidates) {
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        if (!folder || !folders.includes(folder)) {
+            continue;
+        }
+        if (isExcludedFile(uri)) {
+            throw new ToolError(`${vscode.workspace.asRelativePath(uri)} matches raydoc-context.exclude-files.`);
+        }
+        try {
+            return await vscode.workspace.openTextDocument(uri);
+        } catch {
+            // Not in this folder, try the next one
+        }
+    }
+    throw new ToolError(`${file} is not a file in a workspace folder allowed by raydoc-context.mcp.allowed-workspaces.`);
+}
+
+function getSelection(doc: vscode.TextDocument, line: unknown, endLine?: unknown): vscode.Selection {
+    const toLine = (value: unknown, name: string) => {
+        if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > doc.lineCount) {
+            throw new ToolError(`${name} must be a line number between 1 and ${doc.lineCount}.`);
+        }
+        return value - 1;
+    };
+
+    const start = toLine(line, 'line');
+    if (endLine === undefined || endLine === line) {
+        return new vscode.Selection(start, 0, start, 0);
+    }
+    const end = toLine(endLine, 'endLine');
+    if (end < start) {
+        throw new ToolError('endLine must not be before line.');
+    }
+    return new vscode.Selection(start, 0, end, doc.lineAt(end).text.length);
+}
@@ -0,0 +1,102 @@
+#!/usr/bin/env node
+import * as http from 'http';
+import * as readline from 'readline';
+
+import { readMcpToken } from './mcpToken';
+
+/**
+ * Bridge for MCP clients that only launch servers over stdio (e.g. Claude Desktop): relays each
+ * newline-delimited JSON-RPC message to the MCP server the extension runs in VS Code, and writes
+ * its answers back to stdout. Takes the port as `--port <port>`, defaulting to raydoc-context.mcp.port's default.
+ * The server's token is read again for each message, as it changes whenever the server restarts.
+ */
+
+const DEFAULT_PORT = 7333;
+
+function getPort(): number {
+    const index = process.argv.indexOf('--port');
+    const port = index === -1 ? DEFAULT_PORT : Number(process.argv[index + 1]);
+    if (!Number.isInteger(port) || port <= 0) {
+        console.error('Usage: raydoc-mcp [--port <port>]');
+        process.exit(2);
+    }
+    return port;
+}
+
+function post(port: number, body: string): Promise<string | undefined> {
+    return new Promise((resolve, reject) => {
+        const token = readMcpToken(port);
+        if (!token) {
+            reject(new Error('no token, so the server is not running'));
+            return;
+        }
+        const req = http.request(
+            {
+                host: '127.0.0.1',
+                port,
+                path: '/mcp',
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Accept': 'application/json, text/event-stream',
+                    'Authorization': `Bearer ${token}`,
+                },
+            },
+            res => {
+                let data = '';
+                res.setEncoding('utf8');
+                res.on('data', chunk => data += chunk);
+                res.on('end', () => {
+                    if (res.statusCode === 202) {
+                        resolve(undefined);
+                    } else if (res.statusCode === 200) {
+                        resolve(data);
+                    } else {
+                        reject(new Error(`HTTP ${res.statusCode}`));
+                    }
+                });
+            }
+        );
+        req.on('error', reject);
+        req.end(body);
+    });
+}
+
+function main() {
+    const port = getPort();
+    const input = readline.createInterface({ input: process.stdin });
+
+    // Answer in order, as clients may rely on it
+    let queue = Promise.resolve();
+    input.on('line', line => {
+        if (!line.trim()) {
+            return;
+        }
+        queue = queue.then(async () => {
+            try {
+                const response = await post(port, line);
+                if (response) {
+                    process.stdout.write(`${response}\n`);
+                }
+            } catch (err: unknown) {
+                const reason = err instanceof Error ? err.message : String(err);
+                let id: unknown;
+                try {
+                    id = JSON.parse(line).id;
+                } catch {
+                    id = null;
+                }
+                if (id !== undefined) {
+                    const message = `Raydoc's MCP server isn't reachable on port ${port} (${reason}). ` +
+                        'Start it in VS Code with "Start Raydoc MCP Server" or the raydoc-context.mcp.enabled setting.';
+                    process.stdout.write(`${JSON.stringify({ jsonrpc: '2.0', id, error: { code: -32000, message } })}\n`);
+                }
+            }
+        });
+    });
+    input.on('close', () => {
+        queue.then(() => process.exit(0));
+    });
+}
+
+main();
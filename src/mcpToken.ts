@@ -0,0 +1,36 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * The MCP server only answers requests that carry the token it generated when it started. It is
+ * written to a file only the user can read, where the stdio bridge (and any HTTP client the user
+ * sets up) picks it up, so other users and web pages on this machine can't ask for code.
+ */
+
+export function getMcpTokenPath(port: number): string {
+    return path.join(os.homedir(), '.raydoc-context', `mcp-${port}.token`);
+}
+
+export function createMcpToken(port: number): string {
+    const token = crypto.randomBytes(32).toString('hex');
+    const tokenPath = getMcpTokenPath(port);
+    fs.mkdirSync(path.dirname(tokenPath), { recursive: true, mode: 0o700 });
+    // Replace rather than rewrite, so a file left by another user keeps none of its permissions
+    fs.rmSync(tokenPath, { force: true });
+    fs.writeFileSync(tokenPath, token, { mode: 0o600 });
+    return token;
+}
+
+export function readMcpToken(port: number): string | undefined {
+    try {
+        return fs.readFileSync(getMcpTokenPath(port), 'utf8').trim() || undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+export function deleteMcpToken(port: number) {
+    fs.rmSync(getMcpTokenPath(port), { force: true });
+}
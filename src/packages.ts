@@ -1,130 +1,832 @@
-import * as vscode from 'vscode';
+import type * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 
-/**
- * Gather package.json dependencies if present (for JS/TS).
- * For other languages, adapt to check e.g. requirements.txt, go.mod, etc.
- */
-export function getPackageDependencies(languageId: string):
-    | Record<string, string>
-    | undefined {
+import { PackageDependency, PackageManifest } from './types';
+import { TomlTable, TomlValue, parseToml } from './toml';
+import {
+    getResolvedVersionsGo,
+    getResolvedVersionsJS,
+    getResolvedVersionsJvm,
+    getResolvedVersionsPhp,
+    getResolvedVersionsPython,
+    getResolvedVersionsRuby,
+    getResolvedVersionsRust,
+    normalizePythonName,
+} from './lockfiles';
+import {
+    findCargoWorkspace,
+    findGoWorkspaceModules,
+    findJsWorkspace,
+    findUp,
+    getStopDir,
+    readGoModulePath,
+    readJsonObject,
+    readToml,
+    stringEntries,
+} from './workspaces';
+import { getLanguageProvider } from './provider';
 
+type ManifestContents = {
+    name?: string;
+    dependencies: Record<string, string | PackageDependency>;
+};
+
+const MANIFEST_NAMES: Record<string, string[]> = {
+    javascript: ['package.json'],
+    go: ['go.mod'],
+    python: ['pyproject.toml', 'Pipfile', 'setup.cfg', 'requirements.txt'],
+    rust: ['Cargo.toml'],
+    jvm: ['pom.xml', 'build.gradle.kts', 'build.gradle'],
+    ruby: ['Gemfile', 'Gemfile.lock'],
+    php: ['composer.json'],
+};
+
+function getEcosystem(languageId: string): string | undefined {
     switch (languageId) {
         case 'javascript':
+        case 'javascriptreact':
         case 'typescript':
-            return getPackageDependenciesJS();
+        case 'typescriptreact':
+            return 'javascript';
+        case 'java':
+        case 'kotlin':
+            return 'jvm';
         case 'go':
-            return getPackageDependenciesGo();
         case 'python':
-            return getPackageDependenciesPython();
         case 'rust':
-            return getPackageDependenciesRust();
+        case 'ruby':
+        case 'php':
+            return languageId;
         default:
             return undefined;
     }
+}
+
+/**
+ * Find the directory of the manifest nearest to the file, walking up to the root of its workspace folder.
+ * In a monorepo this is the package the file belongs to rather than the repository root.
+ */
+export function findPackageDir(languageId: string, fsPath: string): string | undefined {
+    const ecosystem = getEcosystem(languageId);
+    if (!ecosystem) {
+        return undefined;
+    }
 
+    const manifestNames = MANIFEST_NAMES[ecosystem];
+    return findUp(path.dirname(fsPath), getStopDir(fsPath), dir =>
+        manifestNames.some(name => fs.existsSync(path.join(dir, name)))
+    );
 }
 
-function getPackageDependenciesJS(): Record<string, string> | undefined {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders?.length) {
+/**
+ * Gather package.json dependencies if present (for JS/TS).
+ * For other languages, adapt to check e.g. requirements.txt, go.mod, etc.
+ * Each dependency keeps the range from the manifest and, when a lockfile is present,
+ * the version that is actually installed. Dependencies on other packages of the same
+ * workspace point at their directory in `replacement`.
+ */
+export function getPackageDependencies(languageId: string, packageDir: string): PackageManifest | undefined {
+    const ecosystem = getEcosystem(languageId);
+    if (!ecosystem) {
         return undefined;
     }
-    const rootPath = workspaceFolders[0].uri.fsPath;
-    const pkgPath = path.join(rootPath, 'package.json');
-    if (!fs.existsSync(pkgPath)) {
+
+    const manifestName = MANIFEST_NAMES[ecosystem].find(name => fs.existsSync(path.join(packageDir, name)));
+    if (!manifestName) {
         return undefined;
     }
+    const manifestPath = path.join(packageDir, manifestName);
+    const stopDir = getStopDir(manifestPath);
 
-    try {
-        const content = fs.readFileSync(pkgPath, 'utf-8');
-        const pkgJson = JSON.parse(content);
-        return {
-            ...pkgJson.dependencies,
-            ...pkgJson.devDependencies,
-        } as Record<string, string>;
-    } catch (err) {
+    let contents: ManifestContents | undefined;
+    let resolvedVersions: Record<string, string> | undefined;
+    let normalizeName: ((name: string) => string) | undefined;
+    switch (ecosystem) {
+        case 'javascript':
+            contents = getPackageDependenciesJS(packageDir, stopDir);
+            resolvedVersions = getResolvedVersionsJS(packageDir, stopDir, requiredVersions(contents));
+            break;
+        case 'go':
+            contents = getPackageDependenciesGo(packageDir, stopDir);
+            resolvedVersions = getResolvedVersionsGo(packageDir, stopDir, requiredVersions(contents));
+            break;
+        case 'python':
+            contents = getPackageDependenciesPython(packageDir);
+            resolvedVersions = getResolvedVersionsPython(packageDir, stopDir);
+            normalizeName = normalizePythonName;
+            break;
+        case 'rust':
+            contents = getPackageDependenciesRust(packageDir, stopDir);
+            resolvedVersions = getResolvedVersionsRust(packageDir, stopDir);
+            break;
+        case 'jvm':
+            contents = getPackageDependenciesJvm(manifestPath);
+            resolvedVersions = getResolvedVersionsJvm(packageDir, stopDir);
+            break;
+        case 'ruby':
+            contents = getPackageDependenciesRuby(packageDir);
+            resolvedVersions = getResolvedVersionsRuby(packageDir, stopDir);
+            break;
+        case 'php':
+            contents = getPackageDependenciesPhp(packageDir);
+            resolvedVersions = getResolvedVersionsPhp(packageDir, stopDir);
+            break;
+    }
+    if (!contents) {
         return undefined;
     }
+
+    return {
+        name: contents.name,
+        manifestPath: getLanguageProvider().asRelativePath(manifestPath),
+        dependencies: withResolvedVersions(contents.dependencies, resolvedVersions, normalizeName),
+    };
+}
+
+// The version or range the manifest requires of each dependency
+function requiredVersions(contents: ManifestContents | undefined): Record<string, string> {
+    const versions: Record<string, string> = {};
+    for (const [name, dependency] of Object.entries(contents?.dependencies || {})) {
+        versions[name] = typeof dependency === 'string' ? dependency : dependency.version;
+    }
+    return versions;
+}
+
+function withResolvedVersions(
+    deps: Record<string, string | PackageDependency>,
+    resolvedVersions: Record<string, string> | undefined,
+    normalizeName: (name: string) => string = name => name,
+): Record<string, PackageDependency> {
+    const packages: Record<string, PackageDependency> = {};
+    for (const [name, dependency] of Object.entries(deps)) {
+        const parsed = typeof dependency === 'string' ? { version: dependency } : dependency;
+        packages[name] = {
+            ...parsed,
+            resolved: parsed.resolved ?? resolvedVersions?.[normalizeName(name)],
+        };
+    }
+    return packages;
 }
 
-function getPackageDependenciesGo(): Record<string, string> | undefined {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders?.length) {
+function getPackageDependenciesJS(packageDir: string, stopDir: string): ManifestContents | undefined {
+    const pkgJson = readJsonObject(path.join(packageDir, 'package.json'));
+    if (!pkgJson) {
         return undefined;
     }
-    const rootPath = workspaceFolders[0].uri.fsPath;
-    const modPath = path.join(rootPath, 'go.mod');
+
+    const dependencies: Record<string, string | PackageDependency> = {
+        ...stringEntries(pkgJson.dependencies),
+        ...stringEntries(pkgJson.devDependencies),
+    };
+
+    // Point dependencies on sibling workspace packages at their source instead of the registry
+    const workspace = findJsWorkspace(packageDir, stopDir);
+    for (const [name, range] of Object.entries(dependencies)) {
+        const memberDir = workspace?.members.get(name);
+        if (memberDir && memberDir !== packageDir) {
+            const version = readJsonObject(path.join(memberDir, 'package.json'))?.version;
+            dependencies[name] = {
+                version: String(range),
+                resolved: typeof version === 'string' ? version : undefined,
+                replacement: getLanguageProvider().asRelativePath(memberDir),
+            };
+        }
+    }
+
+    return { name: typeof pkgJson.name === 'string' ? pkgJson.name : undefined, dependencies };
+}
+
+function getPackageDependenciesGo(packageDir: string, stopDir: string): ManifestContents | undefined {
+    const modPath = path.join(packageDir, 'go.mod');
     if (!fs.existsSync(modPath)) {
         return undefined;
     }
 
+    let dependencies: Record<string, PackageDependency>;
     try {
-        const content = fs.readFileSync(modPath, 'utf-8');
-        const lines = content.split('\n');
-        const deps: Record<string, string> = {};
-        for (const line of lines) {
-            const parts = line.split(' ');
-            if (parts.length >= 2) {
-                deps[parts[0]] = parts[1];
+        dependencies = parseGoMod(fs.readFileSync(modPath, 'utf-8'));
+    } catch (err) {
+        return undefined;
+    }
+
+    // Modules used by a go.work workspace are built from their directory
+    const workspaceModules = findGoWorkspaceModules(packageDir, stopDir);
+    for (const [modulePath, dependency] of Object.entries(dependencies)) {
+        const moduleDir = workspaceModules?.get(modulePath);
+        if (moduleDir && !dependency.replacement) {
+            dependency.replacement = getLanguageProvider().asRelativePath(moduleDir);
+        }
+    }
+
+    return { name: readGoModulePath(packageDir), dependencies };
+}
+
+/**
+ * Parse the require and replace directives of a go.mod file, both single-line
+ * (`require example.com/mod v1.2.3`) and block form (`require ( ... )`).
+ */
+export function parseGoMod(content: string): Record<string, PackageDependency> {
+    const deps: Record<string, PackageDependency> = {};
+    const replacements: Record<string, string> = {};
+    let block: string | undefined;
+
+    for (const rawLine of content.split(/\r?\n/)) {
+        const indirect = /\/\/\s*indirect\b/.test(rawLine);
+        const line = rawLine.replace(/\/\/.*$/, '').trim();
+        if (!line) {
+            continue;
+        }
+
+        let directive: string | undefined;
+        let args: string;
+        if (block) {
+            if (line === ')') {
+                block = undefined;
+                continue;
+            }
+            directive = block;
+            args = line;
+        } else {
+            const match = line.match(/^(\w+)\s*(.*)$/);
+            if (!match) {
+                continue;
+            }
+            if (match[2] === '(') {
+                block = match[1];
+                continue;
             }
+            directive = match[1];
+            args = match[2];
         }
-        return deps;
+
+        if (directive === 'require') {
+            const [modulePath, version] = args.split(/\s+/);
+            if (modulePath && version) {
+                deps[modulePath] = indirect ? { version, indirect } : { version };
+            }
+        } else if (directive === 'replace') {
+            const [from, to] = args.split('=>').map(part => part.trim());
+            if (from && to) {
+                replacements[from.split(/\s+/)[0]] = to.replace(/\s+/g, ' ');
+            }
+        }
+    }
+
+    for (const [modulePath, replacement] of Object.entries(replacements)) {
+        if (deps[modulePath]) {
+            deps[modulePath].replacement = replacement;
+        }
+    }
+
+    return deps;
+}
+
+/**
+ * Merge the dependencies from every Python manifest in the folder. When a package is listed
+ * in more than one, pyproject.toml wins over Pipfile, setup.cfg and requirements.txt.
+ */
+function getPackageDependenciesPython(rootPath: string): ManifestContents | undefined {
+    const manifests: [string, (content: string) => Record<string, PackageDependency>][] = [
+        ['pyproject.toml', parsePyproject],
+        ['Pipfile', parsePipfile],
+        ['setup.cfg', parseSetupCfg],
+        ['requirements.txt', parseRequirementsTxt],
+    ];
+
+    let deps: Record<string, PackageDependency> | undefined;
+    for (const [filename, parse] of manifests) {
+        const manifestPath = path.join(rootPath, filename);
+        if (!fs.existsSync(manifestPath)) {
+            continue;
+        }
+
+        try {
+            deps = { ...parse(fs.readFileSync(manifestPath, 'utf-8')), ...deps };
+        } catch (err) {
+            continue;
+        }
+    }
+    return deps ? { name: getPythonPackageName(rootPath), dependencies: deps } : undefined;
+}
+
+function getPythonPackageName(rootPath: string): string | undefined {
+    const pyproject = readToml(path.join(rootPath, 'pyproject.toml'));
+    const name = asTable(pyproject?.project)?.name ?? asTable(asTable(pyproject?.tool)?.poetry)?.name;
+    if (typeof name === 'string') {
+        return name;
+    }
+
+    try {
+        const setupCfg = fs.readFileSync(path.join(rootPath, 'setup.cfg'), 'utf-8');
+        return setupCfg.match(/^\[metadata\][^[]*?^name\s*[=:]\s*(\S+)/m)?.[1];
     } catch (err) {
         return undefined;
     }
 }
 
-function getPackageDependenciesPython(): Record<string, string> | undefined {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders?.length) {
+/**
+ * Parse a PEP 508 requirement like `requests[security]>=2.8.1,<3; python_version < "3.8"`.
+ */
+export function parseRequirement(requirement: string): { name: string, dependency: PackageDependency } | undefined {
+    const [spec, marker] = requirement.split(';', 2).map(part => part.trim());
+    const match = spec.match(/^([A-Za-z0-9][A-Za-z0-9._-]*)\s*(?:\[([^\]]*)\])?\s*(.*)$/);
+    if (!match) {
         return undefined;
     }
-    const rootPath = workspaceFolders[0].uri.fsPath;
-    const reqPath = path.join(rootPath, 'requirements.txt');
-    if (!fs.existsSync(reqPath)) {
+
+    const [, name, extras, rest] = match;
+    const dependency: PackageDependency = {
+        // Direct references (`name @ https://...`) keep the URL as their version
+        version: rest.replace(/^@\s*/, '').replace(/^\((.*)\)$/, '$1').replace(/\s+/g, '') || '*',
+    };
+    if (extras && extras.trim()) {
+        dependency.extras = extras.split(',').map(extra => extra.trim()).filter(extra => extra);
+    }
+    if (marker) {
+        dependency.marker = marker;
+    }
+    return { name, dependency };
+}
+
+function addRequirements(deps: Record<string, PackageDependency>, requirements: TomlValue | undefined) {
+    if (!Array.isArray(requirements)) {
+        return;
+    }
+    for (const requirement of requirements) {
+        const parsed = typeof requirement === 'string' ? parseRequirement(requirement) : undefined;
+        if (parsed) {
+            deps[parsed.name] = parsed.dependency;
+        }
+    }
+}
+
+function parseRequirementsTxt(content: string): Record<string, PackageDependency> {
+    const deps: Record<string, PackageDependency> = {};
+    // Join backslash continuations before splitting into requirements
+    const lines = content.replace(/\\\r?\n/g, ' ').split(/\r?\n/);
+    for (const rawLine of lines) {
+        const line = rawLine.replace(/(^|\s)#.*$/, '').trim();
+        // Skip options such as -r other.txt, -e ., --index-url
+        if (!line || line.startsWith('-')) {
+            continue;
+        }
+        // Drop per-requirement options like --hash
+        const parsed = parseRequirement(line.replace(/\s--\S+(\s*=?\s*\S+)?/g, ''));
+        if (parsed) {
+            deps[parsed.name] = parsed.dependency;
+        }
+    }
+    return deps;
+}
+
+// Both PEP 621 ([project]) and Poetry ([tool.poetry]) layouts
+function parsePyproject(content: string): Record<string, PackageDependency> {
+    const pyproject = parseToml(content);
+    const deps: Record<string, PackageDependency> = {};
+
+    const project = asTable(pyproject.project);
+    addRequirements(deps, project?.dependencies);
+    for (const group of Object.values(asTable(project?.['optional-dependencies']) || {})) {
+        addRequirements(deps, group);
+    }
+    for (const group of Object.values(asTable(pyproject['dependency-groups']) || {})) {
+        addRequirements(deps, group);
+    }
+
+    const poetry = asTable(asTable(pyproject.tool)?.poetry);
+    const poetryTables = [poetry?.dependencies, poetry?.['dev-dependencies']];
+    for (const group of Object.values(asTable(poetry?.group) || {})) {
+        poetryTables.push(asTable(group)?.dependencies);
+    }
+    for (const table of poetryTables) {
+        addTomlDependencies(deps, table);
+    }
+    // Poetry lists the Python version itself as a dependency
+    delete deps.python;
+
+    return deps;
+}
+
+function parsePipfile(content: string): Record<string, PackageDependency> {
+    const pipfile = parseToml(content);
+    const deps: Record<string, PackageDependency> = {};
+    addTomlDependencies(deps, pipfile.packages);
+    addTomlDependencies(deps, pipfile['dev-packages']);
+    return deps;
+}
+
+function parseSetupCfg(content: string): Record<string, PackageDependency> {
+    const deps: Record<string, PackageDependency> = {};
+    let section = '';
+    let collecting = false;
+
+    for (const rawLine of content.split(/\r?\n/)) {
+        const line = rawLine.replace(/(^|\s)[#;].*$/, '');
+        const header = line.trim().match(/^\[(.+)\]$/);
+        if (header) {
+            section = header[1].trim();
+            collecting = false;
+            continue;
+        }
+
+        // Values continue on indented lines
+        if (collecting && /^\s+\S/.test(line)) {
+            const parsed = parseRequirement(line.trim());
+            if (parsed) {
+                deps[parsed.name] = parsed.dependency;
+            }
+            continue;
+        }
+        collecting = false;
+
+        const option = line.match(/^([\w.-]+)\s*[=:]\s*(.*)$/);
+        if (option && (
+            (section === 'options' && option[1] === 'install_requires') ||
+            section === 'options.extras_require'
+        )) {
+            collecting = true;
+            const parsed = option[2].trim() ? parseRequirement(option[2].trim()) : undefined;
+            if (parsed) {
+                deps[parsed.name] = parsed.dependency;
+            }
+        }
+    }
+
+    return deps;
+}
+
+// Tables of `name = "version"` or `name = { version = "...", extras = [...] }`, as in Poetry, Pipfile and Cargo
+function addTomlDependencies(deps: Record<string, PackageDependency>, table: TomlValue | undefined) {
+    for (const [name, value] of Object.entries(asTable(table) || {})) {
+        if (typeof value === 'string') {
+            deps[name] = { version: value };
+            continue;
+        }
+
+        const details = asTable(value);
+        if (!details) {
+            continue;
+        }
+        const dependency: PackageDependency = {
+            version: typeof details.version === 'string'
+                ? details.version
+                : String(details.git || details.path || details.url || '*'),
+        };
+        if (typeof details.path === 'string') {
+            dependency.replacement = details.path;
+        }
+        if (Array.isArray(details.extras) || Array.isArray(details.features)) {
+            dependency.extras = ((details.extras || details.features) as TomlValue[]).map(String);
+        }
+        if (typeof details.markers === 'string') {
+            dependency.marker = details.markers;
+        }
+        deps[name] = dependency;
+    }
+}
+
+function asTable(value: TomlValue | undefined): TomlTable | undefined {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : undefined;
+}
+
+function getPackageDependenciesRust(packageDir: string, stopDir: string): ManifestContents | undefined {
+    const manifest = readToml(path.join(packageDir, 'Cargo.toml'));
+    if (!manifest) {
         return undefined;
     }
 
-    try {
-        const content = fs.readFileSync(reqPath, 'utf-8');
-        const lines = content.split('\n');
-        const deps: Record<string, string> = {};
-        for (const line of lines) {
-            const parts = line.split('==');
-            if (parts.length >= 2) {
-                deps[parts[0]] = parts[1];
+    const workspace = findCargoWorkspace(packageDir, stopDir);
+    const workspaceDependencies = asTable(asTable(workspace?.manifest.workspace)?.dependencies);
+
+    const deps: Record<string, PackageDependency> = {};
+    addTomlDependencies(deps, manifest.dependencies);
+    addTomlDependencies(deps, manifest['dev-dependencies']);
+    // A virtual workspace manifest only has the shared [workspace.dependencies]
+    if (!manifest.package && workspace?.root === packageDir) {
+        addTomlDependencies(deps, workspaceDependencies);
+    }
+
+    // `foo = { workspace = true }` inherits the version declared by the workspace
+    const inherited: Record<string, PackageDependency> = {};
+    addTomlDependencies(inherited, workspaceDependencies);
+    for (const table of [manifest.dependencies, manifest['dev-dependencies']]) {
+        for (const [name, value] of Object.entries(asTable(table) || {})) {
+            if (asTable(value)?.workspace === true && inherited[name]) {
+                deps[name] = { ...inherited[name], ...deps[name], version: inherited[name].version };
             }
         }
-        return deps;
+    }
+
+    const name = asTable(manifest.package)?.name;
+    return { name: typeof name === 'string' ? name : undefined, dependencies: deps };
+}
+
+function getPackageDependenciesJvm(manifestPath: string): ManifestContents | undefined {
+    let content: string;
+    try {
+        content = fs.readFileSync(manifestPath, 'utf-8');
     } catch (err) {
         return undefined;
     }
+
+    if (path.basename(manifestPath) === 'pom.xml') {
+        return parsePomXml(content);
+    }
+
+    // The project name lives in the settings file next to the build file
+    const settings = ['settings.gradle.kts', 'settings.gradle']
+        .map(name => path.join(path.dirname(manifestPath), name))
+        .find(settingsPath => fs.existsSync(settingsPath));
+    const name = settings
+        ? fs.readFileSync(settings, 'utf-8').match(/rootProject\.name\s*=\s*["']([^"']+)["']/)?.[1]
+        : undefined;
+    return { name, dependencies: parseGradleBuild(content) };
 }
 
-function getPackageDependenciesRust(): Record<string, string> | undefined {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders?.length) {
-        return undefined;
+/**
+ * Parse the dependencies of a Maven pom.xml, keyed by "groupId:artifactId". Versions that use
+ * properties (`${junit.version}`) are filled in from the pom's <properties>. Managed dependencies
+ * and build plugins are not dependencies of the project itself, so they are skipped.
+ */
+function parsePomXml(content: string): ManifestContents {
+    const xml = content.replace(/<!--[\s\S]*?-->/g, '');
+    const tagText = (block: string, tag: string) =>
+        block.match(new RegExp(`<${tag}>\\s*([^<]*?)\\s*</${tag}>`))?.[1];
+
+    const parent = xml.match(/<parent>([\s\S]*?)<\/parent>/)?.[1] || '';
+    const project = xml
+        .replace(/<parent>[\s\S]*?<\/parent>/, '')
+        .replace(/<dependencyManagement>[\s\S]*?<\/dependencyManagement>/g, '')
+        .replace(/<build>[\s\S]*?<\/build>/g, '')
+        .replace(/<profiles>[\s\S]*?<\/profiles>/g, '');
+
+    // The project's own coordinates come before its dependencies
+    const header = project.split(/<dependencies>/)[0];
+    const groupId = tagText(header, 'groupId') ?? tagText(parent, 'groupId');
+    const artifactId = tagText(header, 'artifactId');
+
+    const properties: Record<string, string> = {};
+    const propertiesBlock = project.match(/<properties>([\s\S]*?)<\/properties>/)?.[1] || '';
+    for (const match of propertiesBlock.matchAll(/<([\w.-]+)>\s*([^<]*?)\s*<\/\1>/g)) {
+        properties[match[1]] = match[2];
     }
-    const rootPath = workspaceFolders[0].uri.fsPath;
-    const tomlPath = path.join(rootPath, 'Cargo.toml');
-    if (!fs.existsSync(tomlPath)) {
-        return undefined;
+    const projectVersion = tagText(header, 'version') ?? tagText(parent, 'version');
+    if (projectVersion) {
+        properties['project.version'] = projectVersion;
+    }
+    const interpolate = (value: string) => value.replace(/\$\{([^}]+)\}/g, (placeholder, name: string) => properties[name] ?? placeholder);
+
+    const deps: Record<string, PackageDependency> = {};
+    for (const match of project.matchAll(/<dependency>([\s\S]*?)<\/dependency>/g)) {
+        const depGroupId = tagText(match[1], 'groupId');
+        const depArtifactId = tagText(match[1], 'artifactId');
+        if (!depGroupId || !depArtifactId) {
+            continue;
+        }
+        const version = tagText(match[1], 'version');
+        // Versions left out are managed by the parent or an imported BOM
+        deps[`${interpolate(depGroupId)}:${interpolate(depArtifactId)}`] = { version: version ? interpolate(version) : '*' };
+    }
+
+    return {
+        name: groupId && artifactId ? `${interpolate(groupId)}:${interpolate(artifactId)}` : artifactId,
+        dependencies: deps,
+    };
+}
+
+const GRADLE_CONFIGURATIONS = [
+    'api',
+    'implementation',
+    'compileOnly',
+    'runtimeOnly',
+    'annotationProcessor',
+    'kapt',
+    'ksp',
+    'testImplementation',
+    'testCompileOnly',
+    'testRuntimeOnly',
+    'androidTestImplementation',
+    'debugImplementation',
+    // Removed in Gradle 7, still found in older builds
+    'compile',
+    'testCompile',
+].join('|');
+
+/**
+ * Parse the external dependencies of a build.gradle or build.gradle.kts file, keyed by "group:name":
+ * string notation (`implementation("group:name:version")`, also inside `platform(...)`) and
+ * map notation (`implementation group: 'group', name: 'name', version: 'version'`).
+ */
+export function parseGradleBuild(content: string): Record<string, PackageDependency> {
+    const build = content.replace(/\/\*[\s\S]*?\*\//g, '').replace(/(^|[^:])\/\/.*$/gm, '$1');
+    const deps: Record<string, PackageDependency> = {};
+
+    const stringNotation = new RegExp(
+        `\\b(?:${GRADLE_CONFIGURATIONS})\\s*\\(?\\s*(?:(?:platform|enforcedPlatform)\\s*\\(\\s*)?["']([^"':\\s]+):([^"':\\s]+)(?::([^"'\\s]+))?["']`,
+        'g'
+    );
+    for (const match of build.matchAll(stringNotation)) {
+        const [, group, name, version] = match;
+        // Drop the classifier or artifact type, e.g. 1.0@aar
+        deps[`${group}:${name}`] = { version: version ? version.replace(/@.*$/, '') : '*' };
+    }
+
+    const mapNotation = new RegExp(
+        `\\b(?:${GRADLE_CONFIGURATIONS})\\s*\\(?\\s*group\\s*[:=]\\s*["']([^"']+)["']\\s*,\\s*name\\s*[:=]\\s*["']([^"']+)["'](?:\\s*,\\s*version\\s*[:=]\\s*["']([^"']+)["'])?`,
+        'g'
+    );
+    for (const match of build.matchAll(mapNotation)) {
+        const [, group, name, version] = match;
+        deps[`${group}:${name}`] = { version: version || '*' };
     }
 
+    return deps;
+}
+
+/**
+ * Read the gems from the Gemfile, or from the DEPENDENCIES of Gemfile.lock when there is no Gemfile.
+ */
+function getPackageDependenciesRuby(packageDir: string): ManifestContents | undefined {
+    const gemfilePath = path.join(packageDir, 'Gemfile');
+    const lockPath = path.join(packageDir, 'Gemfile.lock');
     try {
-        const content = fs.readFileSync(tomlPath, 'utf-8');
-        const deps: Record<string, string> = {};
-        const toml = require('toml');
-        const parsed = toml.parse(content);
-        const dependencies = parsed.dependencies || {};
-        for (const [name, version] of Object.entries(dependencies)) {
-            deps[name] = version as string;
-        }
-        return deps;
+        if (fs.existsSync(gemfilePath)) {
+            return { dependencies: parseGemfile(fs.readFileSync(gemfilePath, 'utf-8')) };
+        }
+        return { dependencies: parseGemfileLockDependencies(fs.readFileSync(lockPath, 'utf-8')) };
     } catch (err) {
         return undefined;
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Parse the `gem` lines of a Gemfile, e.g. `gem 'rails', '~> 7.0', '>= 7.0.4'` or `gem 'core', path: 'engines/core'`.
+ */
+export function parseGemfile(content: string): Record<string, PackageDependency> {
+    const deps: Record<string, PackageDependency> = {};
+    for (const rawLine of content.split(/\r?\n/)) {
+        const line = rawLine.replace(/#.*$/, '').trim();
+        const match = line.match(/^gem\s*\(?\s*["']([^"']+)["']\s*(.*)$/);
+        if (!match) {
+            continue;
+        }
+
+        const [, name, rest] = match;
+        // Version requirements come first, options like require: or group: after them
+        const requirements: string[] = [];
+        let remaining = rest;
+        let requirement: RegExpMatchArray | null;
+        while ((requirement = remaining.match(/^\s*,\s*["']([^"']+)["']/))) {
+            requirements.push(requirement[1]);
+            remaining = remaining.slice(requirement[0].length);
+        }
+
+        const dependency: PackageDependency = { version: requirements.join(', ') || '*' };
+        const source = rest.match(/\b(path|git|github):\s*["']([^"']+)["']|:(path|git|github)\s*=>\s*["']([^"']+)["']/);
+        if (source) {
+            dependency.replacement = source[2] ?? source[4];
+        }
+        deps[name] = dependency;
+    }
+    return deps;
+}
+
+/**
+ * Parse the DEPENDENCIES section of a Gemfile.lock: the gems the Gemfile asks for, with their requirements.
+ * Gems from a path or git source are marked with "!".
+ */
+export function parseGemfileLockDependencies(content: string): Record<string, PackageDependency> {
+    const deps: Record<string, PackageDependency> = {};
+    let inDependencies = false;
+    for (const line of content.split(/\r?\n/)) {
+        if (/^\S/.test(line)) {
+            inDependencies = line.trim() === 'DEPENDENCIES';
+            continue;
+        }
+        const match = inDependencies && line.match(/^ {2}([^\s(!]+)!?(?: \(([^)]*)\))?$/);
+        if (match) {
+            deps[match[1]] = { version: match[2] || '*' };
+        }
+    }
+    return deps;
+}
+
+function getPackageDependenciesPhp(packageDir: string): ManifestContents | undefined {
+    const composerJson = readJsonObject(path.join(packageDir, 'composer.json'));
+    if (!composerJson) {
+        return undefined;
+    }
+
+    const dependencies: Record<string, string> = {};
+    for (const [name, version] of Object.entries({ ...stringEntries(composerJson.require), ...stringEntries(composerJson['require-dev']) })) {
+        // The PHP version and extensions are platform requirements, not packages
+        if (name === 'php' || name.startsWith('ext-') || name.startsWith('lib-')) {
+            continue;
+        }
+        dependencies[name] = version;
+    }
+
+    return { name: typeof composerJson.name === 'string' ? composerJson.name : undefined, dependencies };
+}
+
+/**
+ * Keep only the dependencies that the given source files import.
+ */
+export function filterToImportedDependencies(
+    languageId: string,
+    manifest: PackageManifest,
+    sources: string[]
+): PackageManifest {
+    const imports = new Set(sources.flatMap(source => getImportedModules(languageId, source)));
+    const isImported = (name: string): boolean => {
+        switch (getEcosystem(languageId)) {
+            case 'go':
+                // Go imports name packages inside the module, e.g. github.com/a/b/sub
+                return Array.from(imports).some(imported => imported === name || imported.startsWith(`${name}/`));
+            case 'python':
+            case 'rust':
+                // Distribution and crate names use "-" where the import uses "_"
+                return imports.has(name.toLowerCase().replace(/[-.]/g, '_'));
+            case 'jvm': {
+                // Artifacts rarely match their packages, so match imports against the group, e.g. org.junit.jupiter
+                const group = name.split(':')[0];
+                return Array.from(imports).some(imported => imported === group || imported.startsWith(`${group}.`));
+            }
+            case 'ruby':
+                // rspec-rails is required as rspec/rails, activesupport as active_support
+                return imports.has(normalizeRubyName(name));
+            case 'php':
+                // Composer names are vendor/package, namespaces start with the vendor, e.g. GuzzleHttp\Client
+                return imports.has(name.split('/')[0].replace(/-/g, ''));
+            default:
+                return imports.has(name);
+        }
+    };
+
+    const dependencies: Record<string, PackageDependency> = {};
+    for (const [name, dependency] of Object.entries(manifest.dependencies)) {
+        if (isImported(name)) {
+            dependencies[name] = dependency;
+        }
+    }
+    return { ...manifest, dependencies };
+}
+
+function getImportedModules(languageId: string, source: string): string[] {
+    const modules: string[] = [];
+    const collect = (regex: RegExp, toModule: (specifier: string) => string | undefined) => {
+        for (const match of source.matchAll(regex)) {
+            const module = toModule(match[1]);
+            if (module) {
+                modules.push(module);
+            }
+        }
+    };
+
+    switch (getEcosystem(languageId)) {
+        case 'javascript':
+            // import x from 'pkg', import 'pkg', export * from 'pkg', require('pkg'), import('pkg')
+            collect(/(?:\bfrom\s*|\bimport\s*\(?\s*|\brequire\s*\(\s*)['"]([^'"]+)['"]/g, specifier => {
+                if (specifier.startsWith('.') || specifier.startsWith('/')) {
+                    return undefined;
+                }
+                const parts = specifier.split('/');
+                return specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+            });
+            break;
+        case 'python':
+            for (const match of source.matchAll(/^\s*(?:from\s+([A-Za-z_][\w.]*)\s+import|import\s+([\w., ]+))/gm)) {
+                const names = match[1] ? [match[1]] : match[2].split(',');
+                for (const name of names) {
+                    modules.push(name.trim().split(/[.\s]/)[0].toLowerCase());
+                }
+            }
+            break;
+        case 'go':
+            collect(/^\s*(?:import\s+)?(?:[\w.]+\s+)?"([^"]+)"/gm, specifier => specifier);
+            break;
+        case 'rust':
+            collect(/\b(?:use|extern\s+crate)\s+([A-Za-z_]\w*)/g, specifier => specifier.toLowerCase());
+            // Fully qualified paths like serde_json::to_string()
+            collect(/\b([A-Za-z_]\w*)::/g, specifier => specifier.toLowerCase());
+            break;
+        case 'jvm':
+            // Java and Kotlin imports, with or without semicolons
+            collect(/^\s*import\s+(?:static\s+)?([\w.]+)/gm, specifier => specifier);
+            break;
+        case 'ruby':
+            collect(/\brequire\s*\(?\s*["']([^"']+)["']/g, specifier => normalizeRubyName(specifier));
+            // Also match gems by the first part of the path, e.g. rspec for rspec/core
+            collect(/\brequire\s*\(?\s*["']([^"'/]+)\//g, specifier => normalizeRubyName(specifier));
+            break;
+        case 'php':
+            collect(/^\s*use\s+(?:function\s+|const\s+)?\\?([A-Za-z_]\w*)/gm, specifier => specifier.toLowerCase());
+            break;
+    }
+    return modules;
+}
+
+function normalizeRubyName(name: string): string {
+    return name.toLowerCase().replace(/[-_/]/g, '');
+}
@@ -0,0 +1,393 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+import { estimateDefinitionTokens, estimateTokens } from './budget';
+import { getFunctionDefinition } from './functions';
+import { getLanguageProvider } from './provider';
+import { getOutputOptions, outputSeparator, renderContext } from './toString';
+import { isExcludedFile, redactionSummary } from './redaction';
+import { FunctionDefinition, Node, OutputOptions, PackageManifest, RaydocContext } from './types';
+
+type PreviewSection = 'functionDefns' | 'typeDefns' | 'referencedFunctions' | 'incomingCalls' | 'tests' | 'packages' | 'fileTree';
+
+type PreviewItem = {
+    // Stable across requests, so it doubles as the key the selection is remembered by
+    id: string;
+    section: PreviewSection;
+    label: string;
+    detail: string;
+    tokens: number;
+    included: boolean;
+    defn?: FunctionDefinition;
+    manifest?: PackageManifest;
+};
+
+// The output option that shows each section
+type SectionOption = Exclude<keyof OutputOptions, 'systemMessage'>;
+
+const SECTIONS: { section: PreviewSection, title: string, option: SectionOption }[] = [
+    { section: 'functionDefns', title: 'Main Functions', option: 'functionDefinition' },
+    { section: 'typeDefns', title: 'Type Definitions', option: 'typeDefinitions' },
+    { section: 'referencedFunctions', title: 'Referenced Functions', option: 'referencedFunctions' },
+    { section: 'incomingCalls', title: 'Incoming Calls', option: 'incomingCalls' },
+    { section: 'tests', title: 'Tests', option: 'tests' },
+    { section: 'packages', title: 'Packages', option: 'packages' },
+    { section: 'fileTree', title: 'File Tree', option: 'fileTree' },
+];
+
+// Unticked items and the last order, kept per workspace
+const SELECTIONS_KEY = 'raydoc-context.previewSelections';
+const MAX_REMEMBERED = 1000;
+
+type RememberedSelections = {
+    excluded: string[];
+    order: string[];
+};
+
+export type PreviewActions = {
+    send: (context: RaydocContext) => Promise<void>;
+    // Called with what was copied, e.g. to record it in the history
+    copied: (context: RaydocContext, output: string, options: OutputOptions) => Promise<void>;
+};
+
+/**
+ * Show the gathered context as a checklist with a live preview of the rendered output,
+ * to pick what goes in before copying or sending it.
+ */
+export function showContextPreview(
+    extensionContext: vscode.ExtensionContext,
+    context: RaydocContext,
+    actions: PreviewActions,
+) {
+    const panel = vscode.window.createWebviewPanel(
+        'raydocContextPreview',
+        `Raydoc: ${path.basename(context.filepath)}:${context.line + 1}`,
+        vscode.ViewColumn.Beside,
+        { enableScripts: true, retainContextWhenHidden: true }
+    );
+
+    const remembered = extensionContext.workspaceState.get<RememberedSelections>(SELECTIONS_KEY, { excluded: [], order: [] });
+    const items = buildItems(context, remembered);
+
+    const update = () => {
+        const selected = applySelection(context, items);
+        const rendered = renderContext(selected.context, selected.options);
+        panel.webview.postMessage({
+            type: 'update',
+            sections: SECTIONS.map(({ section, title }) => ({ section, title })),
+            items: items.map(({ defn, manifest, ...item }) => item),
+            preview: rendered.text,
+            redactions: redactionSummary(rendered.redactions).trim(),
+        });
+    };
+
+    const remember = () => {
+        const ids = new Set(items.map(item => item.id));
+        const selections: RememberedSelections = {
+            excluded: [
+                ...items.filter(item => !item.included).map(item => item.id),
+                ...remembered.excluded.filter(id => !ids.has(id)),
+            ].slice(0, MAX_REMEMBERED),
+            order: [
+                ...items.map(item => item.id),
+                ...remembered.order.filter(id => !ids.has(id)),
+            ].slice(0, MAX_REMEMBERED),
+        };
+        Object.assign(remembered, selections);
+        extensionContext.workspaceState.update(SELECTIONS_KEY, selections);
+    };
+
+    panel.webview.html = getPreviewHtml(panel.webview);
+    panel.webview.onDidReceiveMessage(async message => {
+        // Nothing else awaits this handler, so failures are reported here
+        try {
+            const index = items.findIndex(item => item.id === message.id);
+            switch (message.type) {
+                case 'ready':
+                    break;
+                case 'toggle':
+                    if (index >= 0) {
+                        items[index].included = !!message.included;
+                        remember();
+                    }
+                    break;
+                case 'move': {
+                    // Only reorder within a section
+                    const target = index + message.delta;
+                    if (index >= 0 && target >= 0 && target < items.length && items[target].section === items[index].section) {
+                        [items[index], items[target]] = [items[target], items[index]];
+                        remember();
+                    }
+                    break;
+                }
+                case 'add': {
+                    const item = await pickWorkspaceSymbol();
+                    if (item && !items.some(existing => existing.id === item.id)) {
+                        // Keep sections together: insert after the last item of the same section
+                        const sectionOrder = SECTIONS.findIndex(s => s.section === item.section);
+                        const insertAt = items.findIndex(existing => SECTIONS.findIndex(s => s.section === existing.section) > sectionOrder);
+                        items.splice(insertAt < 0 ? items.length : insertAt, 0, item);
+                        remember();
+                    }
+                    break;
+                }
+                case 'copy': {
+                    const selected = applySelection(context, items);
+                    const output = renderContext(selected.context, selected.options);
+                    await vscode.env.clipboard.writeText(output.text + outputSeparator());
+                    await actions.copied(selected.context, output.text, selected.options);
+                    vscode.window.showInformationMessage(`Raydoc: context copied to clipboard!${redactionSummary(output.redactions)}`);
+                    return;
+                }
+                case 'send':
+                    await actions.send(applySelection(context, items).context);
+                    return;
+            }
+            update();
+        } catch (err: unknown) {
+            if (err instanceof vscode.CancellationError) {
+                vscode.window.setStatusBarMessage('Raydoc: context gathering cancelled.', 3000);
+            } else {
+                vscode.window.showErrorMessage(`Raydoc: ${err instanceof Error ? err.message : String(err)}`);
+            }
+        }
+    });
+}
+
+function buildItems(context: RaydocContext, remembered: RememberedSelections): PreviewItem[] {
+    const options = getOutputOptions();
+    const excluded = new Set(remembered.excluded);
+    const items: PreviewItem[] = [];
+
+    for (const { section, option } of SECTIONS) {
+        const sectionItems: PreviewItem[] = [];
+        if (section === 'packages') {
+            for (const manifest of context.packages || []) {
+                const text = Object.entries(manifest.dependencies).map(([name, dependency]) => `${name}: ${dependency.version}`).join('\n');
+                sectionItems.push({
+                    id: `packages:${manifest.manifestPath}`,
+                    section,
+                    label: manifest.name || manifest.manifestPath,
+                    detail: `${Object.keys(manifest.dependencies).length} dependencies`,
+                    tokens: estimateTokens(text),
+                    included: true,
+                    manifest,
+                });
+            }
+        } else if (section === 'fileTree') {
+            if (context.fileTree) {
+                sectionItems.push({
+                    id: 'fileTree',
+                    section,
+                    label: context.fileTree.name,
+                    detail: `${countFiles(context.fileTree)} files`,
+                    tokens: estimateTokens(treeText(context.fileTree, '')),
+                    included: true,
+                });
+            }
+        } else {
+            for (const defn of context[section] || []) {
+                sectionItems.push(definitionItem(section, defn));
+            }
+        }
+
+        for (const item of sectionItems) {
+            item.included = options[option] === true && !excluded.has(item.id);
+        }
+
+        // Restore the last order; new items keep theirs, after the remembered ones
+        const position = (item: PreviewItem) => {
+            const index = remembered.order.indexOf(item.id);
+            return index < 0 ? Number.MAX_SAFE_INTEGER : index;
+        };
+        items.push(...sectionItems.sort((a, b) => position(a) - position(b)));
+    }
+
+    return items;
+}
+
+function definitionItem(section: PreviewSection, defn: FunctionDefinition): PreviewItem {
+    return {
+        id: `${section}:${defn.filename}:${defn.functionName}`,
+        section,
+        label: defn.functionName,
+        detail: `${defn.filename}:${defn.startLine + 1}`,
+        tokens: estimateDefinitionTokens(defn),
+        included: true,
+        defn,
+    };
+}
+
+/**
+ * The context with only the ticked items, in their order, and the output options that show them.
+ */
+function applySelection(context: RaydocContext, items: PreviewItem[]): { context: RaydocContext, options: OutputOptions } {
+    const included = items.filter(item => item.included);
+    const definitions = (section: PreviewSection) => included.filter(item => item.section === section).map(item => item.defn!);
+    const manifests = included.filter(item => item.section === 'packages').map(item => item.manifest!);
+
+    const options = { ...getOutputOptions() };
+    for (const { section, option } of SECTIONS) {
+        options[option] = included.some(item => item.section === section);
+    }
+
+    return {
+        context: {
+            ...context,
+            functionDefns: definitions('functionDefns'),
+            typeDefns: definitions('typeDefns'),
+            referencedFunctions: definitions('referencedFunctions'),
+            incomingCalls: definitions('incomingCalls'),
+            tests: definitions('tests'),
+            packages: manifests.length > 0 ? manifests : undefined,
+            fileTree: included.some(item => item.section === 'fileTree') ? context.fileTree : undefined,
+        },
+        options,
+    };
+}
+
+/**
+ * Let the user search the workspace symbols and add one as a type definition or referenced function.
+ */
+async function pickWorkspaceSymbol(): Promise<PreviewItem | undefined> {
+    const query = await vscode.window.showInputBox({ prompt: 'Search for a function or type to add' });
+    if (!query) {
+        return undefined;
+    }
+
+    // Files matching exclude-files are never included, not even by hand
+    const symbols = (await getLanguageProvider().workspaceSymbols(query)).filter(symbol => !isExcludedFile(symbol.location.uri));
+    const picked = await vscode.window.showQuickPick(
+        symbols.slice(0, 100).map(symbol => ({
+            label: symbol.name,
+            description: vscode.workspace.asRelativePath(symbol.location.uri),
+            detail: symbol.containerName || undefined,
+            symbol,
+        })),
+        { placeHolder: 'Pick a symbol to add to the context' }
+    );
+    if (!picked) {
+        return undefined;
+    }
+
+    const isType = [
+        vscode.SymbolKind.Class,
+        vscode.SymbolKind.Interface,
+        vscode.SymbolKind.Struct,
+        vscode.SymbolKind.Enum,
+        vscode.SymbolKind.TypeParameter,
+    ].includes(picked.symbol.kind);
+    const doc = await vscode.workspace.openTextDocument(picked.symbol.location.uri);
+    const defn = await getFunctionDefinition(doc, picked.symbol.location.range.start, isType);
+    if (!defn) {
+        vscode.window.showWarningMessage(`Raydoc: could not read the definition of ${picked.symbol.name}.`);
+        return undefined;
+    }
+    return definitionItem(isType ? 'typeDefns' : 'referencedFunctions', defn);
+}
+
+function countFiles(node: Node): number {
+    return node.isDir ? (node.children || []).reduce((count, child) => count + countFiles(child), 0) : 1;
+}
+
+function treeText(node: Node, indent: string): string {
+    return `${indent}${node.name}\n` + (node.children || []).map(child => treeText(child, indent + '    ')).join('');
+}
+
+function getPreviewHtml(webview: vscode.Webview): string {
+    const nonce = Array.from({ length: 32 }, () => Math.floor(Math.random() * 36).toString(36)).join('');
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<style>
+    body { display: flex; gap: 16px; height: 100vh; margin: 0; padding: 8px; box-sizing: border-box; font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+    #items { flex: 0 0 40%; overflow-y: auto; }
+    #preview { flex: 1; overflow: auto; margin: 0; padding: 8px; white-space: pre-wrap; font-family: var(--vscode-editor-font-family); background: var(--vscode-textCodeBlock-background); }
+    h3 { margin: 12px 0 4px; }
+    .item { display: flex; align-items: center; gap: 4px; padding: 2px 0; }
+    .item label { flex: 1; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+    .detail, .tokens { color: var(--vscode-descriptionForeground); font-size: 0.9em; }
+    .actions { display: flex; gap: 8px; margin-bottom: 8px; }
+    button { color: var(--vscode-button-foreground); background: var(--vscode-button-background); border: none; padding: 4px 10px; cursor: pointer; }
+    button.icon { background: transparent; color: var(--vscode-foreground); padding: 0 4px; }
+</style>
+</head>
+<body>
+<div id="items">
+    <div class="actions">
+        <button data-action="copy">Copy</button>
+        <button data-action="send">Send to LLM</button>
+        <button data-action="add">Add…</button>
+    </div>
+    <div id="total" class="tokens"></div>
+    <div id="sections"></div>
+</div>
+<pre id="preview"></pre>
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const sectionsElement = document.getElementById('sections');
+
+    document.querySelectorAll('[data-action]').forEach(button => {
+        button.addEventListener('click', () => vscode.postMessage({ type: button.dataset.action }));
+    });
+
+    window.addEventListener('message', event => {
+        const { sections, items, preview, redactions } = event.data;
+        sectionsElement.replaceChildren();
+        for (const { section, title } of sections) {
+            const sectionItems = items.filter(item => item.section === section);
+            if (sectionItems.length === 0) {
+                continue;
+            }
+            const heading = document.createElement('h3');
+            heading.textContent = title;
+            sectionsElement.appendChild(heading);
+
+            for (const item of sectionItems) {
+                const row = document.createElement('div');
+                row.className = 'item';
+
+                const checkbox = document.createElement('input');
+                checkbox.type = 'checkbox';
+                checkbox.id = item.id;
+                checkbox.checked = item.included;
+                checkbox.addEventListener('change', () => vscode.postMessage({ type: 'toggle', id: item.id, included: checkbox.checked }));
+
+                const label = document.createElement('label');
+                label.htmlFor = item.id;
+                label.title = item.detail;
+                label.textContent = item.label + ' ';
+                const detail = document.createElement('span');
+                detail.className = 'detail';
+                detail.textContent = item.detail;
+                label.appendChild(detail);
+
+                const tokens = document.createElement('span');
+                tokens.className = 'tokens';
+                tokens.textContent = '~' + item.tokens + ' tokens';
+
+                row.append(checkbox, label, tokens);
+                for (const [text, delta] of [['↑', -1], ['↓', 1]]) {
+                    const move = document.createElement('button');
+                    move.className = 'icon';
+                    move.textContent = text;
+                    move.addEventListener('click', () => vscode.postMessage({ type: 'move', id: item.id, delta }));
+                    row.appendChild(move);
+                }
+                sectionsElement.appendChild(row);
+            }
+        }
+
+        const total = items.filter(item => item.included).reduce((sum, item) => sum + item.tokens, 0);
+        document.getElementById('total').textContent = '~' + total + ' tokens selected ' + redactions;
+        document.getElementById('preview').textContent = preview;
+    });
+
+    vscode.postMessage({ type: 'ready' });
+</script>
+</body>
+</html>`;
+}
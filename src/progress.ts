@@ -0,0 +1,83 @@
+import type * as vscode from 'vscode';
+
+import { RaydocContext } from './types';
+import { getLanguageProvider } from './provider';
+
+export type GatherProgress = vscode.Progress<{ message?: string }>;
+
+/**
+ * Run a context gather behind a cancellable progress notification. Cancelling aborts the gather
+ * with a vscode.CancellationError. After `gather-timeout` seconds the token passed to the task is
+ * cancelled too, and whatever the task has gathered by then is returned marked as partial.
+ */
+export async function withGatherProgress(
+    task: (progress: GatherProgress, token: vscode.CancellationToken) => Promise<RaydocContext | undefined>
+): Promise<RaydocContext | undefined> {
+    const provider = getLanguageProvider();
+    const { CancellationTokenSource, CancellationError } = provider.types;
+    const timeoutSeconds = provider.getConfiguration('raydoc-context').get<number>('gather-timeout', 30);
+
+    return provider.withProgress(
+        'Raydoc',
+        async (progress, cancelToken) => {
+            // Cancelled either by the user or by the timeout
+            const stop = new CancellationTokenSource();
+            const cancelled = cancelToken.onCancellationRequested(() => stop.cancel());
+            let timedOut = false;
+            const timer = timeoutSeconds > 0
+                ? setTimeout(() => {
+                    timedOut = true;
+                    stop.cancel();
+                }, timeoutSeconds * 1000)
+                : undefined;
+
+            try {
+                const context = await task(progress, stop.token);
+                if (cancelToken.isCancellationRequested) {
+                    throw new CancellationError();
+                }
+                if (context && timedOut) {
+                    context.partial = true;
+                }
+                return context;
+            } finally {
+                clearTimeout(timer);
+                cancelled.dispose();
+                stop.dispose();
+            }
+        }
+    );
+}
+
+/**
+ * Resolve with the promise, or with the fallback as soon as the token is cancelled,
+ * so a slow language server doesn't hold up a cancelled gather.
+ */
+export function raceCancellation<T>(
+    promise: Thenable<T>,
+    token: vscode.CancellationToken | undefined,
+    fallback: T
+): Promise<T> {
+    if (!token) {
+        return Promise.resolve(promise);
+    }
+    if (token.isCancellationRequested) {
+        return Promise.resolve(fallback);
+    }
+    return new Promise<T>((resolve, reject) => {
+        const subscription = token.onCancellationRequested(() => {
+            subscription.dispose();
+            resolve(fallback);
+        });
+        promise.then(
+            value => {
+                subscription.dispose();
+                resolve(value);
+            },
+            err => {
+                subscription.dispose();
+                reject(err);
+            }
+        );
+    });
+}
@@ -0,0 +1,90 @@
+import type * as vscode from 'vscode';
+
+import type { GatherProgress } from './progress';
+
+/**
+ * The language features that context gathering needs. In the editor they come from the
+ * language extensions through the vscode.execute*Provider commands; the CLI answers them
+ * with the TypeScript language service or an LSP server instead.
+ */
+export type LanguageFeatures = {
+    documentSymbols(uri: vscode.Uri): Promise<vscode.DocumentSymbol[] | undefined>;
+    // Definition, declaration and type definition locations of the symbol at the position
+    definitions(uri: vscode.Uri, position: vscode.Position): Promise<(vscode.Location | vscode.LocationLink)[]>;
+    references(uri: vscode.Uri, position: vscode.Position): Promise<vscode.Location[]>;
+    prepareCallHierarchy(uri: vscode.Uri, position: vscode.Position): Promise<vscode.CallHierarchyItem[]>;
+    incomingCalls(item: vscode.CallHierarchyItem): Promise<vscode.CallHierarchyIncomingCall[]>;
+    diagnostics(uri: vscode.Uri): Promise<vscode.Diagnostic[]>;
+    // Symbols anywhere in the workspace whose name matches the query
+    workspaceSymbols(query: string): Promise<vscode.SymbolInformation[]>;
+};
+
+/**
+ * The vscode classes and enums that context gathering creates or compares values with. The
+ * editor hands over its own; the CLI has implementations of them that tsc checks against these.
+ */
+export type HostTypes = Pick<typeof vscode,
+    | 'Position'
+    | 'Range'
+    | 'Selection'
+    | 'Location'
+    | 'Uri'
+    | 'SymbolKind'
+    | 'DiagnosticSeverity'
+    | 'CancellationTokenSource'
+    | 'CancellationError'
+>;
+
+// The settings under one section, e.g. raydoc-context.output-config
+export type Configuration = {
+    get<T>(key: string): T | undefined;
+    get<T>(key: string, defaultValue: T): T;
+};
+
+/**
+ * Everything context gathering asks of the host it runs in: the workspace's folders, files,
+ * documents and settings, a way to report progress, and the language features. Gathering modules
+ * only import `vscode` for its types, so a call the CLI doesn't answer fails to compile.
+ */
+export type LanguageProvider = LanguageFeatures & {
+    types: HostTypes;
+
+    workspaceFolders(): readonly vscode.WorkspaceFolder[];
+    // The name of the workspace, e.g. for the root of a file tree of several folders
+    workspaceName(): string | undefined;
+    getWorkspaceFolder(uri: vscode.Uri): vscode.WorkspaceFolder | undefined;
+    asRelativePath(pathOrUri: string | vscode.Uri): string;
+    getConfiguration(section: string): Configuration;
+    openTextDocument(uri: vscode.Uri): Promise<vscode.TextDocument>;
+    // Up to maxResults files in the folder matching the include glob and not the exclude glob
+    findFiles(
+        folder: vscode.WorkspaceFolder,
+        include: string,
+        exclude: string,
+        maxResults: number,
+        token?: vscode.CancellationToken
+    ): Promise<vscode.Uri[]>;
+
+    // Show the task's progress where the user can cancel it
+    withProgress<R>(title: string, task: (progress: GatherProgress, token: vscode.CancellationToken) => Promise<R>): Promise<R>;
+    showWarningMessage(message: string): void;
+    showErrorMessage(message: string): void;
+    // Another extension's API, e.g. vscode.git's; the CLI has none
+    getExtension(id: string): vscode.Extension<any> | undefined;
+};
+
+let provider: LanguageProvider | undefined;
+
+export function getLanguageProvider(): LanguageProvider {
+    if (!provider) {
+        throw new Error('No language provider is set; the extension and the CLI set one before gathering context');
+    }
+    return provider;
+}
+
+/**
+ * Answer context gathering's requests with the given host: the editor's (vscodeProvider.ts) or the CLI's.
+ */
+export function setLanguageProvider(languageProvider: LanguageProvider) {
+    provider = languageProvider;
+}
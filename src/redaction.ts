@@ -0,0 +1,142 @@
+import type * as vscode from 'vscode';
+
+import { matchesAnyGlob } from './globs';
+import { getLanguageProvider } from './provider';
+
+export type RedactionRule = {
+    name: string;
+    pattern: RegExp;
+    // The capture group holding the secret; the whole match when not set
+    group?: number;
+    // Only redact matches that look random enough to be a secret: the bits per character a random
+    // base64 string needs, scaled down for values from smaller alphabets such as hex
+    minEntropy?: number;
+};
+
+export type RedactedText = {
+    text: string;
+    // Number of redactions per rule name
+    redactions: Record<string, number>;
+};
+
+const BUILT_IN_RULES: RedactionRule[] = [
+    {
+        name: 'private-key',
+        pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/g,
+    },
+    { name: 'aws-access-key', pattern: /\b(?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16}\b/g },
+    {
+        name: 'aws-secret-key',
+        pattern: /\baws_?secret_?(?:access_?)?key\b["']?\s*[:=]\s*["']?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+        group: 1,
+    },
+    { name: 'github-token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g },
+    { name: 'stripe-key', pattern: /\b(?:sk|rk)_(?:live|test)_[A-Za-z0-9]{10,99}\b/g },
+    { name: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{10,}/g },
+    // e.g. API_KEY = "..." or "client_secret": "...", but not API_KEY = process.env.API_KEY
+    {
+        name: 'secret-assignment',
+        pattern: /\b[A-Za-z0-9_]*_(?:KEY|SECRET)\b["']?\s*(?::=|[:=])\s*(?:["'`]|(?![A-Za-z_$][\w$]*\.[A-Za-z_$]))([A-Za-z0-9/+=_\-.~]{16,})/gi,
+        group: 1,
+        minEntropy: 4,
+    },
+];
+
+/**
+ * Replace secrets in text that is about to leave the extension with `[REDACTED:<rule>]`,
+ * using the built-in detectors and the `redaction.rules` setting.
+ */
+export function redactSecrets(text: string): RedactedText {
+    const config = getLanguageProvider().getConfiguration('raydoc-context.redaction');
+    if (!config.get<boolean>('enabled', true)) {
+        return { text, redactions: {} };
+    }
+
+    const redactions: Record<string, number> = {};
+    let redacted = text;
+    for (const rule of [...BUILT_IN_RULES, ...getUserRules()]) {
+        redacted = redacted.replace(rule.pattern, (match: string, ...groups: unknown[]) => {
+            const secret = rule.group ? groups[rule.group - 1] : match;
+            if (typeof secret !== 'string' || secret.startsWith('[REDACTED')) {
+                return match;
+            }
+            if (rule.minEntropy && shannonEntropy(secret) < entropyThreshold(secret, rule.minEntropy)) {
+                return match;
+            }
+            redactions[rule.name] = (redactions[rule.name] ?? 0) + 1;
+            return match.replace(secret, `[REDACTED:${rule.name}]`);
+        });
+    }
+    return { text: redacted, redactions };
+}
+
+/**
+ * Whether the text holds anything redactSecrets would redact.
+ */
+export function containsSecrets(text: string): boolean {
+    return Object.keys(redactSecrets(text).redactions).length > 0;
+}
+
+// e.g. " (3 secrets redacted: aws-access-key ×2, jwt ×1)", or nothing when there were none
+export function redactionSummary(redactions: Record<string, number>): string {
+    const entries = Object.entries(redactions);
+    const total = entries.reduce((sum, [, count]) => sum + count, 0);
+    if (total === 0) {
+        return '';
+    }
+    const rules = entries.map(([name, count]) => `${name} ×${count}`).join(', ');
+    return ` (${total} ${total === 1 ? 'secret' : 'secrets'} redacted: ${rules})`;
+}
+
+// Only warn once about each invalid user rule
+const warnedPatterns = new Set<string>();
+
+function getUserRules(): RedactionRule[] {
+    const config = getLanguageProvider().getConfiguration('raydoc-context.redaction');
+    const rules = config.get<{ name?: string, pattern: string, flags?: string }[]>('rules', []);
+
+    const userRules: RedactionRule[] = [];
+    for (const rule of rules) {
+        try {
+            const flags = rule.flags ?? '';
+            userRules.push({
+                name: rule.name || 'custom',
+                pattern: new RegExp(rule.pattern, flags.includes('g') ? flags : `${flags}g`),
+            });
+        } catch (err) {
+            if (!warnedPatterns.has(rule.pattern)) {
+                warnedPatterns.add(rule.pattern);
+                getLanguageProvider().showWarningMessage(`Raydoc: ignoring the invalid redaction rule /${rule.pattern}/: ${err}`);
+            }
+        }
+    }
+    return userRules;
+}
+
+// Bits per character; random keys score well above 4, words and identifiers below
+function shannonEntropy(text: string): number {
+    const counts = new Map<string, number>();
+    for (const char of text) {
+        counts.set(char, (counts.get(char) ?? 0) + 1);
+    }
+    let entropy = 0;
+    for (const count of counts.values()) {
+        const p = count / text.length;
+        entropy -= p * Math.log2(p);
+    }
+    return entropy;
+}
+
+// Short strings and small alphabets can't reach a high entropy, so the bar is lower for them
+function entropyThreshold(secret: string, minEntropy: number): number {
+    const alphabetBits = /^[0-9]+$/.test(secret) ? Math.log2(10) : /^[0-9a-f]+$/i.test(secret) ? 4 : 6;
+    return Math.min(minEntropy * alphabetBits / 6, Math.log2(secret.length) - 0.5);
+}
+
+/**
+ * Whether a file matches the `exclude-files` globs and must never be included in the context.
+ */
+export function isExcludedFile(uri: vscode.Uri): boolean {
+    const patterns = getLanguageProvider().getConfiguration('raydoc-context').get<string[]>('exclude-files', []);
+    return matchesAnyGlob(uri, patterns);
+}
@@ -0,0 +1,338 @@
+import * as vscode from 'vscode';
+
+import { isChatAvailable, openContextInChat } from './chat';
+import { FunctionDefinition, RaydocContext } from './types';
+
+export type SendTargetId =
+    | 'copilot'
+    | 'cursor-composer'
+    | 'cursor-chat'
+    | 'windsurf'
+    | 'continue'
+    | 'cline'
+    | 'custom'
+    | 'clipboard';
+
+/**
+ * What a target gets sent: the definitions that may be attached (the ones holding secrets are left
+ * out) and the whole context, rendered and redacted, which is also on the clipboard.
+ */
+export type SendPayload = {
+    context: RaydocContext;
+    definitions: FunctionDefinition[];
+    text: string;
+};
+
+export type SendTarget = {
+    id: SendTargetId;
+    label: string;
+    // Commands that must be registered for the target to work, i.e. its extension is installed
+    commands: () => string[];
+    // The extension behind the target, for targets whose commands are built into VS Code
+    extensionId?: string;
+    send: (payload: SendPayload) => Promise<void>;
+    // Whether it attaches the definitions themselves rather than the rendered text
+    attachesDefinitions: () => boolean;
+    // Shown after sending, e.g. when the user still has to paste
+    hint?: string;
+};
+
+// Chat views that only take the selection need a moment before the next one, or they drop some
+const CURSOR_SETTLE_MS = 50;
+
+// Placeholders in custom arguments that stand for one definition
+const DEFINITION_PLACEHOLDER = /\$\{(uri|path|startLine|endLine)\}/;
+
+const SEND_TARGETS: SendTarget[] = [
+    {
+        id: 'copilot',
+        label: 'GitHub Copilot Chat',
+        commands: () => isChatAvailable() ? ['workbench.action.chat.open'] : ['github.copilot.chat.attachSelection'],
+        // The chat view opens without Copilot too, but then nothing answers in it
+        extensionId: 'GitHub.copilot-chat',
+        // @raydoc references the definitions itself; older VS Code versions only take the selection
+        send: payload => isChatAvailable()
+            ? openContextInChat(payload.context)
+            : attachEachSelection(payload, 'github.copilot.chat.attachSelection'),
+        attachesDefinitions: () => true,
+    },
+    {
+        id: 'cursor-composer',
+        label: 'Cursor Composer',
+        commands: () => ['composer.startComposerPrompt'],
+        send: payload => attachEachSelection(payload, 'composer.startComposerPrompt', CURSOR_SETTLE_MS),
+        attachesDefinitions: () => true,
+    },
+    {
+        id: 'cursor-chat',
+        label: 'Cursor Chat',
+        commands: () => ['aichat.insertselectionintochat'],
+        send: payload => attachEachSelection(payload, 'aichat.insertselectionintochat', CURSOR_SETTLE_MS),
+        attachesDefinitions: () => true,
+    },
+    {
+        id: 'windsurf',
+        label: 'Windsurf Cascade',
+        // Cascade has no command that takes code, so it is opened to paste the context into
+        commands: () => ['windsurf.prioritized.chat.open'],
+        send: async () => {
+            await vscode.commands.executeCommand('windsurf.prioritized.chat.open');
+        },
+        attachesDefinitions: () => false,
+        hint: 'paste it into Cascade',
+    },
+    {
+        id: 'continue',
+        label: 'Continue',
+        commands: () => ['continue.focusContinueInputWithoutClear'],
+        send: payload => attachEachSelection(payload, 'continue.focusContinueInputWithoutClear'),
+        attachesDefinitions: () => true,
+    },
+    {
+        id: 'cline',
+        label: 'Cline',
+        commands: () => ['cline.addToChat'],
+        send: payload => attachEachSelection(payload, 'cline.addToChat'),
+        attachesDefinitions: () => true,
+    },
+    {
+        id: 'custom',
+        label: 'Custom command',
+        // Until raydoc-context.send-target.custom-command is set, the empty command is never registered
+        commands: () => [getCustomCommand() ?? ''],
+        send: async payload => {
+            const command = getCustomCommand()!;
+            const args = getCustomArgs();
+            if (!args) {
+                await attachEachSelection(payload, command);
+            } else if (DEFINITION_PLACEHOLDER.test(JSON.stringify(args))) {
+                // Commands that take a location get each definition by URI, without touching the editor
+                for (const defn of payload.definitions) {
+                    await vscode.commands.executeCommand(command, ...args.map(arg => fillPlaceholders(arg, payload, defn)));
+                }
+            } else {
+                await vscode.commands.executeCommand(command, ...args.map(arg => fillPlaceholders(arg, payload)));
+            }
+        },
+        attachesDefinitions: () => !getCustomArgs(),
+    },
+    {
+        id: 'clipboard',
+        label: 'Clipboard',
+        // The context is always copied, so there is nothing more to do
+        commands: () => [],
+        send: async () => {},
+        attachesDefinitions: () => false,
+    },
+];
+
+export function getSendTargets(): SendTarget[] {
+    return SEND_TARGETS;
+}
+
+export function getSendTarget(id: string): SendTarget | undefined {
+    return SEND_TARGETS.find(target => target.id === id);
+}
+
+/**
+ * The target from raydoc-context.send-target, or for "auto" the chat of the editor Raydoc runs in,
+ * e.g. Cursor or Windsurf, and otherwise the first chat extension that is installed.
+ */
+export async function getConfiguredSendTarget(): Promise<SendTarget> {
+    const config = vscode.workspace.getConfiguration('raydoc-context');
+    const configured = getSendTarget(config.get<string>('send-target', 'auto'));
+    if (configured) {
+        return configured;
+    }
+
+    if (isCursor()) {
+        return getSendTarget('cursor-composer')!;
+    }
+    if (isWindsurf()) {
+        return getSendTarget('windsurf')!;
+    }
+    for (const id of ['copilot', 'continue', 'cline'] as const) {
+        const target = getSendTarget(id)!;
+        if (await isAvailable(target)) {
+            return target;
+        }
+    }
+    return getSendTarget('clipboard')!;
+}
+
+/**
+ * Whether the target's extension is installed and its commands are registered, so sending to it won't fail.
+ */
+export async function isAvailable(target: SendTarget): Promise<boolean> {
+    if (target.extensionId && !vscode.extensions.getExtension(target.extensionId)) {
+        return false;
+    }
+    const registered = new Set(await vscode.commands.getCommands(true));
+    return target.commands().every(command => registered.has(command));
+}
+
+export function isCursor(): boolean {
+    // Cursor will have "Cursor" in its application name
+    return vscode.env.appName.includes('Cursor');
+}
+
+export function isWindsurf(): boolean {
+    return vscode.env.appName.includes('Windsurf');
+}
+
+// Select each definition in the editor and run the command that adds the selection to the chat
+async function attachEachSelection(payload: SendPayload, command: string, settleMs = 0) {
+    const viewState = await saveViewState();
+    try {
+        for (const defn of payload.definitions) {
+            // Open the document the function was found in, whichever workspace folder it belongs to
+            const doc = await vscode.workspace.openTextDocument(defn.uri);
+            // A tab of its own, since replacing the preview tab would lose the user's preview. A file
+            // that is already previewed stays in its preview tab
+            const existing = vscode.window.tabGroups.activeTabGroup.tabs
+                .find(tab => tab.input instanceof vscode.TabInputText && tab.input.uri.toString() === doc.uri.toString());
+            await vscode.window.showTextDocument(doc, {
+                viewColumn: vscode.ViewColumn.Active,
+                preview: existing?.isPreview ?? false,
+                selection: new vscode.Selection(
+                    new vscode.Position(defn.startLine, 0),
+                    new vscode.Position(defn.endLine, doc.lineAt(defn.endLine).text.length)
+                ),
+            });
+
+            const tab = vscode.window.tabGroups.activeTabGroup.activeTab;
+            if (tab?.input instanceof vscode.TabInputText && !viewState.openTabs.has(getTabKey(tab))) {
+                viewState.createdTabs.add(getTabKey(tab));
+            }
+
+            await vscode.commands.executeCommand(command);
+            if (settleMs > 0) {
+                await new Promise(resolve => setTimeout(resolve, settleMs));
+            }
+        }
+    } finally {
+        await restoreViewState(viewState);
+    }
+}
+
+type EditorViewState = {
+    uri: vscode.Uri;
+    viewColumn?: vscode.ViewColumn;
+    selections: readonly vscode.Selection[];
+    visibleRanges: readonly vscode.Range[];
+};
+
+type ViewState = {
+    // From vscode.getEditorLayout, undefined where the editor doesn't have it
+    layout: unknown;
+    groupCount: number;
+    // The visible editors, the active one last
+    editors: EditorViewState[];
+    openTabs: Set<string>;
+    // The tabs opened for the definitions, which are closed again
+    createdTabs: Set<string>;
+};
+
+async function saveViewState(): Promise<ViewState> {
+    let layout: unknown;
+    try {
+        layout = await vscode.commands.executeCommand('vscode.getEditorLayout');
+    } catch {
+        layout = undefined;
+    }
+
+    const active = vscode.window.activeTextEditor;
+    const editors = vscode.window.visibleTextEditors
+        .filter(editor => editor !== active)
+        .concat(active ? [active] : [])
+        .map(editor => ({
+            uri: editor.document.uri,
+            viewColumn: editor.viewColumn,
+            selections: editor.selections,
+            visibleRanges: editor.visibleRanges,
+        }));
+
+    return {
+        layout,
+        groupCount: vscode.window.tabGroups.all.length,
+        editors,
+        openTabs: new Set(getTextTabs().map(getTabKey)),
+        createdTabs: new Set(),
+    };
+}
+
+/**
+ * Close the tabs opened for the definitions and show the editors as they were, with their
+ * selections and scroll positions.
+ */
+async function restoreViewState(viewState: ViewState) {
+    const opened = getTextTabs().filter(tab => viewState.createdTabs.has(getTabKey(tab)));
+    if (opened.length > 0) {
+        await vscode.window.tabGroups.close(opened, true);
+    }
+
+    for (const [index, state] of viewState.editors.entries()) {
+        const isActive = index === viewState.editors.length - 1;
+        const doc = await vscode.workspace.openTextDocument(state.uri);
+        const editor = await vscode.window.showTextDocument(doc, { viewColumn: state.viewColumn, preserveFocus: !isActive });
+        editor.selections = [...state.selections];
+        if (state.visibleRanges.length > 0) {
+            editor.revealRange(state.visibleRanges[0], vscode.TextEditorRevealType.AtTop);
+        }
+    }
+
+    // Only the sizes are put back: a chat that opened in its own group would be closed otherwise
+    if (viewState.layout && vscode.window.tabGroups.all.length === viewState.groupCount) {
+        try {
+            await vscode.commands.executeCommand('vscode.setEditorLayout', viewState.layout);
+        } catch {
+            // Not in this editor
+        }
+    }
+}
+
+// A file can be open in several groups, and only its tab in the group used for attaching is new
+function getTabKey(tab: vscode.Tab): string {
+    return `${tab.group.viewColumn} ${(tab.input as vscode.TabInputText).uri.toString()}`;
+}
+
+function getTextTabs(): vscode.Tab[] {
+    return vscode.window.tabGroups.all
+        .flatMap(group => group.tabs)
+        .filter(tab => tab.input instanceof vscode.TabInputText);
+}
+
+function getCustomCommand(): string | undefined {
+    const config = vscode.workspace.getConfiguration('raydoc-context');
+    return config.get<string>('send-target.custom-command', '').trim() || undefined;
+}
+
+function getCustomArgs(): unknown[] | undefined {
+    const config = vscode.workspace.getConfiguration('raydoc-context');
+    const args = config.get<unknown[]>('send-target.custom-args', []);
+    return Array.isArray(args) && args.length > 0 ? args : undefined;
+}
+
+// Replace the placeholders in the strings of a custom argument, however deep they are
+function fillPlaceholders(arg: unknown, payload: SendPayload, defn?: FunctionDefinition): unknown {
+    if (typeof arg === 'string') {
+        const values: Record<string, string> = {
+            context: payload.text,
+            file: payload.context.filepath,
+            ...defn && {
+                uri: defn.uri.toString(),
+                path: defn.uri.fsPath,
+                startLine: String(defn.startLine + 1),
+                endLine: String(defn.endLine + 1),
+            },
+        };
+        return arg.replace(/\$\{(\w+)\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+    }
+    if (Array.isArray(arg)) {
+        return arg.map(item => fillPlaceholders(item, payload, defn));
+    }
+    if (arg && typeof arg === 'object') {
+        return Object.fromEntries(Object.entries(arg).map(([key, value]) => [key, fillPlaceholders(value, payload, defn)]));
+    }
+    return arg;
+}
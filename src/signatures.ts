@@ -0,0 +1,224 @@
+import type * as vscode from 'vscode';
+import type { DocumentSymbol } from 'vscode';
+
+import { DetailLevel, FunctionDefinition } from './types';
+import { getLanguageProvider } from './provider';
+
+// A line of a summary and the 0-based source line it comes from, -1 for elided bodies
+type SummaryLine = { line: number, text: string };
+
+type Body = {
+    // Last line of the header, e.g. the line with the opening brace
+    headerEndLine: number;
+    // The closing brace or `end`, if the language has one
+    closingLine?: number;
+};
+
+/**
+ * Cut a definition down to the given detail level, using its DocumentSymbol tree:
+ * - signature: function headers with their doc comments and bodies elided as `...`,
+ *   and for classes their fields and method signatures
+ * - outline: the same without doc comments, and nested classes only by their header
+ * Lines in callSiteLines are kept, so callers and tests still show where the call is.
+ */
+export async function summarizeDefinition(defn: FunctionDefinition, level: DetailLevel): Promise<FunctionDefinition> {
+    if (level === 'full') {
+        return defn;
+    }
+
+    const doc = await getLanguageProvider().openTextDocument(defn.uri);
+    const summary = summarizeSymbol(doc, defn.functionSymbol, level, new Set(defn.callSiteLines || []), true);
+    if (!summary.some(line => line.line === -1)) {
+        // Nothing to elide, e.g. a type alias or an interface
+        return defn;
+    }
+
+    // Match doc.getText(symbol.range), which starts and ends mid-line
+    const { start, end } = defn.functionSymbol.range;
+    const texts = summary.map(line => line.text);
+    if (summary[0].line === start.line) {
+        texts[0] = texts[0].slice(start.character);
+    }
+    if (summary[summary.length - 1].line === end.line) {
+        texts[texts.length - 1] = doc.lineAt(end.line).text.slice(summary[0].line === end.line ? start.character : 0, end.character);
+    }
+
+    return {
+        ...defn,
+        functionText: texts.join('\n'),
+        lineNumbers: summary.map(line => line.line),
+        detail: level,
+    };
+}
+
+function summarizeSymbol(
+    doc: vscode.TextDocument,
+    symbol: DocumentSymbol,
+    level: DetailLevel,
+    keepLines: Set<number>,
+    topLevel: boolean,
+): SummaryLine[] {
+    const { start, end } = symbol.range;
+    const body = findBody(doc, symbol);
+    if (!body) {
+        // No body to elide: fields, abstract methods, type aliases. Only the first line of long members is kept
+        const docs = getLeadingDocs(doc, symbol, level);
+        if (topLevel || end.line - start.line < (level === 'outline' ? 1 : 5)) {
+            return [...docs, ...sourceLines(doc, start.line, end.line)];
+        }
+        return [...docs, ...sourceLines(doc, start.line, start.line), { line: -1, text: `${getBodyIndent(doc, start.line, start.line + 1, end.line)}...` }];
+    }
+
+    const headerStart = level === 'outline' ? symbol.selectionRange.start.line : start.line;
+    const summary = [...getLeadingDocs(doc, symbol, level), ...sourceLines(doc, Math.min(headerStart, body.headerEndLine), body.headerEndLine)];
+    if (level === 'signature') {
+        summary.push(...getDocstring(doc, body.headerEndLine + 1, end.line));
+    }
+
+    const bodyStart = (summary[summary.length - 1]?.line ?? body.headerEndLine) + 1;
+    const bodyEnd = (body.closingLine ?? end.line + 1) - 1;
+    const indent = getBodyIndent(doc, body.headerEndLine, bodyStart, bodyEnd);
+    const elide = () => {
+        if (summary[summary.length - 1]?.line !== -1) {
+            summary.push({ line: -1, text: `${indent}...` });
+        }
+    };
+
+    const { SymbolKind } = getLanguageProvider().types;
+    const isFunction = [SymbolKind.Function, SymbolKind.Method, SymbolKind.Constructor].includes(symbol.kind);
+    const isContainer = !isFunction && symbol.kind !== SymbolKind.Variable &&
+        (symbol.children || []).length > 0 && (topLevel || level === 'signature');
+    if (isContainer) {
+        // Classes, structs, impls and modules list their members instead of their body
+        const members = symbol.children
+            .filter(child => child.range.start.line >= bodyStart && child.range.end.line <= bodyEnd)
+            .sort((a, b) => a.range.start.line - b.range.start.line);
+        for (const member of members) {
+            summary.push(...summarizeSymbol(doc, member, level, keepLines, false));
+        }
+        if (members.length === 0 && bodyStart <= bodyEnd) {
+            elide();
+        }
+    } else {
+        for (let line = bodyStart; line <= bodyEnd; line++) {
+            if (keepLines.has(line)) {
+                summary.push(...sourceLines(doc, line, line));
+            } else {
+                elide();
+            }
+        }
+    }
+
+    if (body.closingLine !== undefined && body.closingLine > body.headerEndLine) {
+        summary.push(...sourceLines(doc, body.closingLine, body.closingLine));
+    }
+    return summary;
+}
+
+/**
+ * Find where the body of the symbol starts: the first `{` outside of parentheses after its name,
+ * the `:` ending a Python header, or the end of a Ruby `def`/`class` line. Undefined when it has
+ * no body on lines of its own.
+ */
+function findBody(doc: vscode.TextDocument, symbol: DocumentSymbol): Body | undefined {
+    const { end } = symbol.range;
+    let depth = 0;
+    let previous = '';
+
+    for (let line = symbol.selectionRange.end.line; line <= end.line; line++) {
+        const text = doc.lineAt(line).text;
+        const from = line === symbol.selectionRange.end.line ? symbol.selectionRange.end.character : 0;
+        const to = line === end.line ? end.character : text.length;
+
+        for (let i = from; i < to; i++) {
+            const char = text[i];
+            if (char === '(' || char === '[') {
+                depth++;
+            } else if (char === ')' || char === ']') {
+                depth--;
+            } else if (depth === 0 && doc.languageId === 'python' && char === ':' && /^\s*(#.*)?$/.test(text.slice(i + 1))) {
+                return line < end.line ? { headerEndLine: line } : undefined;
+            } else if (depth === 0 && doc.languageId !== 'python' && doc.languageId !== 'ruby') {
+                if (char === ';') {
+                    return undefined;
+                }
+                // A `{` after a colon or an equals sign opens an object type or literal, not the body
+                if (char === '{' && previous !== ':' && previous !== '=') {
+                    const closingLine = /^\s*}/.test(doc.lineAt(end.line).text) ? end.line : undefined;
+                    return line < end.line ? { headerEndLine: line, closingLine } : undefined;
+                }
+                if (char === '{') {
+                    depth++;
+                }
+            } else if (char === '{') {
+                depth++;
+            } else if (char === '}') {
+                depth--;
+            }
+            if (char.trim()) {
+                previous = char;
+            }
+        }
+
+        if (doc.languageId === 'ruby' && depth <= 0) {
+            const closingLine = /^\s*end\b/.test(doc.lineAt(end.line).text) ? end.line : undefined;
+            return line < end.line ? { headerEndLine: line, closingLine } : undefined;
+        }
+    }
+    return undefined;
+}
+
+// Doc comments, decorators and attributes right above the symbol that its range leaves out
+function getLeadingDocs(doc: vscode.TextDocument, symbol: DocumentSymbol, level: DetailLevel): SummaryLine[] {
+    if (level !== 'signature') {
+        return [];
+    }
+
+    let first = symbol.range.start.line;
+    while (first > 0 && symbol.range.start.line - first < 30 && /^\s*(\/\/|\/\*|\*|#(?!include|define|if|endif|pragma)|@)/.test(doc.lineAt(first - 1).text)) {
+        first--;
+    }
+    return sourceLines(doc, first, symbol.range.start.line - 1);
+}
+
+// A Python docstring: a string literal on the first line of the body
+function getDocstring(doc: vscode.TextDocument, firstLine: number, lastLine: number): SummaryLine[] {
+    let line = firstLine;
+    while (line <= lastLine && doc.lineAt(line).isEmptyOrWhitespace) {
+        line++;
+    }
+    if (line > lastLine) {
+        return [];
+    }
+
+    const quote = doc.lineAt(line).text.match(/^\s*[rRuUbB]?("""|''')/)?.[1];
+    if (!quote) {
+        return [];
+    }
+    // The closing quotes may be on the same line as the opening ones
+    const opening = doc.lineAt(line).text.indexOf(quote);
+    let closing = doc.lineAt(line).text.indexOf(quote, opening + 3) === -1 ? line + 1 : line;
+    while (closing <= lastLine && closing !== line && !doc.lineAt(closing).text.includes(quote)) {
+        closing++;
+    }
+    return sourceLines(doc, line, Math.min(closing, lastLine));
+}
+
+function getBodyIndent(doc: vscode.TextDocument, headerEndLine: number, bodyStart: number, bodyEnd: number): string {
+    for (let line = bodyStart; line <= bodyEnd; line++) {
+        const text = doc.lineAt(line);
+        if (!text.isEmptyOrWhitespace) {
+            return text.text.slice(0, text.firstNonWhitespaceCharacterIndex);
+        }
+    }
+    const header = doc.lineAt(headerEndLine);
+    return header.text.slice(0, header.firstNonWhitespaceCharacterIndex) + '    ';
+}
+
+function sourceLines(doc: vscode.TextDocument, first: number, last: number): SummaryLine[] {
+    const lines: SummaryLine[] = [];
+    for (let line = first; line <= last; line++) {
+        lines.push({ line, text: doc.lineAt(line).text });
+    }
+    return lines;
+}
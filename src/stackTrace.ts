@@ -0,0 +1,280 @@
+import type * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { gatherContextForFunctions } from './context';
+import { getFunctionDefinition } from './functions';
+import { isIgnoreLocation } from './getReferences';
+import { isExcludedFile } from './redaction';
+import { GatherProgress, withGatherProgress } from './progress';
+import { DiagnosticInfo, DiagnosticRelatedInfo, FunctionDefinition, RaydocContext } from './types';
+import { getLanguageProvider } from './provider';
+
+export type StackFrame = {
+    // As written in the trace: absolute, relative or a file:// URL
+    file: string;
+    // 1-based, as printed
+    line: number;
+    column?: number;
+    functionName?: string;
+};
+
+export type StackTrace = {
+    // The exception or panic message
+    message: string;
+    // Innermost (failing) frame first
+    frames: StackFrame[];
+};
+
+// Frame formats, tried in order on each line
+const FRAME_PATTERNS: { pattern: RegExp, parse: (match: RegExpMatchArray) => StackFrame }[] = [
+    // Python:  File "/app/main.py", line 12, in handler
+    {
+        pattern: /^\s*File "(.+?)", line (\d+)(?:, in (.+))?$/,
+        parse: match => ({ file: match[1], line: parseInt(match[2], 10), functionName: match[3] }),
+    },
+    // C#:    at App.Service.Run(String id) in C:\src\App\Service.cs:line 42
+    {
+        pattern: /^\s*at (.+?) in (.+?):line (\d+)\s*$/,
+        parse: match => ({ file: match[2], line: parseInt(match[3], 10), functionName: match[1] }),
+    },
+    // Node:    at handler (/app/src/main.js:10:5)  or  at /app/src/main.js:10:5
+    {
+        pattern: /^\s*at (?:(.+?) \()?(.+?):(\d+):(\d+)\)?\s*$/,
+        parse: match => ({
+            file: match[2],
+            line: parseInt(match[3], 10),
+            column: parseInt(match[4], 10),
+            functionName: match[1]?.replace(/^async /, ''),
+        }),
+    },
+    // Go:	/app/main.go:23 +0x1d  (the function is on the line before)
+    {
+        pattern: /^\s+(\S+\.go):(\d+)(?: \+0x[0-9a-f]+)?\s*$/,
+        parse: match => ({ file: match[1], line: parseInt(match[2], 10) }),
+    },
+    // gdb: #1  0x0000555555555171 in compute (x=1) at src/main.cpp:5
+    {
+        pattern: /^\s*#\d+\s+(?:0x[0-9a-f]+ in )?(\S+).*? at (\S+):(\d+)\s*$/,
+        parse: match => ({ file: match[2], line: parseInt(match[3], 10), functionName: match[1] }),
+    },
+    // Sanitizers:    #0 0x4f5a3c in compute(int) /src/main.cpp:12:5
+    {
+        pattern: /^\s*#\d+\s+0x[0-9a-f]+ in (.+?) (\S+?):(\d+)(?::(\d+))?\s*$/,
+        parse: match => ({
+            file: match[2],
+            line: parseInt(match[3], 10),
+            column: match[4] ? parseInt(match[4], 10) : undefined,
+            functionName: match[1],
+        }),
+    },
+];
+
+// Lines that are part of the trace layout rather than the message
+const NOISE_PATTERNS = [
+    /^Traceback \(most recent call last\):$/,
+    /^During handling of the above exception, another exception occurred:$/,
+    /^The above exception was the direct cause of the following exception:$/,
+    /^goroutine \d+ \[.*\]:$/,
+    /^created by /,
+    /^--- End of (inner exception )?stack trace.*---$/,
+    /^\s*at /,
+    /^\s*\.\.\. \d+ more/,
+    /^\s*#\d+\s/,
+    /^\s*[~^]+\s*$/,
+];
+
+/**
+ * Parse a Node, Python, Go, C# or C++ (gdb or sanitizer) stack trace into its message and frames.
+ */
+export function parseStackTrace(text: string): StackTrace {
+    const lines = splitFlattenedTrace(text).split(/\r?\n/);
+    const frames: StackFrame[] = [];
+    const messageLines: string[] = [];
+    let outermostFirst = false;
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        const frame = parseFrame(line);
+        if (frame) {
+            frames.push(frame);
+            if (line.trimStart().startsWith('File "')) {
+                // Python prints the outermost call first, followed by the source of each frame
+                outermostFirst = true;
+                if (i + 1 < lines.length && /^\s+\S/.test(lines[i + 1]) && !parseFrame(lines[i + 1])) {
+                    i++;
+                }
+            }
+            continue;
+        }
+
+        // Go prints the function on the line before its file
+        const goFrame = i + 1 < lines.length ? parseFrame(lines[i + 1]) : undefined;
+        if (goFrame && goFrame.file.endsWith('.go') && /^\S+\(.*\)$/.test(line.trim())) {
+            goFrame.functionName = line.trim().replace(/\([^()]*\)$/, '');
+            frames.push(goFrame);
+            i++;
+            continue;
+        }
+
+        if (line.trim() !== '' && !NOISE_PATTERNS.some(pattern => pattern.test(line))) {
+            messageLines.push(line.trim());
+        }
+    }
+
+    return {
+        message: messageLines.join('\n'),
+        frames: outermostFirst ? frames.reverse() : frames,
+    };
+}
+
+function parseFrame(line: string): StackFrame | undefined {
+    for (const { pattern, parse } of FRAME_PATTERNS) {
+        const match = line.match(pattern);
+        if (match) {
+            return parse(match);
+        }
+    }
+    return undefined;
+}
+
+// An input box flattens a pasted trace onto one line, so split it back up before each frame
+function splitFlattenedTrace(text: string): string {
+    if (text.includes('\n')) {
+        return text;
+    }
+    return text
+        .replace(/\s+(?=at \S.*?:\d+)/g, '\n    ')
+        .replace(/\s+(?=File ".+?", line \d+)/g, '\n  ')
+        .replace(/\s+(?=#\d+\s)/g, '\n');
+}
+
+// Runtime internals and installed packages are never workspace code, even when a file of the same name exists
+const EXTERNAL_FRAME = /^(node:|<)|[\\/](node_modules|site-packages|dist-packages|vendor)[\\/]|^\/usr\/(local\/)?(lib|include|go)\//;
+
+/**
+ * Find the workspace file a frame points at. Traces are often printed on another machine or in a
+ * container, so when the path doesn't exist as is, try ever shorter tails of it in each workspace folder.
+ */
+function resolveFrameUri(file: string): vscode.Uri | undefined {
+    if (EXTERNAL_FRAME.test(file)) {
+        return undefined;
+    }
+
+    const provider = getLanguageProvider();
+    const { Uri } = provider.types;
+    let filePath = file;
+    if (filePath.startsWith('file://')) {
+        filePath = Uri.parse(filePath).fsPath;
+    }
+    filePath = filePath.replace(/^webpack:\/\/\/?(?:[^/]*\/)?/, '').replace(/^\.\//, '');
+
+    if (path.isAbsolute(filePath)) {
+        const uri = Uri.file(filePath);
+        if (provider.getWorkspaceFolder(uri) && fs.existsSync(filePath)) {
+            return uri;
+        }
+    }
+
+    const segments = filePath.split(/[\\/]/).filter(segment => segment !== '' && !/^[A-Za-z]:$/.test(segment));
+    for (let start = 0; start < segments.length; start++) {
+        for (const folder of provider.workspaceFolders()) {
+            const candidate = path.join(folder.uri.fsPath, ...segments.slice(start));
+            if (fs.existsSync(candidate) && fs.statSync(candidate).isFile()) {
+                return Uri.file(candidate);
+            }
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Build one context from a stack trace: each in-workspace frame's function is a main function with
+ * its failing line marked, and the exception is the first diagnostic, with the other frames as related information.
+ */
+export function gatherStackTraceContext(text: string): Promise<RaydocContext | undefined> {
+    return withGatherProgress((progress, token) => gatherTraceContext(parseStackTrace(text), progress, token));
+}
+
+async function gatherTraceContext(
+    trace: StackTrace,
+    progress: GatherProgress,
+    token: vscode.CancellationToken
+): Promise<RaydocContext | undefined> {
+    const { Position, Selection } = getLanguageProvider().types;
+    progress.report({ message: 'Finding the functions of the stack frames…' });
+
+    const functionDefns: FunctionDefinition[] = [];
+    const frameLocations: (DiagnosticRelatedInfo & { doc: vscode.TextDocument })[] = [];
+
+    for (const frame of trace.frames) {
+        if (token.isCancellationRequested) {
+            break;
+        }
+        const uri = resolveFrameUri(frame.file);
+        if (!uri || isIgnoreLocation(uri.fsPath) || isExcludedFile(uri)) {
+            continue;
+        }
+
+        let doc: vscode.TextDocument;
+        try {
+            doc = await getLanguageProvider().openTextDocument(uri);
+        } catch {
+            continue;
+        }
+        const line = frame.line - 1;
+        if (line < 0 || line >= doc.lineCount) {
+            continue;
+        }
+
+        const sourceLine = doc.lineAt(line);
+        const character = frame.column ? frame.column - 1 : sourceLine.firstNonWhitespaceCharacterIndex;
+        const fnDef = await getFunctionDefinition(doc, new Position(line, character), false, true, false, token);
+        if (!fnDef) {
+            continue;
+        }
+
+        // Recursive frames share a function, so mark each of their lines in it
+        const existing = functionDefns.find(f => f.filename === fnDef.filename && f.startLine === fnDef.startLine);
+        if (existing) {
+            existing.callSiteLines = [...(existing.callSiteLines || []), line];
+        } else {
+            fnDef.callSiteLines = [line];
+            functionDefns.push(fnDef);
+        }
+
+        frameLocations.push({
+            doc,
+            filename: getLanguageProvider().asRelativePath(uri),
+            line,
+            character,
+            message: `at ${frame.functionName || fnDef.functionName}`,
+            sourceLine: sourceLine.text,
+        });
+    }
+
+    if (frameLocations.length === 0) {
+        return undefined;
+    }
+
+    // Focus on the innermost frame in the workspace
+    const [top, ...callers] = frameLocations;
+    const selection = new Selection(top.line, top.character, top.line, top.character);
+    const context = await gatherContextForFunctions(top.doc, selection, functionDefns, progress, token);
+
+    const exception: DiagnosticInfo = {
+        filename: top.filename,
+        severity: 'error',
+        message: trace.message || 'Unknown error',
+        source: 'stack trace',
+        startLine: top.line,
+        startCharacter: top.character,
+        endLine: top.line,
+        endCharacter: top.sourceLine!.length,
+        sourceLine: top.sourceLine,
+        relatedInformation: callers.map(({ doc, ...related }) => related),
+    };
+    context.diagnostics = [exception, ...(context.diagnostics || [])];
+
+    return context;
+}
@@ -0,0 +1,115 @@
+import type * as vscode from 'vscode';
+import type { DocumentSymbol } from 'vscode';
+
+import { getLanguageProvider } from './provider';
+
+type DocumentCache = {
+    version: number;
+    symbols?: Promise<DocumentSymbol[] | undefined>;
+    // Definition locations by "line:character"
+    definitions: Map<string, Promise<vscode.Location[]>>;
+};
+
+// Keyed by document URI; each entry is only valid for the document version it was built for
+const caches = new Map<string, DocumentCache>();
+
+/**
+ * Drop the cached results of a changed document. Definitions that point into it are dropped
+ * too, since their ranges may have moved.
+ */
+export function invalidateDocumentSymbols(uri: vscode.Uri) {
+    const changed = uri.toString();
+    caches.delete(changed);
+
+    for (const cache of caches.values()) {
+        for (const [position, locations] of cache.definitions) {
+            locations.then(resolved => {
+                if (cache.definitions.get(position) === locations && resolved.some(location => location.uri.toString() === changed)) {
+                    cache.definitions.delete(position);
+                }
+            }, () => undefined);
+        }
+    }
+}
+
+export function forgetDocumentSymbols(uri: vscode.Uri) {
+    caches.delete(uri.toString());
+}
+
+function getCache(doc: vscode.TextDocument): DocumentCache {
+    const key = doc.uri.toString();
+    let cache = caches.get(key);
+    if (!cache || cache.version !== doc.version) {
+        cache = { version: doc.version, definitions: new Map() };
+        caches.set(key, cache);
+    }
+    return cache;
+}
+
+/**
+ * All the symbols in the document, with nested symbols flattened into one list.
+ */
+export function getDocumentSymbols(doc: vscode.TextDocument): Promise<DocumentSymbol[] | undefined> {
+    const cache = getCache(doc);
+    if (!cache.symbols) {
+        cache.symbols = getLanguageProvider().documentSymbols(doc.uri)
+            .then(symbols => symbols ? flattenDocumentSymbols(symbols) : undefined);
+        // Don't keep a failure around, the language server may just not be ready yet
+        cache.symbols.then(symbols => {
+            if (!symbols) {
+                cache.symbols = undefined;
+            }
+        }, () => {
+            cache.symbols = undefined;
+        });
+    }
+    return cache.symbols;
+}
+
+function flattenDocumentSymbols(symbols: DocumentSymbol[]): DocumentSymbol[] {
+    const flattenedSymbols: DocumentSymbol[] = [];
+
+    for (const symbol of symbols) {
+        flattenedSymbols.push(symbol);
+        if (symbol.children) {
+            flattenedSymbols.push(...flattenDocumentSymbols(symbol.children));
+        }
+    }
+
+    return flattenedSymbols;
+}
+
+/**
+ * The definition, declaration and type definition locations of the symbol at the position, deduplicated.
+ */
+export function getDefinitionLocations(doc: vscode.TextDocument, position: vscode.Position): Promise<vscode.Location[]> {
+    const cache = getCache(doc);
+    const key = `${position.line}:${position.character}`;
+    let locations = cache.definitions.get(key);
+    if (!locations) {
+        locations = findDefinitionLocations(doc.uri, position);
+        cache.definitions.set(key, locations);
+        locations.catch(() => cache.definitions.delete(key));
+    }
+    return locations;
+}
+
+async function findDefinitionLocations(uri: vscode.Uri, position: vscode.Position): Promise<vscode.Location[]> {
+    const { types, definitions } = getLanguageProvider();
+    const results = await definitions(uri, position);
+
+    const uniqueLocations = new Map<string, vscode.Location>();
+    for (const result of results) {
+        // Convert LocationLinks to Locations
+        const location = 'targetUri' in result ? new types.Location(result.targetUri, result.targetRange) : result;
+        if (!location.uri || !location.range) {
+            continue;
+        }
+        const { start, end } = location.range;
+        const key = `${location.uri.toString()}:${start.line}:${start.character}:${end.line}:${end.character}`;
+        if (!uniqueLocations.has(key)) {
+            uniqueLocations.set(key, location);
+        }
+    }
+    return Array.from(uniqueLocations.values());
+}
@@ -0,0 +1,158 @@
+import * as vscode from 'vscode';
+import type { PostHog } from 'posthog-node';
+import { v4 as uuidv4 } from 'uuid';
+
+import { isCursor } from './sendTargets';
+
+type TelemetryLevel = 'off' | 'errors' | 'all';
+
+type TelemetryPayload = {
+    distinctId: string;
+    event: string;
+    properties: Record<string, unknown>;
+};
+
+type RecordedPayload = {
+    // False when the telemetry level kept it from being sent
+    sent: boolean;
+    payload: TelemetryPayload;
+};
+
+// VS Code's telemetry.telemetryLevel as a Raydoc level; Raydoc sends no crash reports
+const VSCODE_LEVELS: Record<string, TelemetryLevel> = {
+    off: 'off',
+    crash: 'off',
+    error: 'errors',
+    all: 'all',
+};
+
+const LEVEL_ORDER: TelemetryLevel[] = ['off', 'errors', 'all'];
+
+const POSTHOG_KEY = 'phc_Rv9pNJA7chv1QR27K0jg2s1Bwah2PDsZroMEI1Usic7';
+const POSTHOG_HOST = 'https://us.i.posthog.com';
+const USER_ID_KEY = 'RaydocUserId';
+// How many of this session's payloads the Show Telemetry command lists
+const MAX_RECORDED_PAYLOADS = 200;
+
+let extensionContext: vscode.ExtensionContext | undefined;
+// Only created once there is something to send, so with telemetry off nothing is loaded or connected
+let analyticsClient: PostHog | undefined;
+const recordedPayloads: RecordedPayload[] = [];
+
+/**
+ * Follow the telemetry settings: VS Code's own (telemetry.telemetryLevel) always wins, and
+ * raydoc-context.telemetry can send less than it allows.
+ */
+export function initTelemetry(context: vscode.ExtensionContext) {
+    extensionContext = context;
+
+    context.subscriptions.push(
+        vscode.env.onDidChangeTelemetryEnabled(() => updateClient()),
+        vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('raydoc-context.telemetry') || e.affectsConfiguration('telemetry.telemetryLevel')) {
+                updateClient();
+            }
+        }),
+        vscode.commands.registerCommand('raydoc-context.showTelemetry', showTelemetry),
+    );
+}
+
+export function sendEvent(doc: vscode.TextDocument, eventName: string) {
+    capture(eventName, { languageId: doc.languageId }, getTelemetryLevel() === 'all');
+}
+
+/**
+ * Report a command that failed. Only the kind of error is sent, as messages can hold paths or code.
+ */
+export function sendErrorEvent(err: unknown) {
+    capture('command-failed', { errorName: err instanceof Error ? err.name : typeof err }, getTelemetryLevel() !== 'off');
+}
+
+export async function shutdownTelemetry() {
+    const client = analyticsClient;
+    analyticsClient = undefined;
+    await client?.shutdown();
+}
+
+// The lower of VS Code's level and raydoc-context.telemetry
+function getTelemetryLevel(): TelemetryLevel {
+    if (!vscode.env.isTelemetryEnabled) {
+        return 'off';
+    }
+    const vscodeLevel = VSCODE_LEVELS[vscode.workspace.getConfiguration('telemetry').get<string>('telemetryLevel', 'all')] ?? 'all';
+    const raydocLevel = vscode.workspace.getConfiguration('raydoc-context').get<TelemetryLevel>('telemetry', 'all');
+    return LEVEL_ORDER[Math.min(LEVEL_ORDER.indexOf(vscodeLevel), Math.max(LEVEL_ORDER.indexOf(raydocLevel), 0))];
+}
+
+function updateClient() {
+    if (getTelemetryLevel() === 'off') {
+        shutdownTelemetry().catch(err => console.error('Failed to shut down telemetry:', err));
+    }
+}
+
+// Payloads that aren't sent are still recorded for Show Raydoc Telemetry, but nothing is loaded or stored for them
+function capture(event: string, properties: Record<string, unknown>, send: boolean) {
+    const userId = getUserId(send);
+    if (!userId) {
+        return;
+    }
+
+    const extension = vscode.extensions.getExtension('raydoc.raydoc-ai-context');
+    const payload: TelemetryPayload = {
+        distinctId: userId,
+        event,
+        properties: {
+            ...properties,
+            raydocVersion: extension?.packageJSON.version || 'unknown',
+            isCursor: isCursor(),
+            editorVersion: vscode.version,
+            isDev: process.env.VSCODE_DEBUG_MODE === 'true',
+        },
+    };
+
+    if (send) {
+        if (!analyticsClient) {
+            const { PostHog: PostHogClient } = require('posthog-node') as typeof import('posthog-node');
+            analyticsClient = new PostHogClient(POSTHOG_KEY, { host: POSTHOG_HOST });
+        }
+        analyticsClient.capture(payload);
+    }
+
+    recordedPayloads.push({ sent: send, payload });
+    if (recordedPayloads.length > MAX_RECORDED_PAYLOADS) {
+        recordedPayloads.shift();
+    }
+}
+
+// The anonymous id events are sent with, generated the first time one is sent
+function getUserId(send: boolean): string | undefined {
+    if (!extensionContext) {
+        return undefined;
+    }
+    let userId = extensionContext.globalState.get<string>(USER_ID_KEY);
+    if (!userId && !send) {
+        return '<generated when the first event is sent>';
+    }
+    if (!userId) {
+        userId = uuidv4();
+        extensionContext.globalState.update(USER_ID_KEY, userId);
+    }
+    return userId;
+}
+
+/**
+ * Show this session's payloads exactly as they went, or would go, to PostHog.
+ */
+async function showTelemetry() {
+    const level = getTelemetryLevel();
+    const raydocLevel = vscode.workspace.getConfiguration('raydoc-context').get<TelemetryLevel>('telemetry', 'all');
+    const sends = level === 'off'
+        ? 'nothing is sent'
+        : level === 'errors' ? 'only failed commands are sent' : 'usage events and failed commands are sent';
+    const limitedBy = level !== raydocLevel ? ', as VS Code\'s telemetry.telemetryLevel allows no more' : '';
+    const explanation = `Telemetry level "${level}": ${sends}${limitedBy}. Payloads with "sent": false were only recorded here.`;
+
+    const content = JSON.stringify({ explanation, payloads: recordedPayloads }, null, 4);
+    const doc = await vscode.workspace.openTextDocument({ language: 'json', content });
+    await vscode.window.showTextDocument(doc, { preview: true });
+}
@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+import * as os from 'os';
+
+import { estimateTokens } from '../budget';
+import { createCliProvider, DocumentSymbol, loadSettings, Range, SymbolKind, Uri } from '../cliHost';
+import { setLanguageProvider } from '../provider';
+import { getOutputOptions, renderContext } from '../toString';
+import { FunctionDefinition, RaydocContext } from '../types';
+
+suite('renderContext with a token budget', () => {
+    let settings: Record<string, unknown>;
+
+    setup(() => {
+        settings = {
+            ...loadSettings(os.tmpdir()),
+            'raydoc-context.output-config.token-budget': 'custom',
+            'raydoc-context.output-config.tokenizer': 'chars',
+        };
+        setLanguageProvider(createCliProvider({ rootPath: os.tmpdir(), settings, verbose: false }));
+    });
+
+    const definition = (name: string, startLine: number, lineCount: number, relevance = 0): FunctionDefinition => {
+        const range = new Range(startLine, 0, startLine + lineCount - 1, 1);
+        const body = Array.from({ length: lineCount - 2 }, (_, i) => `    const value${i} = compute${name}(${i});`);
+        return {
+            functionName: name,
+            filename: 'src/app.ts',
+            uri: Uri.file('/work/src/app.ts'),
+            functionText: [`function ${name}() {`, ...body, '}'].join('\n'),
+            functionSymbol: new DocumentSymbol(name, '', SymbolKind.Function, range, range),
+            startLine,
+            endLine: startLine + lineCount - 1,
+            relevance,
+        };
+    };
+
+    const context: RaydocContext = {
+        filepath: 'src/app.ts',
+        line: 120,
+        immediateContextLines: '    const value18 = computemain(18);',
+        languageId: 'typescript',
+        functionDefns: [definition('main', 100, 40)],
+        typeDefns: Array.from({ length: 30 }, (_, i) => definition(`Type${i}`, 200 + i * 10, 8, 30 - i)),
+    };
+
+    test('keeps the output, omitted list included, within the budget', () => {
+        for (const budget of [3000, 1200, 800, 500]) {
+            settings['raydoc-context.output-config.custom-token-budget'] = budget;
+            for (const format of ['text', 'markdown', 'xml', 'json']) {
+                const output = renderContext(context, getOutputOptions(), format).text;
+                assert.ok(estimateTokens(output) <= budget, `${format} output over ${budget} tokens: ${estimateTokens(output)}`);
+            }
+        }
+    });
+
+    test('cuts the main functions down to the focused lines when nothing else fits', () => {
+        settings['raydoc-context.output-config.custom-token-budget'] = 500;
+        const output = renderContext(context, getOutputOptions(), 'text').text;
+
+        assert.ok(output.includes('function main() {'));
+        assert.ok(output.includes('computemain(19)'));
+        assert.ok(!output.includes('computemain(1)'));
+        assert.ok(output.includes('...'));
+    });
+});
@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+
+import { DocumentSymbol, Range, SymbolKind, Uri } from '../cliHost';
+import { getFormatter } from '../formatters';
+import { OutputOptions, RaydocContext } from '../types';
+
+const OPTIONS: OutputOptions = {
+    location: true,
+    environment: true,
+    runtimeVersion: true,
+    focusedLines: true,
+    packages: true,
+    fileTree: true,
+    functionDefinition: true,
+    typeDefinitions: true,
+    referencedFunctions: true,
+    incomingCalls: true,
+    tests: true,
+    gitHistory: true,
+    systemMessage: 'Answer in <= 3 sentences & no code',
+};
+
+suite('formatXml', () => {
+    test('keeps code with markup characters out of the markup', () => {
+        const code = 'function lt(a: number, b: number) {\n    return a < b && !fail("]]>");\n}';
+        const range = new Range(0, 0, 2, 1);
+        const context: RaydocContext = {
+            filepath: 'src/a&b.ts',
+            line: 1,
+            immediateContextLines: '    return a < b && !fail("]]>");',
+            languageId: 'typescript',
+            functionDefns: [{
+                functionName: 'lt',
+                filename: 'src/a&b.ts',
+                uri: Uri.file('/work/src/a&b.ts'),
+                functionText: code,
+                functionSymbol: new DocumentSymbol('lt', '', SymbolKind.Function, range, range),
+                startLine: 0,
+                endLine: 2,
+            }],
+            fileTree: { name: 'src', isDir: true, fsPath: '/work/src', children: [{ name: 'a&b.ts', isDir: false, fsPath: '/work/src/a&b.ts' }] },
+            git: {
+                diffHunks: ['@@ -1 +1 @@\n-    return a <= b;\n+    return a < b && !fail("]]>");'],
+                commits: [{ hash: 'abc123', authorDate: '2024-01-01', subject: 'Use < & not <=' }],
+                blame: [{ line: 2, hash: 'abc123', author: 'A <a@example.com>', authorDate: '2024-01-01', text: 'return a < b;' }],
+            },
+        };
+
+        const output = getFormatter('xml')(context, OPTIONS, []);
+
+        // Outside CDATA sections, only tags and entities are left
+        const sections: string[] = [];
+        const markup = output.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_, text: string) => {
+            sections.push(text);
+            return '';
+        });
+        assert.doesNotMatch(markup, /&(?!(amp|lt|gt|quot);)/);
+        assert.doesNotMatch(markup, /<(?![a-z_/])/);
+        assert.match(markup, /<commit hash="abc123" date="2024-01-01">Use &lt; &amp; not &lt;=<\/commit>/);
+
+        // Joining split sections gives back the text as it was
+        const joined = output.replace(/\]\]><!\[CDATA\[/g, '');
+        assert.ok(joined.includes(`<![CDATA[${code}]]>`));
+        assert.ok(joined.includes(`<![CDATA[${OPTIONS.systemMessage}]]>`));
+        assert.ok(sections.some(text => text.includes('a&b.ts')));
+    });
+});
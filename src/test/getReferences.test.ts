@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { createCliProvider, loadSettings, Uri } from '../cliHost';
+import { getFunctionDefinition } from '../functions';
+import { getTransitiveReferences } from '../getReferences';
+import { getLanguageProvider, setLanguageProvider } from '../provider';
+import { createTypeScriptProvider } from '../tsProvider';
+
+suite('getTransitiveReferences', function () {
+    // The TypeScript language service loads the standard library first
+    this.timeout(30000);
+
+    let root: string;
+
+    setup(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'raydoc-references-'));
+        fs.writeFileSync(path.join(root, 'tsconfig.json'), JSON.stringify({ compilerOptions: { strict: true }, include: ['*.ts'] }));
+        fs.writeFileSync(path.join(root, 'main.ts'), [
+            'interface Options { verbose: boolean }',
+            'interface Result { ok: boolean }',
+            'interface Settings { name: string }',
+            '',
+            'function load(settings: Settings): string {',
+            '    return settings.name;',
+            '}',
+            '',
+            'function save(name: string): void {',
+            '    console.log(name);',
+            '}',
+            '',
+            'export function run(options: Options): Result {',
+            '    save(load({ name: String(options.verbose) }));',
+            '    return { ok: true };',
+            '}',
+        ].join('\n'));
+
+        const entryFile = path.join(root, 'main.ts');
+        setLanguageProvider(createCliProvider(
+            { rootPath: root, settings: loadSettings(root), verbose: false },
+            createTypeScriptProvider(root, entryFile)
+        ));
+    });
+
+    teardown(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    const getRun = async () => {
+        const doc = await getLanguageProvider().openTextDocument(Uri.file(path.join(root, 'main.ts')));
+        const run = await getFunctionDefinition(doc, doc.positionAt(doc.getText().indexOf('run(')), false);
+        assert.ok(run);
+        return { doc, run };
+    };
+    const names = (defns: { functionName: string, depth?: number }[]) => defns.map(defn => `${defn.functionName}@${defn.depth}`).sort();
+
+    test('follows the types used by the functions it calls', async () => {
+        const { doc, run } = await getRun();
+        const references = await getTransitiveReferences(doc, run, 2);
+
+        assert.deepStrictEqual(names(references.typeDefns), ['Options@1', 'Result@1', 'Settings@2']);
+        assert.deepStrictEqual(names(references.referencedFunctions), ['load@1', 'save@1']);
+    });
+
+    test('caps types and functions together at maxNodes', async () => {
+        const { doc, run } = await getRun();
+        const references = await getTransitiveReferences(doc, run, 2, 3);
+
+        assert.strictEqual(references.typeDefns.length + references.referencedFunctions.length, 3);
+    });
+});
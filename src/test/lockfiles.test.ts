@@ -0,0 +1,317 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import {
+    getResolvedVersionsGo,
+    getResolvedVersionsJS,
+    getResolvedVersionsJvm,
+    getResolvedVersionsPhp,
+    getResolvedVersionsPython,
+    getResolvedVersionsRuby,
+    getResolvedVersionsRust,
+} from '../lockfiles';
+
+suite('lockfiles', () => {
+    let root: string;
+
+    setup(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'raydoc-lockfiles-'));
+    });
+
+    teardown(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    // Write the files and return the directory of the first one
+    const writeFiles = (files: Record<string, string>): string => {
+        for (const [file, content] of Object.entries(files)) {
+            fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+            fs.writeFileSync(path.join(root, file), content);
+        }
+        return path.dirname(path.join(root, Object.keys(files)[0]));
+    };
+
+    test('reads package-lock.json, preferring packages nested under a workspace package', () => {
+        const packageDir = writeFiles({
+            'packages/web/package.json': '{}',
+            'package-lock.json': JSON.stringify({
+                lockfileVersion: 3,
+                packages: {
+                    '': { name: 'root' },
+                    'node_modules/lodash': { version: '4.17.21' },
+                    'node_modules/@types/node': { version: '20.11.0' },
+                    'node_modules/lodash/node_modules/deep': { version: '1.0.0' },
+                    'packages/web/node_modules/lodash': { version: '3.10.1' },
+                },
+            }),
+        });
+
+        assert.deepStrictEqual(getResolvedVersionsJS(root, root), { 'lodash': '4.17.21', '@types/node': '20.11.0' });
+        assert.deepStrictEqual(getResolvedVersionsJS(packageDir, root), { 'lodash': '3.10.1', '@types/node': '20.11.0' });
+    });
+
+    test('reads the dependency tree of package-lock.json v1', () => {
+        writeFiles({
+            'package-lock.json': JSON.stringify({ lockfileVersion: 1, dependencies: { express: { version: '4.18.2' } } }),
+        });
+
+        assert.deepStrictEqual(getResolvedVersionsJS(root, root), { express: '4.18.2' });
+    });
+
+    test('reads classic and Berry yarn.lock', () => {
+        writeFiles({
+            'yarn.lock': [
+                '# yarn lockfile v1',
+                '',
+                '"@babel/core@^7.0.0", "@babel/core@^7.1.0":',
+                '  version "7.23.0"',
+                '  resolved "https://registry.yarnpkg.com/@babel/core/-/core-7.23.0.tgz"',
+                '',
+                'lodash@^4.17.0:',
+                '  version "4.17.21"',
+            ].join('\n'),
+        });
+        assert.deepStrictEqual(getResolvedVersionsJS(root, root), { '@babel/core': '7.23.0', 'lodash': '4.17.21' });
+
+        writeFiles({
+            'yarn.lock': [
+                '__metadata:',
+                '  version: 8',
+                '',
+                '"react@npm:^18.2.0":',
+                '  version: 18.2.0',
+                '  resolution: "react@npm:18.2.0"',
+            ].join('\n'),
+        });
+        assert.deepStrictEqual(getResolvedVersionsJS(root, root), { react: '18.2.0' });
+    });
+
+    test('picks the yarn.lock version of the range the manifest requires', () => {
+        writeFiles({
+            'yarn.lock': [
+                'debug@^4.3.4:',
+                '  version "4.3.4"',
+                '',
+                'debug@^2.6.9:',
+                '  version "2.6.9"',
+            ].join('\n'),
+        });
+        assert.deepStrictEqual(getResolvedVersionsJS(root, root, { debug: '^4.3.4' }), { debug: '4.3.4' });
+
+        writeFiles({
+            'yarn.lock': [
+                '"debug@npm:^4.3.4":',
+                '  version: 4.3.4',
+                '',
+                '"debug@npm:^2.6.9":',
+                '  version: 2.6.9',
+            ].join('\n'),
+        });
+        assert.deepStrictEqual(getResolvedVersionsJS(root, root, { debug: '^4.3.4' }), { debug: '4.3.4' });
+    });
+
+    test('reads the direct dependencies of a pnpm importer', () => {
+        const packageDir = writeFiles({
+            'packages/app/package.json': '{}',
+            'pnpm-lock.yaml': [
+                "lockfileVersion: '6.0'",
+                '',
+                'importers:',
+                '',
+                '  .:',
+                '    devDependencies:',
+                '      typescript:',
+                '        specifier: ^5.3.0',
+                '        version: 5.3.3',
+                '',
+                '  packages/app:',
+                '    dependencies:',
+                '      react-dom:',
+                '        specifier: ^18.2.0',
+                "        version: 18.2.0(react@18.2.0)",
+                '',
+                'packages:',
+                '',
+                '  /react@18.2.0:',
+                '    resolution: {integrity: sha512-abc}',
+            ].join('\n'),
+        });
+
+        assert.deepStrictEqual(getResolvedVersionsJS(root, root), { typescript: '5.3.3' });
+        assert.deepStrictEqual(getResolvedVersionsJS(packageDir, root), { 'react-dom': '18.2.0' });
+    });
+
+    test('reads the older pnpm format with versions next to the names', () => {
+        writeFiles({
+            'pnpm-lock.yaml': [
+                'lockfileVersion: 5.4',
+                '',
+                'dependencies:',
+                "  '@scope/pkg': 1.2.3",
+                '  left-pad: 1.3.0_react@18.2.0',
+                '',
+                'packages:',
+                '  /left-pad/1.3.0:',
+                '    dev: false',
+            ].join('\n'),
+        });
+
+        assert.deepStrictEqual(getResolvedVersionsJS(root, root), { '@scope/pkg': '1.2.3', 'left-pad': '1.3.0' });
+    });
+
+    test('reads poetry.lock and Pipfile.lock with normalized names', () => {
+        const packageDir = writeFiles({
+            'service/pyproject.toml': '',
+            'poetry.lock': [
+                '[[package]]',
+                'name = "Flask_SQLAlchemy"',
+                'version = "3.1.1"',
+                '',
+                '[package.dependencies]',
+                'version = "not a package"',
+                '',
+                '[[package]]',
+                'name = "requests"',
+                'version = "2.31.0"',
+            ].join('\n'),
+        });
+        assert.deepStrictEqual(getResolvedVersionsPython(packageDir, root), { 'flask-sqlalchemy': '3.1.1', 'requests': '2.31.0' });
+
+        fs.rmSync(path.join(root, 'poetry.lock'));
+        writeFiles({
+            'Pipfile.lock': JSON.stringify({
+                default: { 'Django': { version: '==5.0.1' } },
+                develop: { 'pytest': { version: '==7.4.4' }, 'local-pkg': { path: '.' } },
+            }),
+        });
+        assert.deepStrictEqual(getResolvedVersionsPython(packageDir, root), { 'django': '5.0.1', 'pytest': '7.4.4' });
+    });
+
+    test('reads go.sum, skipping go.mod hashes', () => {
+        writeFiles({
+            'go.sum': [
+                'github.com/pkg/errors v0.9.1 h1:FEBLx1zS214owpjy7qsBeixbURkuhQAwrK5UwLGTwt4=',
+                'github.com/pkg/errors v0.9.1/go.mod h1:bwawxfHBFNV+L2hUp1rHADufV3IMtnDRdf1r5NINEl0=',
+                'golang.org/x/text v0.13.0/go.mod h1:TvPlkZtksWOMsz7fbANvkp4WM8x/WCo/om8BMLbz+aE=',
+            ].join('\n'),
+        });
+
+        assert.deepStrictEqual(getResolvedVersionsGo(root, root), { 'github.com/pkg/errors': 'v0.9.1' });
+    });
+
+    test('prefers the go.sum version that go.mod requires', () => {
+        writeFiles({
+            'go.sum': [
+                'golang.org/x/text v0.13.0 h1:ablQoSUd0tRdKxZewP80B+BaqeKJuVhuRxj/dkrun3k=',
+                'golang.org/x/text v0.3.7 h1:olpwvP2KacW1ZWvsR7uQhoyTYvKAupfQrRGBFM352Gk=',
+            ].join('\n'),
+        });
+
+        assert.deepStrictEqual(getResolvedVersionsGo(root, root, { 'golang.org/x/text': 'v0.13.0' }), { 'golang.org/x/text': 'v0.13.0' });
+        assert.deepStrictEqual(getResolvedVersionsGo(root, root), { 'golang.org/x/text': 'v0.3.7' });
+    });
+
+    test('reads the Cargo.lock at the workspace root from a member crate', () => {
+        const crateDir = writeFiles({
+            'crates/core/Cargo.toml': '',
+            'Cargo.lock': [
+                'version = 3',
+                '',
+                '[[package]]',
+                'name = "serde"',
+                'version = "1.0.195"',
+                'source = "registry+https://github.com/rust-lang/crates.io-index"',
+            ].join('\n'),
+        });
+
+        assert.deepStrictEqual(getResolvedVersionsRust(crateDir, root), { serde: '1.0.195' });
+    });
+
+    test('reads gradle.lockfile', () => {
+        writeFiles({
+            'gradle.lockfile': [
+                '# This is a Gradle generated file for dependency locking.',
+                'com.google.guava:guava:32.1.2-jre=compileClasspath,runtimeClasspath',
+                'org.junit.jupiter:junit-jupiter:5.10.0=testCompileClasspath',
+                'empty=annotationProcessor',
+            ].join('\n'),
+        });
+
+        assert.deepStrictEqual(getResolvedVersionsJvm(root, root), {
+            'com.google.guava:guava': '32.1.2-jre',
+            'org.junit.jupiter:junit-jupiter': '5.10.0',
+        });
+    });
+
+    test('reads the specs of every source in Gemfile.lock', () => {
+        writeFiles({
+            'Gemfile.lock': [
+                'GIT',
+                '  remote: https://github.com/heartcombo/devise.git',
+                '  specs:',
+                '    devise (4.9.3)',
+                '',
+                'GEM',
+                '  remote: https://rubygems.org/',
+                '  specs:',
+                '    rails (7.1.2)',
+                '      rack (>= 2.2.4)',
+                '    nokogiri (1.15.5-x86_64-linux)',
+                '',
+                'DEPENDENCIES',
+                '  devise!',
+                '  rails (~> 7.0)',
+            ].join('\n'),
+        });
+
+        assert.deepStrictEqual(getResolvedVersionsRuby(root, root), {
+            'devise': '4.9.3',
+            'rails': '7.1.2',
+            'nokogiri': '1.15.5-x86_64-linux',
+        });
+    });
+
+    test('reads packages and dev packages from composer.lock', () => {
+        writeFiles({
+            'composer.lock': JSON.stringify({
+                'packages': [{ name: 'monolog/monolog', version: '3.5.0' }],
+                'packages-dev': [{ name: 'phpunit/phpunit', version: '10.5.3' }],
+            }),
+        });
+
+        assert.deepStrictEqual(getResolvedVersionsPhp(root, root), { 'monolog/monolog': '3.5.0', 'phpunit/phpunit': '10.5.3' });
+    });
+
+    test('skips malformed entries of JSON lockfiles', () => {
+        writeFiles({
+            'package-lock.json': JSON.stringify({
+                packages: { 'node_modules/broken': null, 'node_modules/lodash': { version: 4 } },
+                dependencies: { express: { version: '4.18.2' }, koa: 'latest' },
+            }),
+            'Pipfile.lock': JSON.stringify({ default: { requests: null, django: { version: '==5.0.1' } }, develop: [] }),
+            'composer.lock': JSON.stringify({ 'packages': [null, { name: 'monolog/monolog', version: '3.5.0' }], 'packages-dev': {} }),
+        });
+
+        assert.deepStrictEqual(getResolvedVersionsJS(root, root), { express: '4.18.2' });
+        assert.deepStrictEqual(getResolvedVersionsPython(root, root), { django: '5.0.1' });
+        assert.deepStrictEqual(getResolvedVersionsPhp(root, root), { 'monolog/monolog': '3.5.0' });
+
+        writeFiles({ 'package-lock.json': '[1, 2]', 'composer.lock': 'null' });
+        assert.strictEqual(getResolvedVersionsJS(root, root), undefined);
+        assert.strictEqual(getResolvedVersionsPhp(root, root), undefined);
+    });
+
+    test('returns undefined without a lockfile or versions in it', () => {
+        const packageDir = writeFiles({ 'nested/package.json': '{}' });
+        assert.strictEqual(getResolvedVersionsJS(packageDir, packageDir), undefined);
+
+        writeFiles({ 'package-lock.json': '{ "lockfileVersion": 3, "packages": {} }', 'go.sum': '' });
+        assert.strictEqual(getResolvedVersionsJS(root, root), undefined);
+        assert.strictEqual(getResolvedVersionsGo(root, root), undefined);
+
+        writeFiles({ 'Pipfile.lock': 'not json' });
+        assert.strictEqual(getResolvedVersionsPython(root, root), undefined);
+    });
+});
@@ -0,0 +1,123 @@
+import * as assert from 'assert';
+
+import { parseGemfile, parseGemfileLockDependencies, parseGradleBuild } from '../packages';
+
+suite('parseGradleBuild', () => {
+    test('parses string notation in Groovy and Kotlin builds', () => {
+        const build = [
+            'dependencies {',
+            "    implementation 'com.google.guava:guava:32.1.2-jre'",
+            '    testImplementation("org.junit.jupiter:junit-jupiter:5.10.0")',
+            '    implementation(platform("org.springframework.boot:spring-boot-dependencies:3.2.0"))',
+            "    implementation 'com.android.support:appcompat-v7:28.0.0@aar'",
+            "    implementation 'org.springframework.boot:spring-boot-starter-web'",
+            "    implementation project(':core')",
+            '}',
+        ].join('\n');
+
+        assert.deepStrictEqual(parseGradleBuild(build), {
+            'com.google.guava:guava': { version: '32.1.2-jre' },
+            'org.junit.jupiter:junit-jupiter': { version: '5.10.0' },
+            'org.springframework.boot:spring-boot-dependencies': { version: '3.2.0' },
+            'com.android.support:appcompat-v7': { version: '28.0.0' },
+            'org.springframework.boot:spring-boot-starter-web': { version: '*' },
+        });
+    });
+
+    test('parses map notation', () => {
+        const build = [
+            "compile group: 'commons-io', name: 'commons-io', version: '2.6'",
+            'implementation(group = "org.slf4j", name = "slf4j-api")',
+        ].join('\n');
+
+        assert.deepStrictEqual(parseGradleBuild(build), {
+            'commons-io:commons-io': { version: '2.6' },
+            'org.slf4j:slf4j-api': { version: '*' },
+        });
+    });
+
+    test('skips commented out dependencies', () => {
+        const build = [
+            "// implementation 'com.example:line-comment:1.0'",
+            '/* implementation "com.example:block-comment:1.0"',
+            '   implementation "com.example:still-commented:1.0" */',
+            "implementation 'com.squareup.okhttp3:okhttp:4.12.0' // https://square.github.io/okhttp/",
+        ].join('\n');
+
+        assert.deepStrictEqual(parseGradleBuild(build), {
+            'com.squareup.okhttp3:okhttp': { version: '4.12.0' },
+        });
+    });
+});
+
+suite('parseGemfile', () => {
+    test('parses gems with their requirements', () => {
+        const gemfile = [
+            "source 'https://rubygems.org'",
+            '',
+            "gem 'rails', '~> 7.0', '>= 7.0.4'",
+            'gem "pg", require: false # the database',
+            "gem('puma', '6.4.0')",
+            '',
+            'group :test do',
+            "  gem 'rspec-rails'",
+            'end',
+        ].join('\n');
+
+        assert.deepStrictEqual(parseGemfile(gemfile), {
+            'rails': { version: '~> 7.0, >= 7.0.4' },
+            'pg': { version: '*' },
+            'puma': { version: '6.4.0' },
+            'rspec-rails': { version: '*' },
+        });
+    });
+
+    test('keeps where path and git gems come from', () => {
+        const gemfile = [
+            "gem 'core', path: 'engines/core'",
+            "gem 'devise', git: 'https://github.com/heartcombo/devise.git', branch: 'main'",
+            "gem 'rack', '~> 3.0', :github => 'rack/rack'",
+        ].join('\n');
+
+        assert.deepStrictEqual(parseGemfile(gemfile), {
+            core: { version: '*', replacement: 'engines/core' },
+            devise: { version: '*', replacement: 'https://github.com/heartcombo/devise.git' },
+            rack: { version: '~> 3.0', replacement: 'rack/rack' },
+        });
+    });
+});
+
+suite('parseGemfileLockDependencies', () => {
+    test('parses only the DEPENDENCIES section', () => {
+        const lock = [
+            'PATH',
+            '  remote: engines/core',
+            '  specs:',
+            '    core (0.1.0)',
+            '',
+            'GEM',
+            '  remote: https://rubygems.org/',
+            '  specs:',
+            '    rack (3.0.8)',
+            '    rails (7.1.2)',
+            '      rack (>= 2.2.4)',
+            '',
+            'PLATFORMS',
+            '  ruby',
+            '',
+            'DEPENDENCIES',
+            '  core!',
+            '  rails (~> 7.0, >= 7.0.4)',
+            '  rspec-rails',
+            '',
+            'BUNDLED WITH',
+            '   2.4.22',
+        ].join('\n');
+
+        assert.deepStrictEqual(parseGemfileLockDependencies(lock), {
+            'core': { version: '*' },
+            'rails': { version: '~> 7.0, >= 7.0.4' },
+            'rspec-rails': { version: '*' },
+        });
+    });
+});
@@ -0,0 +1,115 @@
+import * as assert from 'assert';
+
+import { parseStackTrace } from '../stackTrace';
+
+suite('parseStackTrace', () => {
+    test('parses Node traces', () => {
+        const trace = [
+            "TypeError: Cannot read properties of undefined (reading 'id')",
+            '    at getUser (/app/src/users.js:10:15)',
+            '    at async handler (/app/src/main.js:3:5)',
+            '    at /app/src/main.js:20:1',
+        ].join('\n');
+
+        assert.deepStrictEqual(parseStackTrace(trace), {
+            message: "TypeError: Cannot read properties of undefined (reading 'id')",
+            frames: [
+                { file: '/app/src/users.js', line: 10, column: 15, functionName: 'getUser' },
+                { file: '/app/src/main.js', line: 3, column: 5, functionName: 'handler' },
+                { file: '/app/src/main.js', line: 20, column: 1, functionName: undefined },
+            ],
+        });
+    });
+
+    test('parses Python tracebacks innermost frame first, skipping the source lines', () => {
+        const trace = [
+            'Traceback (most recent call last):',
+            '  File "/app/main.py", line 12, in <module>',
+            '    main()',
+            '  File "/app/service.py", line 5, in handler',
+            '    return data["id"]',
+            '           ~~~~^^^^^^',
+            "KeyError: 'id'",
+        ].join('\n');
+
+        assert.deepStrictEqual(parseStackTrace(trace), {
+            message: "KeyError: 'id'",
+            frames: [
+                { file: '/app/service.py', line: 5, functionName: 'handler' },
+                { file: '/app/main.py', line: 12, functionName: '<module>' },
+            ],
+        });
+    });
+
+    test('parses Go panics with the function from the line before each file', () => {
+        const trace = [
+            'panic: runtime error: index out of range [5] with length 3',
+            '',
+            'goroutine 1 [running]:',
+            'main.lookup(...)',
+            '\t/app/main.go:12',
+            'main.main()',
+            '\t/app/main.go:7 +0x1d',
+        ].join('\n');
+
+        assert.deepStrictEqual(parseStackTrace(trace), {
+            message: 'panic: runtime error: index out of range [5] with length 3',
+            frames: [
+                { file: '/app/main.go', line: 12, functionName: 'main.lookup' },
+                { file: '/app/main.go', line: 7, functionName: 'main.main' },
+            ],
+        });
+    });
+
+    test('parses C# traces', () => {
+        const trace = [
+            'System.NullReferenceException: Object reference not set to an instance of an object.',
+            '   at App.Service.Run(String id) in C:\\src\\App\\Service.cs:line 42',
+            '   at App.Program.Main() in C:\\src\\App\\Program.cs:line 10',
+        ].join('\r\n');
+
+        assert.deepStrictEqual(parseStackTrace(trace), {
+            message: 'System.NullReferenceException: Object reference not set to an instance of an object.',
+            frames: [
+                { file: 'C:\\src\\App\\Service.cs', line: 42, functionName: 'App.Service.Run(String id)' },
+                { file: 'C:\\src\\App\\Program.cs', line: 10, functionName: 'App.Program.Main()' },
+            ],
+        });
+    });
+
+    test('parses gdb backtraces and sanitizer reports', () => {
+        const gdb = [
+            '#0  compute (x=1) at src/main.cpp:5',
+            '#1  0x0000555555555171 in main () at src/main.cpp:10',
+        ].join('\n');
+        assert.deepStrictEqual(parseStackTrace(gdb).frames, [
+            { file: 'src/main.cpp', line: 5, functionName: 'compute' },
+            { file: 'src/main.cpp', line: 10, functionName: 'main' },
+        ]);
+
+        const asan = [
+            '==1==ERROR: AddressSanitizer: heap-buffer-overflow on address 0x602000000014',
+            '    #0 0x4f5a3c in compute(int) /src/main.cpp:12:5',
+            '    #1 0x4f5b10 in main /src/main.cpp:20',
+        ].join('\n');
+        assert.deepStrictEqual(parseStackTrace(asan), {
+            message: '==1==ERROR: AddressSanitizer: heap-buffer-overflow on address 0x602000000014',
+            frames: [
+                { file: '/src/main.cpp', line: 12, column: 5, functionName: 'compute(int)' },
+                { file: '/src/main.cpp', line: 20, column: undefined, functionName: 'main' },
+            ],
+        });
+    });
+
+    test('splits a trace flattened onto one line', () => {
+        const trace = 'Error: boom at run (/app/a.js:1:2) at /app/b.js:3:4';
+
+        assert.deepStrictEqual(parseStackTrace(trace), {
+            message: 'Error: boom',
+            frames: [
+                { file: '/app/a.js', line: 1, column: 2, functionName: 'run' },
+                { file: '/app/b.js', line: 3, column: 4, functionName: undefined },
+            ],
+        });
+    });
+});
@@ -0,0 +1,102 @@
+import * as assert from 'assert';
+
+import { parseToml } from '../toml';
+
+suite('parseToml', () => {
+    test('parses tables and arrays of tables', () => {
+        const toml = [
+            '[package]',
+            'name = "raydoc"',
+            'version = "0.1.0"',
+            '',
+            '[dependencies.serde]',
+            'version = "1.0"',
+            '',
+            '[[package.authors]]',
+            'name = "a"',
+            '[[package.authors]]',
+            'name = "b"',
+            '[package.authors.links]',
+            'home = "https://example.com"',
+        ].join('\n');
+
+        assert.deepStrictEqual(parseToml(toml), {
+            package: {
+                name: 'raydoc',
+                version: '0.1.0',
+                authors: [{ name: 'a' }, { name: 'b', links: { home: 'https://example.com' } }],
+            },
+            dependencies: { serde: { version: '1.0' } },
+        });
+    });
+
+    test('parses dotted and quoted keys', () => {
+        const toml = [
+            'tool.poetry.name = "app"',
+            '"quoted key" = 1',
+            "'literal.key' = 2",
+            'site."example.com" = true',
+        ].join('\n');
+
+        assert.deepStrictEqual(parseToml(toml), {
+            tool: { poetry: { name: 'app' } },
+            'quoted key': 1,
+            'literal.key': 2,
+            site: { 'example.com': true },
+        });
+    });
+
+    test('parses strings and escapes', () => {
+        const toml = [
+            'basic = "tab\\there \\"quoted\\" \\u00e9"',
+            "literal = 'C:\\Users\\no\\escapes'",
+            'multiline = """',
+            'first\\nsecond',
+            'third"""',
+            "raw = '''",
+            "keep \\n as is'''",
+        ].join('\n');
+
+        assert.deepStrictEqual(parseToml(toml), {
+            basic: 'tab\there "quoted" é',
+            literal: 'C:\\Users\\no\\escapes',
+            multiline: 'first\nsecond\nthird',
+            raw: 'keep \\n as is',
+        });
+    });
+
+    test('parses numbers, booleans and other scalars', () => {
+        const toml = 'count = 1_000\nratio = 0.5\nenabled = false\nreleased = 1979-05-27T07:32:00Z # a date';
+
+        assert.deepStrictEqual(parseToml(toml), {
+            count: 1000,
+            ratio: 0.5,
+            enabled: false,
+            released: '1979-05-27T07:32:00Z',
+        });
+    });
+
+    test('parses arrays and inline tables', () => {
+        const toml = [
+            'requires = [',
+            '    "setuptools>=61", # build backend',
+            '    "wheel",',
+            ']',
+            'nested = [[1, 2], []]',
+            'requests = { version = "^2.31", extras = ["socks"], source.name = "pypi" }',
+        ].join('\n');
+
+        assert.deepStrictEqual(parseToml(toml), {
+            requires: ['setuptools>=61', 'wheel'],
+            nested: [[1, 2], []],
+            requests: { version: '^2.31', extras: ['socks'], source: { name: 'pypi' } },
+        });
+    });
+
+    test('throws with the line of invalid input', () => {
+        assert.throws(() => parseToml('name = "raydoc"\nversion "1.0"'), /^Error: Invalid TOML on line 2: expected "="$/);
+        assert.throws(() => parseToml('name = "unterminated\n'), /Invalid TOML on line 1: unterminated string/);
+        assert.throws(() => parseToml('list = [1 2]'), /Invalid TOML on line 1: expected "," or "\]"/);
+        assert.throws(() => parseToml('name = "raydoc"\n[name]'), /Invalid TOML on line 2: "name" is not a table/);
+    });
+});
@@ -0,0 +1,61 @@
+import type * as vscode from 'vscode';
+
+import { FunctionDefinition } from './types';
+import { getFunctionDefinition } from './functions';
+import { isIgnoreLocation, isInWorkspace } from './getReferences';
+import { matchesAnyGlob } from './globs';
+import { getLanguageProvider } from './provider';
+import { raceCancellation } from './progress';
+
+/**
+ * Find the test cases that reference the given function: references in files matching the
+ * `test-file-globs` setting, each expanded to its closest enclosing function rather than the
+ * whole file. The lines that use the function are recorded in `callSiteLines`. Once the token is
+ * cancelled, the tests found so far are returned.
+ */
+export async function getTestsForFunction(
+    document: vscode.TextDocument,
+    functionDefinition: FunctionDefinition,
+    maxTests = 5,
+    token?: vscode.CancellationToken,
+): Promise<FunctionDefinition[]> {
+    const config = getLanguageProvider().getConfiguration('raydoc-context');
+    const testFileGlobs = config.get<string[]>('test-file-globs', []);
+
+    const locations = await raceCancellation(
+        getLanguageProvider().references(document.uri, functionDefinition.functionSymbol.selectionRange.start),
+        token,
+        []
+    );
+
+    const tests = new Map<string, FunctionDefinition>();
+    for (const location of locations) {
+        if (token?.isCancellationRequested) {
+            break;
+        }
+        const fsPath = location.uri.fsPath;
+        if (!isInWorkspace(fsPath) || isIgnoreLocation(fsPath) || !matchesAnyGlob(location.uri, testFileGlobs)) {
+            continue;
+        }
+
+        const testDoc = await getLanguageProvider().openTextDocument(location.uri);
+        const testCase = await getFunctionDefinition(testDoc, location.range.start, false, true, true, token);
+        if (!testCase) {
+            continue;
+        }
+
+        const key = `${testCase.filename}:${testCase.startLine}`;
+        const existing = tests.get(key);
+        if (existing) {
+            existing.callSiteLines = [...(existing.callSiteLines || []), location.range.start.line];
+            continue;
+        }
+        if (tests.size >= maxTests) {
+            continue;
+        }
+        testCase.callSiteLines = [location.range.start.line];
+        tests.set(key, testCase);
+    }
+
+    return Array.from(tests.values());
+}
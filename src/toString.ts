@@ -1,158 +1,100 @@
-import * as vscode from 'vscode';
-import { Node, RaydocContext } from "./types";
-
-export function contextToString(context: RaydocContext): string {
-    const config = vscode.workspace.getConfiguration('raydoc-context.output-config');
-    const includeEnvironment = config.get<boolean>('environment', true);
-    const includeRuntimeVersion = config.get<boolean>('runtime-version', true);
-    const includeFocusedLines = config.get<boolean>('focused-lines', true);
-    const includePackages = config.get<boolean>('packages', true);
-    const includeFileTree = config.get<boolean>('file-tree', false);
-    const includeFunctionDefn = config.get<boolean>('function-definition', true);
-    const includeTypeDefns = config.get<boolean>('type-definitions', true);
-    const includeReferencedFunctions = config.get<boolean>('referenced-functions', false);
-    const systemMessage = config.get<string>('system-message', '');
-
-    let output = '';
-
-    // ========== Error ==========
-    if (context.errorMessage) {
-        output = "=== Error ===\n";
-        output += `Error Message: ${context.errorMessage}\n\n`;
-    }
-
-    // ========== Focused Lines ==========
-    if (includeFocusedLines) {
-        output += "=== Focus Lines ===\n";
-        if (context.immediateContextLines) {
-            output += context.immediateContextLines;
-            output += "\n\n";
-        }
-    }
-
-    // ========== Basic Context (File & Line) ==========
-    if (context.filepath || typeof context.line === 'number') {
-        output += "=== Context ===\n";
-    }
-
-    if (context.filepath) {
-        output += `File: ${context.filepath}\n`;
-    }
-
-    // Note: context.line is the first line of the user's selection in gatherContext
-    if (typeof context.line === 'number') {
-        output += `Line: ${context.line + 1}\n`; // Convert to 1-based for readability
-    }
-
-    // ========== Environment (Language, Runtime) ==========
-    if (includeEnvironment) {
-        output += "\n=== Environment ===\n";
-        if (context.languageId) {
-            output += `Language: ${context.languageId}\n`;
-        }
-        if (includeRuntimeVersion && context.runtimeVersion) {
-            output += `Version: ${context.runtimeVersion}\n`;
-        }
-    }
-
-    // ========== Packages ==========
-    if (includePackages && context.packages) {
-        output += "\n=== Packages ===\n";
-        for (const [name, version] of Object.entries(context.packages)) {
-            output += `${name}: ${version}\n`;
-        }
-    }
-
-    // ========== Main Function(s) in Selection ==========
-    // (previously context.functionDefn, now an array context.functionDefns)
-    if (includeFunctionDefn && context.functionDefns && context.functionDefns.length > 0) {
-        // If you prefer a different heading when there's more than one function:
-        if (context.functionDefns.length > 1) {
-            output += `\n=== Main Functions in Selection ===\n`;
-        } else {
-            output += `\n=== Enclosing Function (${context.functionDefns[0].filename}) ===\n`;
-        }
-
-        for (const mainFn of context.functionDefns) {
-            output += `--- Main Function: "${mainFn.functionName}" (${mainFn.filename}) ---\n`;
-            output += mainFn.functionText;
-            output += '\n\n';
-        }
-    }
-
-    // ========== Type Definitions ==========
-    if (includeTypeDefns && context.typeDefns && context.typeDefns.length > 0) {
-        output += "\n=== Type Definitions ===\n";
-        for (const typeDefn of context.typeDefns) {
-            output += `--- Custom Type: "${typeDefn.functionName}" (${typeDefn.filename}) ---\n`;
-            output += typeDefn.functionText;
-            output += '\n\n';
-        }
-    }
-
-    // ========== Workspace File Tree ==========
-    if (includeFileTree && context.fileTree) {
-        output += "\n=== Workspace File Tree ===\n";
-        output += fileTreeToString(context.fileTree, '');
-    }
-
-    // ========== Referenced Functions ==========
-    if (includeReferencedFunctions && context.referencedFunctions && context.referencedFunctions.length > 0) {
-        output += "\n=== Referenced Functions ===\n";
-        for (const refFunc of context.referencedFunctions) {
-            output += `--- Referenced Function: "${refFunc.functionName}" (${refFunc.filename}) ---\n`;
-            output += refFunc.functionText;
-            output += '\n\n';
-        }
-    }
-
-    // ========== System Message ==========
-    if (systemMessage && systemMessage.trim() !== '') {
-        output += "\n=== System Message ===\n";
-        output += systemMessage;
-        output += "\n\n";
-    }
+import type * as vscode from 'vscode';
+import { OutputOptions, RaydocContext } from "./types";
+import { BudgetedContext, fitContextToBudget } from './budget';
+import { getFormatter } from './formatters';
+import { RedactedText, redactSecrets } from './redaction';
+import { getLanguageProvider } from './provider';
+
+export function contextToString(context: RaydocContext, options = getOutputOptions()): string {
+    return renderContext(context, options).text;
+}
 
-    return output;
+/**
+ * Render the context with secrets redacted, along with how many redactions were made.
+ */
+export function renderContext(context: RaydocContext, options = getOutputOptions(), formatName = getOutputFormat()): RedactedText {
+    const format = getFormatter(formatName);
+    const budgeted = fitContextToBudget(context, (budgetedContext, omitted) => format(budgetedContext, options, omitted), options);
+    return redactSecrets(format(budgeted.context, options, budgeted.omitted));
 }
 
 export function contextToStringLlm(context: RaydocContext): string {
-    const config = vscode.workspace.getConfiguration('raydoc-context.output-config');
-    const includeFocusedLines = config.get<boolean>('focused-lines', true);
-    const systemMessage = config.get<string>('system-message', '');
+    return renderContextLlm(context).text;
+}
 
-    let output = '';
+export function renderContextLlm(context: RaydocContext, options = getLlmOutputOptions(), formatName = getOutputFormat()): RedactedText {
+    const format = getFormatter(formatName);
+    const budgeted = fitContextForLlm(context, options, formatName);
+    return redactSecrets(format(budgeted.context, options, budgeted.omitted));
+}
 
-    // If there's an error message, show it
-    if (context.errorMessage) {
-        output += "=== Error ===\n";
-        output += `Error Message: ${context.errorMessage}\n\n`;
-    }
+/**
+ * The LLM flow attaches every definition to the chat, so they are all counted against the
+ * budget along with the text copied to the clipboard.
+ */
+export function fitContextForLlm(context: RaydocContext, options = getLlmOutputOptions(), formatName = getOutputFormat()): BudgetedContext {
+    const format = getFormatter(formatName);
+    return fitContextToBudget(context, (budgeted, omitted) => format(budgeted, options, omitted) + attachedText(budgeted));
+}
 
-    // If configured, show the focused lines (the user's selection + some surrounding lines)
-    if (includeFocusedLines && context.immediateContextLines) {
-        output += "=== Focus Lines ===\n";
-        output += context.immediateContextLines;
-        output += "\n\n";
-    }
+function attachedText(context: RaydocContext): string {
+    return [
+        ...context.functionDefns || [],
+        ...context.typeDefns || [],
+        ...context.referencedFunctions || [],
+        ...context.incomingCalls || [],
+        ...context.tests || [],
+    ].map(defn => `--- "${defn.functionName}" (${defn.filename}) ---\n${defn.functionText}\n\n`).join('');
+}
 
-    // Add system message if it exists
-    if (systemMessage && systemMessage.trim() !== '') {
-        output += "\n=== System Message ===\n";
-        output += systemMessage;
-        output += "\n\n";
-    }
+// Separates pasted context from whatever the user types next; JSON has to stay parseable
+export function outputSeparator(format = getOutputFormat()): string {
+    return format === 'json' ? '' : '---\n\n\n';
+}
+
+export function getOutputFormat(): string {
+    const config = getLanguageProvider().getConfiguration('raydoc-context.output-config');
+    return config.get<string>('format', 'text');
+}
 
-    return output;
+export function getOutputOptions(): OutputOptions {
+    const config = getLanguageProvider().getConfiguration('raydoc-context.output-config');
+    return {
+        location: true,
+        environment: config.get<boolean>('environment', true),
+        runtimeVersion: config.get<boolean>('runtime-version', true),
+        focusedLines: config.get<boolean>('focused-lines', true),
+        packages: config.get<boolean>('packages', true),
+        fileTree: config.get<boolean>('file-tree', false),
+        functionDefinition: config.get<boolean>('function-definition', true),
+        typeDefinitions: config.get<boolean>('type-definitions', true),
+        referencedFunctions: config.get<boolean>('referenced-functions', false),
+        incomingCalls: config.get<boolean>('incoming-calls', false),
+        tests: config.get<boolean>('tests', false),
+        gitHistory: config.get<boolean>('git-history', false),
+        systemMessage: config.get<string>('system-message', ''),
+    };
 }
 
-// Helper to recursively print the file tree
-function fileTreeToString(node: Node, indent: string): string {
-    let output = `${indent}${node.name}${node.isDir ? '/' : ''}\n`;
-    if (node.children) {
-        for (const child of node.children) {
-            output += fileTreeToString(child, indent + '    ');
-        }
-    }
-    return output;
+/**
+ * The definitions themselves are attached to the chat, so the copied text only
+ * carries the error, the focused lines and the system message.
+ */
+export function getLlmOutputOptions(): OutputOptions {
+    const options = getOutputOptions();
+    return {
+        location: false,
+        environment: false,
+        runtimeVersion: false,
+        focusedLines: options.focusedLines,
+        packages: false,
+        fileTree: false,
+        functionDefinition: false,
+        typeDefinitions: false,
+        referencedFunctions: false,
+        incomingCalls: false,
+        tests: false,
+        gitHistory: false,
+        systemMessage: options.systemMessage,
+    };
 }
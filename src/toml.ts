@@ -0,0 +1,282 @@
+export type TomlValue = string | number | boolean | TomlValue[] | TomlTable;
+export type TomlTable = { [key: string]: TomlValue };
+
+/**
+ * A small TOML parser covering what manifests like pyproject.toml, Pipfile and Cargo.toml use:
+ * tables, arrays of tables, dotted and quoted keys, strings, arrays and inline tables.
+ * Dates and other scalars are kept as strings. Throws on input it can't make sense of.
+ */
+export function parseToml(content: string): TomlTable {
+    const root: TomlTable = {};
+    let current = root;
+    let i = 0;
+
+    const peek = (offset = 0) => content[i + offset];
+
+    const skipSpaces = () => {
+        while (i < content.length && (peek() === ' ' || peek() === '\t')) {
+            i++;
+        }
+    };
+
+    const skipComment = () => {
+        if (peek() === '#') {
+            while (i < content.length && peek() !== '\n') {
+                i++;
+            }
+        }
+    };
+
+    // Whitespace, newlines and comments are all insignificant between values in arrays
+    const skipBlank = () => {
+        while (i < content.length) {
+            skipSpaces();
+            skipComment();
+            if (peek() === '\n' || peek() === '\r') {
+                i++;
+            } else {
+                return;
+            }
+        }
+    };
+
+    const fail = (message: string): never => {
+        const line = content.slice(0, i).split('\n').length;
+        throw new Error(`Invalid TOML on line ${line}: ${message}`);
+    };
+
+    const parseBasicString = (): string => {
+        i++; // opening quote
+        let value = '';
+        while (i < content.length && peek() !== '"') {
+            if (peek() === '\n') {
+                fail('unterminated string');
+            }
+            if (peek() === '\\') {
+                value += parseEscape();
+            } else {
+                value += peek();
+                i++;
+            }
+        }
+        i++; // closing quote
+        return value;
+    };
+
+    const parseEscape = (): string => {
+        const escaped = peek(1);
+        i += 2;
+        switch (escaped) {
+            case 'n': return '\n';
+            case 't': return '\t';
+            case 'r': return '\r';
+            case '"': return '"';
+            case '\\': return '\\';
+            case 'u':
+            case 'U': {
+                const length = escaped === 'u' ? 4 : 8;
+                const code = parseInt(content.slice(i, i + length), 16);
+                i += length;
+                return String.fromCodePoint(code);
+            }
+            default: return escaped;
+        }
+    };
+
+    const parseMultilineString = (quote: string): string => {
+        i += 3;
+        // A newline right after the opening quotes is trimmed
+        if (peek() === '\r') {
+            i++;
+        }
+        if (peek() === '\n') {
+            i++;
+        }
+        let value = '';
+        while (i < content.length && content.slice(i, i + 3) !== quote.repeat(3)) {
+            if (quote === '"' && peek() === '\\') {
+                value += parseEscape();
+            } else {
+                value += peek();
+                i++;
+            }
+        }
+        i += 3;
+        return value;
+    };
+
+    const parseLiteralString = (): string => {
+        const end = content.indexOf("'", i + 1);
+        if (end < 0) {
+            fail('unterminated string');
+        }
+        const value = content.slice(i + 1, end);
+        i = end + 1;
+        return value;
+    };
+
+    const parseKeyPart = (): string => {
+        if (peek() === '"') {
+            return parseBasicString();
+        }
+        if (peek() === "'") {
+            return parseLiteralString();
+        }
+        const match = content.slice(i).match(/^[A-Za-z0-9_-]+/);
+        if (!match) {
+            fail('expected a key');
+        }
+        i += match![0].length;
+        return match![0];
+    };
+
+    const parseKey = (): string[] => {
+        const parts = [parseKeyPart()];
+        skipSpaces();
+        while (peek() === '.') {
+            i++;
+            skipSpaces();
+            parts.push(parseKeyPart());
+            skipSpaces();
+        }
+        return parts;
+    };
+
+    const parseValue = (): TomlValue => {
+        if (content.startsWith('"""', i)) {
+            return parseMultilineString('"');
+        }
+        if (content.startsWith("'''", i)) {
+            return parseMultilineString("'");
+        }
+        if (peek() === '"') {
+            return parseBasicString();
+        }
+        if (peek() === "'") {
+            return parseLiteralString();
+        }
+        if (peek() === '[') {
+            i++;
+            const values: TomlValue[] = [];
+            skipBlank();
+            while (peek() !== ']') {
+                values.push(parseValue());
+                skipBlank();
+                if (peek() === ',') {
+                    i++;
+                    skipBlank();
+                } else if (peek() !== ']') {
+                    fail('expected "," or "]"');
+                }
+            }
+            i++;
+            return values;
+        }
+        if (peek() === '{') {
+            i++;
+            const table: TomlTable = {};
+            skipSpaces();
+            while (peek() !== '}') {
+                const key = parseKey();
+                skipSpaces();
+                if (peek() !== '=') {
+                    fail('expected "="');
+                }
+                i++;
+                skipSpaces();
+                setKey(table, key, parseValue());
+                skipSpaces();
+                if (peek() === ',') {
+                    i++;
+                    skipSpaces();
+                } else if (peek() !== '}') {
+                    fail('expected "," or "}"');
+                }
+            }
+            i++;
+            return table;
+        }
+
+        const match = content.slice(i).match(/^[^\s,\]}#]+/);
+        if (!match) {
+            fail('expected a value');
+        }
+        const raw = match![0];
+        i += raw.length;
+        if (raw === 'true' || raw === 'false') {
+            return raw === 'true';
+        }
+        const number = Number(raw.replace(/_/g, ''));
+        return Number.isNaN(number) ? raw : number;
+    };
+
+    const getTable = (table: TomlTable, key: string[]): TomlTable => {
+        let target = table;
+        for (const part of key) {
+            let next = target[part];
+            if (Array.isArray(next)) {
+                // Keys under an array of tables refer to its last entry
+                next = next[next.length - 1];
+            }
+            if (next === undefined) {
+                next = {};
+                target[part] = next;
+            }
+            if (typeof next !== 'object' || Array.isArray(next)) {
+                fail(`"${part}" is not a table`);
+            }
+            target = next as TomlTable;
+        }
+        return target;
+    };
+
+    const setKey = (table: TomlTable, key: string[], value: TomlValue) => {
+        const target = getTable(table, key.slice(0, -1));
+        target[key[key.length - 1]] = value;
+    };
+
+    while (i < content.length) {
+        skipBlank();
+        if (i >= content.length) {
+            break;
+        }
+
+        if (content.startsWith('[[', i)) {
+            i += 2;
+            skipSpaces();
+            const key = parseKey();
+            if (!content.startsWith(']]', i)) {
+                fail('expected "]]"');
+            }
+            i += 2;
+            const parent = getTable(root, key.slice(0, -1));
+            const name = key[key.length - 1];
+            const tables = Array.isArray(parent[name]) ? parent[name] as TomlValue[] : [];
+            parent[name] = tables;
+            current = {};
+            tables.push(current);
+        } else if (peek() === '[') {
+            i++;
+            skipSpaces();
+            const key = parseKey();
+            if (peek() !== ']') {
+                fail('expected "]"');
+            }
+            i++;
+            current = getTable(root, key);
+        } else {
+            const key = parseKey();
+            if (peek() !== '=') {
+                fail('expected "="');
+            }
+            i++;
+            skipSpaces();
+            setKey(current, key, parseValue());
+        }
+
+        skipSpaces();
+        skipComment();
+    }
+
+    return root;
+}
@@ -0,0 +1,270 @@
+import type * as vscode from 'vscode';
+import * as path from 'path';
+import type * as ts from 'typescript';
+
+import {
+    CallHierarchyIncomingCall,
+    CallHierarchyItem,
+    Diagnostic,
+    DiagnosticRelatedInformation,
+    DiagnosticSeverity,
+    DocumentSymbol,
+    Location,
+    Range,
+    SymbolKind,
+    Uri,
+} from './cliHost';
+import { LanguageFeatures } from './provider';
+
+// The kinds VS Code's TypeScript extension gives document symbols, e.g. type aliases are variables
+const SYMBOL_KINDS: Record<string, vscode.SymbolKind> = {
+    'module': SymbolKind.Module,
+    'class': SymbolKind.Class,
+    'enum': SymbolKind.Enum,
+    'interface': SymbolKind.Interface,
+    'method': SymbolKind.Method,
+    'property': SymbolKind.Property,
+    'getter': SymbolKind.Property,
+    'setter': SymbolKind.Property,
+    'var': SymbolKind.Variable,
+    'const': SymbolKind.Variable,
+    'local var': SymbolKind.Variable,
+    'function': SymbolKind.Function,
+    'local function': SymbolKind.Function,
+    'construct': SymbolKind.Constructor,
+    'constructor': SymbolKind.Constructor,
+};
+
+const SEVERITIES: Record<number, vscode.DiagnosticSeverity> = {
+    0: DiagnosticSeverity.Warning,
+    1: DiagnosticSeverity.Error,
+    2: DiagnosticSeverity.Hint,
+    3: DiagnosticSeverity.Information,
+};
+
+/**
+ * Answer the language feature requests with the TypeScript language service, for TypeScript
+ * and JavaScript files. The project comes from the tsconfig.json (or jsconfig.json) nearest to
+ * the entry file, and TypeScript itself from the workspace's node_modules if it has one.
+ */
+export function createTypeScriptProvider(rootPath: string, entryFile: string): LanguageFeatures {
+    let tsModule: typeof ts;
+    try {
+        tsModule = require(require.resolve('typescript', { paths: [rootPath, __dirname] }));
+    } catch {
+        throw new Error(`TypeScript isn't installed in ${rootPath}; install it or start a language server with --lsp <command>`);
+    }
+
+    const configFile = tsModule.findConfigFile(path.dirname(entryFile), tsModule.sys.fileExists) ||
+        tsModule.findConfigFile(path.dirname(entryFile), tsModule.sys.fileExists, 'jsconfig.json');
+    let fileNames: string[] = [];
+    let compilerOptions: ts.CompilerOptions = { allowJs: true, checkJs: false };
+    if (configFile) {
+        const config = tsModule.readConfigFile(configFile, tsModule.sys.readFile);
+        const parsed = tsModule.parseJsonConfigFileContent(config.config || {}, tsModule.sys, path.dirname(configFile));
+        fileNames = parsed.fileNames;
+        compilerOptions = { allowJs: true, ...parsed.options };
+    }
+
+    // Files outside the project, e.g. the entry file when it isn't in the tsconfig
+    const extraFiles = new Set<string>();
+    let projectVersion = 0;
+
+    const host: ts.LanguageServiceHost = {
+        getProjectVersion: () => String(projectVersion),
+        getScriptFileNames: () => [...fileNames, ...extraFiles],
+        // Files don't change while the CLI runs
+        getScriptVersion: () => '1',
+        getScriptSnapshot: fileName => {
+            const text = tsModule.sys.readFile(fileName);
+            return text === undefined ? undefined : tsModule.ScriptSnapshot.fromString(text);
+        },
+        getCurrentDirectory: () => rootPath,
+        getCompilationSettings: () => compilerOptions,
+        getDefaultLibFileName: options => tsModule.getDefaultLibFilePath(options),
+        fileExists: tsModule.sys.fileExists,
+        readFile: tsModule.sys.readFile,
+        readDirectory: tsModule.sys.readDirectory,
+        directoryExists: tsModule.sys.directoryExists,
+        getDirectories: tsModule.sys.getDirectories,
+    };
+    const service = tsModule.createLanguageService(host, tsModule.createDocumentRegistry());
+
+    const getSourceFile = (uri: vscode.Uri): ts.SourceFile | undefined => {
+        const fileName = uri.fsPath;
+        let sourceFile = service.getProgram()?.getSourceFile(fileName);
+        if (!sourceFile && !extraFiles.has(fileName) && tsModule.sys.fileExists(fileName)) {
+            extraFiles.add(fileName);
+            projectVersion++;
+            sourceFile = service.getProgram()?.getSourceFile(fileName);
+        }
+        return sourceFile;
+    };
+
+    const toOffset = (uri: vscode.Uri, position: vscode.Position): number | undefined => {
+        const sourceFile = getSourceFile(uri);
+        if (!sourceFile) {
+            return undefined;
+        }
+        const lineStarts = sourceFile.getLineStarts();
+        if (position.line >= lineStarts.length) {
+            return undefined;
+        }
+        return Math.min(lineStarts[position.line] + position.character, sourceFile.end);
+    };
+
+    const toRange = (fileName: string, span: ts.TextSpan): vscode.Range => {
+        const sourceFile = service.getProgram()?.getSourceFile(fileName);
+        if (!sourceFile) {
+            return new Range(0, 0, 0, 0);
+        }
+        const start = sourceFile.getLineAndCharacterOfPosition(span.start);
+        const end = sourceFile.getLineAndCharacterOfPosition(span.start + span.length);
+        return new Range(start.line, start.character, end.line, end.character);
+    };
+
+    // Mirrors the document symbols of VS Code's TypeScript extension
+    const convertNavigationTree = (fileName: string, output: vscode.DocumentSymbol[], item: ts.NavigationTree): boolean => {
+        let include = item.kind !== 'alias' && !!item.text && item.text !== '<function>' && item.text !== '<class>';
+        if (!include && !item.childItems?.length) {
+            return false;
+        }
+
+        const children = new Set(item.childItems || []);
+        for (const span of item.spans) {
+            const range = toRange(fileName, span);
+            const selectionRange = item.nameSpan ? toRange(fileName, item.nameSpan) : range;
+            const label = item.kind === 'getter' ? `(get) ${item.text}` : item.kind === 'setter' ? `(set) ${item.text}` : item.text;
+            const symbol = new DocumentSymbol(
+                label,
+                '',
+                SYMBOL_KINDS[item.kind] ?? SymbolKind.Variable,
+                range,
+                range.contains(selectionRange) ? selectionRange : range
+            );
+
+            for (const child of children) {
+                if (child.spans.some(childSpan => !!range.intersection(toRange(fileName, childSpan)))) {
+                    include = convertNavigationTree(fileName, symbol.children, child) || include;
+                    children.delete(child);
+                }
+            }
+            if (include) {
+                output.push(symbol);
+            }
+        }
+        return include;
+    };
+
+    const toCallHierarchyItem = (item: ts.CallHierarchyItem): vscode.CallHierarchyItem => {
+        const relativePath = path.relative(rootPath, item.file).split(path.sep).join('/');
+        return new CallHierarchyItem(
+            SYMBOL_KINDS[item.kind] ?? SymbolKind.Variable,
+            item.name,
+            item.containerName ? `${relativePath} - ${item.containerName}` : relativePath,
+            Uri.file(item.file),
+            toRange(item.file, item.span),
+            toRange(item.file, item.selectionSpan)
+        );
+    };
+
+    return {
+        documentSymbols: async uri => {
+            if (!getSourceFile(uri)) {
+                return undefined;
+            }
+            const symbols: vscode.DocumentSymbol[] = [];
+            for (const item of service.getNavigationTree(uri.fsPath).childItems || []) {
+                convertNavigationTree(uri.fsPath, symbols, item);
+            }
+            return symbols;
+        },
+
+        definitions: async (uri, position) => {
+            const offset = toOffset(uri, position);
+            if (offset === undefined) {
+                return [];
+            }
+
+            const results: (vscode.Location | vscode.LocationLink)[] = [];
+            for (const definition of service.getDefinitionAndBoundSpan(uri.fsPath, offset)?.definitions || []) {
+                const targetSelectionRange = toRange(definition.fileName, definition.textSpan);
+                results.push({
+                    targetUri: Uri.file(definition.fileName),
+                    targetRange: definition.contextSpan ? toRange(definition.fileName, definition.contextSpan) : targetSelectionRange,
+                    targetSelectionRange,
+                });
+            }
+            for (const definition of service.getTypeDefinitionAtPosition(uri.fsPath, offset) || []) {
+                results.push(new Location(Uri.file(definition.fileName), toRange(definition.fileName, definition.textSpan)));
+            }
+            return results;
+        },
+
+        references: async (uri, position) => {
+            const offset = toOffset(uri, position);
+            if (offset === undefined) {
+                return [];
+            }
+            return (service.getReferencesAtPosition(uri.fsPath, offset) || []).map(reference =>
+                new Location(Uri.file(reference.fileName), toRange(reference.fileName, reference.textSpan))
+            );
+        },
+
+        prepareCallHierarchy: async (uri, position) => {
+            const offset = toOffset(uri, position);
+            if (offset === undefined) {
+                return [];
+            }
+            const items = service.prepareCallHierarchy(uri.fsPath, offset);
+            return (Array.isArray(items) ? items : items ? [items] : []).map(toCallHierarchyItem);
+        },
+
+        incomingCalls: async item => {
+            const offset = toOffset(item.uri, item.selectionRange.start);
+            if (offset === undefined) {
+                return [];
+            }
+            return service.provideCallHierarchyIncomingCalls(item.uri.fsPath, offset).map(call =>
+                new CallHierarchyIncomingCall(
+                    toCallHierarchyItem(call.from),
+                    call.fromSpans.map(span => toRange(call.from.file, span))
+                )
+            );
+        },
+
+        diagnostics: async uri => {
+            if (!getSourceFile(uri)) {
+                return [];
+            }
+            return [...service.getSyntacticDiagnostics(uri.fsPath), ...service.getSemanticDiagnostics(uri.fsPath)].map(tsDiagnostic => {
+                const range = tsDiagnostic.start !== undefined
+                    ? toRange(uri.fsPath, { start: tsDiagnostic.start, length: tsDiagnostic.length || 0 })
+                    : new Range(0, 0, 0, 0);
+                const diagnostic = new Diagnostic(
+                    range,
+                    tsModule.flattenDiagnosticMessageText(tsDiagnostic.messageText, '\n'),
+                    SEVERITIES[tsDiagnostic.category]
+                );
+                diagnostic.source = 'ts';
+                diagnostic.code = tsDiagnostic.code;
+                diagnostic.relatedInformation = (tsDiagnostic.relatedInformation || [])
+                    .filter(related => related.file && related.start !== undefined)
+                    .map(related => new DiagnosticRelatedInformation(
+                        new Location(Uri.file(related.file!.fileName), toRange(related.file!.fileName, { start: related.start!, length: related.length || 0 })),
+                        tsModule.flattenDiagnosticMessageText(related.messageText, '\n')
+                    ));
+                return diagnostic;
+            });
+        },
+
+        workspaceSymbols: async query =>
+            service.getNavigateToItems(query, 100, undefined, true).map(item => ({
+                name: item.name,
+                kind: SYMBOL_KINDS[item.kind] ?? SymbolKind.Variable,
+                containerName: item.containerName,
+                tags: [],
+                location: new Location(Uri.file(item.fileName), toRange(item.fileName, item.textSpan)),
+            })),
+    };
+}
@@ -1,28 +1,121 @@
-import { DocumentSymbol } from "vscode";
+import { DocumentSymbol, Uri } from "vscode";
 
 export type RaydocContext = {
     filepath: string;
     line: number;
     immediateContextLines?: string;
-    errorMessage?: string;
+    // Diagnostics inside the main functions (and referenced functions, if enabled), most relevant first
+    diagnostics?: DiagnosticInfo[];
     languageId: string;
     runtime?: string;
     runtimeVersion?: string;
     runtimePath?: string;
-    packages?: Record<string, string>;
+    workspaceFolder?: string;
+    // The packages the used files belong to, the focused file's package first
+    packages?: PackageManifest[];
     functionDefns?: FunctionDefinition[];
     referencedFunctions?: FunctionDefinition[];
     typeDefns?: FunctionDefinition[];
+    incomingCalls?: FunctionDefinition[];
+    // Test cases that reference the main functions
+    tests?: FunctionDefinition[];
     fileTree?: Node;
+    git?: GitHistory;
+    // Set when gathering hit the gather-timeout, so some definitions may be missing
+    partial?: boolean;
 }
 
 export type FunctionDefinition = {
     functionName: string;
     filename: string;
+    uri: Uri;
     functionText: string;
     functionSymbol: DocumentSymbol;
     startLine: number;
     endLine: number;
+    relevance?: number;
+    depth?: number;
+    // Lines marked with ">>>": call sites in callers, failing lines in stack trace frames
+    callSiteLines?: number[];
+    // Set when functionText was cut down to a signature or outline
+    detail?: DetailLevel;
+    // The source line of each line of functionText when it was cut down, -1 for elided bodies
+    lineNumbers?: number[];
+}
+
+// How much of a definition goes into the context: all of it, its signature and doc comments, or an outline
+export type DetailLevel = 'full' | 'signature' | 'outline';
+
+export type DiagnosticInfo = {
+    filename: string;
+    severity: 'error' | 'warning' | 'information' | 'hint';
+    message: string;
+    // The tool that reported it, e.g. ts or eslint
+    source?: string;
+    code?: string;
+    // 0-based positions, as in vscode.Range
+    startLine: number;
+    startCharacter: number;
+    endLine: number;
+    endCharacter: number;
+    // The text of the line the diagnostic starts on
+    sourceLine?: string;
+    relatedInformation: DiagnosticRelatedInfo[];
+}
+
+export type DiagnosticRelatedInfo = {
+    filename: string;
+    line: number;
+    character: number;
+    message: string;
+    sourceLine?: string;
+}
+
+export type PackageManifest = {
+    // The name of the package, when the manifest declares one
+    name?: string;
+    // Path of the manifest relative to the workspace
+    manifestPath: string;
+    dependencies: Record<string, PackageDependency>;
+}
+
+export type PackageDependency = {
+    // The version or range as written in the manifest
+    version: string;
+    // The installed version from the lockfile, when there is one
+    resolved?: string;
+    // Optional features requested with the package (Python extras, Cargo features)
+    extras?: string[];
+    // Environment marker limiting when the package is installed, e.g. python_version < "3.8"
+    marker?: string;
+    // Go modules only needed by dependencies
+    indirect?: boolean;
+    // Where the dependency actually comes from instead, e.g. a Go replace directive or a workspace package
+    replacement?: string;
+}
+
+export type GitHistory = {
+    // Uncommitted diff hunks that overlap the main functions
+    diffHunks: string[];
+    // The most recent commits that touched the main functions
+    commits: GitCommit[];
+    // Blame for the focused lines
+    blame: GitBlameLine[];
+}
+
+export type GitCommit = {
+    hash: string;
+    authorDate: string;
+    subject: string;
+}
+
+export type GitBlameLine = {
+    // 1-based line number
+    line: number;
+    hash: string;
+    author: string;
+    authorDate: string;
+    text: string;
 }
 
 export type Node = {
@@ -31,3 +124,25 @@ export type Node = {
     fsPath: string;
     children?: Node[];
 }
+
+export type OutputOptions = {
+    location: boolean;
+    environment: boolean;
+    runtimeVersion: boolean;
+    focusedLines: boolean;
+    packages: boolean;
+    fileTree: boolean;
+    functionDefinition: boolean;
+    typeDefinitions: boolean;
+    referencedFunctions: boolean;
+    incomingCalls: boolean;
+    tests: boolean;
+    gitHistory: boolean;
+    systemMessage: string;
+}
+
+export type ContextFormatter = (
+    context: RaydocContext,
+    options: OutputOptions,
+    omitted: FunctionDefinition[]
+) => string;
@@ -0,0 +1,70 @@
+import * as vscode from 'vscode';
+
+import { forgetLanguageVersions } from './context';
+import { LanguageProvider, setLanguageProvider } from './provider';
+import { forgetDocumentSymbols, invalidateDocumentSymbols } from './symbolCache';
+
+const vscodeProvider: LanguageProvider = {
+    types: vscode,
+
+    documentSymbols: async uri =>
+        await vscode.commands.executeCommand<vscode.DocumentSymbol[]>('vscode.executeDocumentSymbolProvider', uri) || undefined,
+
+    definitions: async (uri, position) => {
+        const results: (vscode.Location | vscode.LocationLink)[] = [];
+        for (const command of [
+            'vscode.executeDefinitionProvider',
+            'vscode.executeDeclarationProvider',
+            'vscode.executeTypeDefinitionProvider',
+        ]) {
+            results.push(...await vscode.commands.executeCommand<(vscode.Location | vscode.LocationLink)[]>(command, uri, position) || []);
+        }
+        return results;
+    },
+
+    references: async (uri, position) =>
+        await vscode.commands.executeCommand<vscode.Location[]>('vscode.executeReferenceProvider', uri, position) || [],
+
+    prepareCallHierarchy: async (uri, position) =>
+        await vscode.commands.executeCommand<vscode.CallHierarchyItem[]>('vscode.prepareCallHierarchy', uri, position) || [],
+
+    incomingCalls: async item =>
+        await vscode.commands.executeCommand<vscode.CallHierarchyIncomingCall[]>('vscode.provideIncomingCalls', item) || [],
+
+    diagnostics: async uri => vscode.languages.getDiagnostics(uri),
+
+    workspaceSymbols: async query =>
+        await vscode.commands.executeCommand<vscode.SymbolInformation[]>('vscode.executeWorkspaceSymbolProvider', query) || [],
+
+    workspaceFolders: () => vscode.workspace.workspaceFolders || [],
+    workspaceName: () => vscode.workspace.name,
+    getWorkspaceFolder: uri => vscode.workspace.getWorkspaceFolder(uri),
+    asRelativePath: pathOrUri => vscode.workspace.asRelativePath(pathOrUri),
+    getConfiguration: section => vscode.workspace.getConfiguration(section),
+    openTextDocument: async uri => vscode.workspace.openTextDocument(uri),
+    findFiles: async (folder, include, exclude, maxResults, token) =>
+        vscode.workspace.findFiles(new vscode.RelativePattern(folder, include), exclude, maxResults, token),
+
+    withProgress: async (title, task) =>
+        vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title, cancellable: true }, task),
+    showWarningMessage: message => {
+        vscode.window.showWarningMessage(message);
+    },
+    showErrorMessage: message => {
+        vscode.window.showErrorMessage(message);
+    },
+    getExtension: id => vscode.extensions.getExtension(id),
+};
+
+/**
+ * Gather context with the editor's documents, settings and language extensions, and drop cached
+ * symbols as documents change and runtime versions as settings change.
+ */
+export function initVscodeProvider(extensionContext: vscode.ExtensionContext) {
+    setLanguageProvider(vscodeProvider);
+    extensionContext.subscriptions.push(
+        vscode.workspace.onDidChangeTextDocument(event => invalidateDocumentSymbols(event.document.uri)),
+        vscode.workspace.onDidCloseTextDocument(doc => forgetDocumentSymbols(doc.uri)),
+        vscode.workspace.onDidChangeConfiguration(() => forgetLanguageVersions()),
+    );
+}
@@ -0,0 +1,269 @@
+import type * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { parseToml, TomlTable } from './toml';
+import { getLanguageProvider } from './provider';
+
+/**
+ * Walk up from startDir to stopDir (inclusive) and return the first directory the predicate accepts.
+ */
+export function findUp(startDir: string, stopDir: string, predicate: (dir: string) => boolean): string | undefined {
+    let dir = startDir;
+    while (true) {
+        if (predicate(dir)) {
+            return dir;
+        }
+        const parent = path.dirname(dir);
+        if (dir === stopDir || parent === dir || !isInside(parent, stopDir)) {
+            return undefined;
+        }
+        dir = parent;
+    }
+}
+
+/**
+ * The directory to stop at when walking up from a file: the root of the workspace folder
+ * that owns it, or the file's own directory outside of any workspace folder.
+ */
+export function getStopDir(fsPath: string): string {
+    const provider = getLanguageProvider();
+    const folder = provider.getWorkspaceFolder(provider.types.Uri.file(fsPath));
+    return folder ? folder.uri.fsPath : path.dirname(fsPath);
+}
+
+function isInside(dir: string, root: string): boolean {
+    const relative = path.relative(root, dir);
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+function readJson(filePath: string): unknown {
+    try {
+        return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (err) {
+        return undefined;
+    }
+}
+
+// The object in a JSON file such as package.json, or undefined when it holds anything else
+export function readJsonObject(filePath: string): Record<string, unknown> | undefined {
+    const json = readJson(filePath);
+    return isJsonObject(json) ? json : undefined;
+}
+
+export function isJsonObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// The entries of a JSON object with string values, e.g. the dependencies in a package.json
+export function stringEntries(value: unknown): Record<string, string> {
+    const entries: Record<string, string> = {};
+    if (isJsonObject(value)) {
+        for (const [key, entry] of Object.entries(value)) {
+            if (typeof entry === 'string') {
+                entries[key] = entry;
+            }
+        }
+    }
+    return entries;
+}
+
+export function readToml(filePath: string): TomlTable | undefined {
+    try {
+        return parseToml(fs.readFileSync(filePath, 'utf-8'));
+    } catch (err) {
+        return undefined;
+    }
+}
+
+// ========== npm / yarn / pnpm workspaces ==========
+
+export type JsWorkspace = {
+    root: string;
+    // Package name -> directory of every package in the workspace
+    members: Map<string, string>;
+};
+
+/**
+ * Find the npm/yarn workspace (`workspaces` in package.json) or pnpm workspace
+ * (pnpm-workspace.yaml) that contains the package directory.
+ */
+export function findJsWorkspace(packageDir: string, stopDir: string): JsWorkspace | undefined {
+    let patterns: string[] = [];
+    const root = findUp(packageDir, stopDir, dir => {
+        const pnpmWorkspace = path.join(dir, 'pnpm-workspace.yaml');
+        if (fs.existsSync(pnpmWorkspace)) {
+            patterns = parsePnpmWorkspacePackages(fs.readFileSync(pnpmWorkspace, 'utf-8'));
+            return true;
+        }
+
+        const workspaces = readJsonObject(path.join(dir, 'package.json'))?.workspaces;
+        // Either an array of globs or, for yarn, { packages: [...] }
+        const globs = Array.isArray(workspaces) ? workspaces : isJsonObject(workspaces) ? workspaces.packages : undefined;
+        if (Array.isArray(globs)) {
+            patterns = globs.filter((glob): glob is string => typeof glob === 'string');
+            return true;
+        }
+        return false;
+    });
+    if (!root) {
+        return undefined;
+    }
+
+    const members = new Map<string, string>();
+    for (const dir of expandWorkspacePatterns(root, patterns, 'package.json')) {
+        const name = readJsonObject(path.join(dir, 'package.json'))?.name;
+        if (typeof name === 'string') {
+            members.set(name, dir);
+        }
+    }
+    return { root, members };
+}
+
+function parsePnpmWorkspacePackages(content: string): string[] {
+    const patterns: string[] = [];
+    let inPackages = false;
+    for (const line of content.split(/\r?\n/)) {
+        if (/^\S/.test(line)) {
+            inPackages = /^packages:\s*$/.test(line);
+            continue;
+        }
+        const match = line.match(/^\s+-\s*['"]?([^'"#]+?)['"]?\s*(#.*)?$/);
+        if (inPackages && match) {
+            patterns.push(match[1]);
+        }
+    }
+    return patterns;
+}
+
+/**
+ * Expand workspace globs such as `packages/*`, `apps/**` or `tools/cli` to the directories
+ * that hold the given manifest. Negated patterns (`!packages/private`) are excluded.
+ */
+export function expandWorkspacePatterns(root: string, patterns: string[], manifestName: string): string[] {
+    const excluded = new Set(
+        patterns.filter(pattern => pattern.startsWith('!')).map(pattern => path.join(root, pattern.slice(1)))
+    );
+
+    const dirs = new Set<string>();
+    for (const pattern of patterns.filter(pattern => !pattern.startsWith('!'))) {
+        let candidates = [root];
+        for (const segment of pattern.replace(/\/+$/, '').split('/')) {
+            if (segment === '' || segment === '.') {
+                continue;
+            }
+            if (segment === '**') {
+                candidates = candidates.flatMap(dir => [dir, ...listSubdirectories(dir, 4)]);
+            } else if (segment.includes('*')) {
+                const regex = new RegExp(`^${segment.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')}$`);
+                candidates = candidates.flatMap(dir => listSubdirectories(dir, 1).filter(sub => regex.test(path.basename(sub))));
+            } else {
+                candidates = candidates.map(dir => path.join(dir, segment));
+            }
+        }
+        for (const dir of candidates) {
+            if (!excluded.has(dir) && fs.existsSync(path.join(dir, manifestName))) {
+                dirs.add(dir);
+            }
+        }
+    }
+    return Array.from(dirs);
+}
+
+function listSubdirectories(dir: string, depth: number): string[] {
+    if (depth === 0) {
+        return [];
+    }
+    try {
+        return fs.readdirSync(dir, { withFileTypes: true })
+            .filter(entry => entry.isDirectory() && entry.name !== 'node_modules' && !entry.name.startsWith('.'))
+            .flatMap(entry => {
+                const sub = path.join(dir, entry.name);
+                return [sub, ...listSubdirectories(sub, depth - 1)];
+            });
+    } catch (err) {
+        return [];
+    }
+}
+
+// ========== Cargo workspaces ==========
+
+export type CargoWorkspace = {
+    root: string;
+    manifest: TomlTable;
+};
+
+/**
+ * Find the Cargo.toml with a [workspace] table at or above the crate directory.
+ */
+export function findCargoWorkspace(crateDir: string, stopDir: string): CargoWorkspace | undefined {
+    let manifest: TomlTable | undefined;
+    const root = findUp(crateDir, stopDir, dir => {
+        const cargoToml = path.join(dir, 'Cargo.toml');
+        if (!fs.existsSync(cargoToml)) {
+            return false;
+        }
+        const parsed = readToml(cargoToml);
+        if (parsed?.workspace) {
+            manifest = parsed;
+            return true;
+        }
+        return false;
+    });
+    return root && manifest ? { root, manifest } : undefined;
+}
+
+// ========== Go workspaces ==========
+
+/**
+ * Read the modules a go.work file at or above the module directory uses,
+ * as module path -> directory.
+ */
+export function findGoWorkspaceModules(moduleDir: string, stopDir: string): Map<string, string> | undefined {
+    const root = findUp(moduleDir, stopDir, dir => fs.existsSync(path.join(dir, 'go.work')));
+    if (!root) {
+        return undefined;
+    }
+
+    const modules = new Map<string, string>();
+    for (const useDir of parseGoWorkUses(fs.readFileSync(path.join(root, 'go.work'), 'utf-8'))) {
+        const dir = path.resolve(root, useDir);
+        const modulePath = readGoModulePath(dir);
+        if (modulePath) {
+            modules.set(modulePath, dir);
+        }
+    }
+    return modules;
+}
+
+function parseGoWorkUses(content: string): string[] {
+    const uses: string[] = [];
+    let inUseBlock = false;
+    for (const rawLine of content.split(/\r?\n/)) {
+        const line = rawLine.replace(/\/\/.*$/, '').trim();
+        if (inUseBlock) {
+            if (line === ')') {
+                inUseBlock = false;
+            } else if (line) {
+                uses.push(line.replace(/^"|"$/g, ''));
+            }
+            continue;
+        }
+        const match = line.match(/^use\s+(.*)$/);
+        if (match && match[1] === '(') {
+            inUseBlock = true;
+        } else if (match) {
+            uses.push(match[1].replace(/^"|"$/g, ''));
+        }
+    }
+    return uses;
+}
+
+export function readGoModulePath(moduleDir: string): string | undefined {
+    try {
+        const content = fs.readFileSync(path.join(moduleDir, 'go.mod'), 'utf-8');
+        return content.match(/^\s*module\s+"?([^\s"]+)"?/m)?.[1];
+    } catch (err) {
+        return undefined;
+    }
+}